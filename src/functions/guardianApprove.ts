@@ -1,18 +1,42 @@
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
-import { updateGuardianAuth, clearAllAuthorizations, getAllAuthorizations } from '../storage/tableClient';
+import { updateGuardianAuth, clearAllAuthorizations, getAllAuthorizations, clearLedger } from '../storage/tableClient';
 import { createLogger, safeErrorMessage } from '../shared/utils';
-import { GuardianAuthorization } from '../shared/types';
+import { GuardianAuthorization, LedgerEvento } from '../shared/types';
 import { GuardianAgents } from '../guardian/guardianAgents';
+import { findConta } from '../guardian/accountBalances';
+import { createTransferLeg, cancelTransferLeg, defaultCardAccount, CARD_PAYMENT_CATEGORY } from '../guardian/internalTransfers';
+import { applySplit, cancelSplit, validateSplit, SplitPart } from '../guardian/splitTransactions';
+import { getClosedPeriods, lockedPeriodError } from '../guardian/monthlyClose';
+import { postAuthorizationLedger } from '../guardian/ledger';
+import { reopenPayablesSettledBy } from '../guardian/payables';
+import { reopenReceivablesSettledBy } from '../guardian/receivables';
+import { getCadastroRecords } from '../storage/areaTableClient';
+import { Categoria, ContaCorrente } from '../shared/areas';
 
 const logger = createLogger('GuardianApprove');
 
+/** Evento registrado no razão para cada ação */
+const LEDGER_EVENTO: Record<Exclude<ApproveBody['action'], 'clear_all'>, LedgerEvento> = {
+    approve: 'aprovacao',
+    reject: 'rejeicao',
+    reclassify: 'reclassificacao',
+    transfer: 'transferencia',
+    split: 'rateio',
+};
+
 interface ApproveBody {
     id: string;
-    action: 'approve' | 'reject' | 'reclassify' | 'clear_all';
+    action: 'approve' | 'reject' | 'reclassify' | 'transfer' | 'split' | 'clear_all';
     classificacao?: string;
     dataCompetencia?: string;
     dataVencimento?: string;
     dataPagamento?: string;
+    /** Corrige a conta do lançamento */
+    contaId?: string;
+    /** action=transfer: conta que recebe a contrapartida */
+    contaDestino?: string;
+    /** action=split: partes do rateio (somam o valor da transação) */
+    partes?: SplitPart[];
 }
 
 export async function guardianApproveHandler(
@@ -31,7 +55,16 @@ export async function guardianApproveHandler(
 
         // ---- Clear all data ----
         if (body.action === 'clear_all') {
+            const closed = await getClosedPeriods();
+            if (closed.size > 0) {
+                return { status: 409, jsonBody: { error: `Há meses fechados (${[...closed].sort().join(', ')}). Reabra-os antes de limpar os dados.` } };
+            }
+            // Baixas automáticas apontam para transações que deixam de existir
+            const ids = (await getAllAuthorizations()).map(a => a.id);
+            await reopenPayablesSettledBy(ids);
+            await reopenReceivablesSettledBy(ids);
             const removed = await clearAllAuthorizations();
+            await clearLedger();
             logger.info(`Limpeza completa: ${removed} registros removidos`);
             return {
                 status: 200,
@@ -43,21 +76,45 @@ export async function guardianApproveHandler(
             return { status: 400, jsonBody: { error: 'Campo "id" é obrigatório.' } };
         }
 
-        if (!['approve', 'reject', 'reclassify'].includes(body.action)) {
-            return { status: 400, jsonBody: { error: 'Action inválida. Use: approve, reject, reclassify, clear_all' } };
+        if (!['approve', 'reject', 'reclassify', 'transfer', 'split'].includes(body.action)) {
+            return { status: 400, jsonBody: { error: 'Action inválida. Use: approve, reject, reclassify, transfer, split, clear_all' } };
         }
 
-        // Build update payload — always allow optional date overrides
+        // Build update payload — always allow optional date/account overrides
         const dateUpdates: Partial<GuardianAuthorization> = {};
         if (body.dataCompetencia) dateUpdates.dataCompetencia = body.dataCompetencia;
         if (body.dataVencimento) dateUpdates.dataVencimento = body.dataVencimento;
         if (body.dataPagamento) dateUpdates.dataPagamento = body.dataPagamento;
+        if (body.contaId) {
+            if (!(await findConta(body.contaId))) {
+                return { status: 404, jsonBody: { error: `Conta "${body.contaId}" não encontrada.` } };
+            }
+            dateUpdates.contaId = body.contaId;
+        }
 
         // Load the authorization to get its description for learning
         const agents = new GuardianAgents();
         const allAuths = await getAllAuthorizations();
         const targetAuth = allAuths.find(a => a.id === body.id);
 
+        // Mês fechado: nada muda no lançamento — nem movê-lo para dentro ou para fora do período.
+        // As partes de um rateio anterior também mudam (rejeitar, reclassificar e novo rateio as cancelam)
+        if (targetAuth) {
+            const after = { ...targetAuth, ...dateUpdates };
+            const partes = body.action === 'split' && Array.isArray(body.partes) ? body.partes : [];
+            const linhasAtuais = allAuths.filter(a => a.parentId === targetAuth.id && a.status !== 'rejeitado');
+            const locked = lockedPeriodError(
+                await getClosedPeriods(),
+                targetAuth,
+                after,
+                ...linhasAtuais,
+                ...partes.map(p => ({ ...after, dataCompetencia: p?.dataCompetencia || after.dataCompetencia })),
+            );
+            if (locked) {
+                return { status: 409, jsonBody: { error: locked } };
+            }
+        }
+
         if (body.action === 'approve') {
             await updateGuardianAuth(body.id, {
                 status: 'aprovado',
@@ -65,6 +122,15 @@ export async function guardianApproveHandler(
                 ...dateUpdates,
             });
 
+            // Pagamento de fatura sem destino escolhido: quita o único cartão cadastrado
+            if (targetAuth && targetAuth.classificacao === CARD_PAYMENT_CATEGORY && targetAuth.direcao === 'DEBITO' && !targetAuth.contaDestino) {
+                const cartao = await defaultCardAccount();
+                if (cartao && cartao.id !== (dateUpdates.contaId || targetAuth.contaId)) {
+                    await createTransferLeg({ ...targetAuth, ...dateUpdates }, cartao, CARD_PAYMENT_CATEGORY);
+                    await updateGuardianAuth(body.id, { contaDestino: cartao.id });
+                }
+            }
+
             // Learn: reinforce the current classification
             if (targetAuth?.descricao) {
                 await agents.learn(targetAuth.descricao, targetAuth.classificacao);
@@ -76,6 +142,17 @@ export async function guardianApproveHandler(
                 needsReview: false,
                 ...dateUpdates,
             });
+            if (targetAuth) {
+                await cancelTransferLeg(targetAuth);
+                await cancelSplit(targetAuth);
+            }
+            // Débito/crédito rejeitado não quita nada: reabre o título que ele baixou
+            if ((await reopenPayablesSettledBy([body.id])).length > 0) {
+                await updateGuardianAuth(body.id, { contaPagarId: '' });
+            }
+            if ((await reopenReceivablesSettledBy([body.id])).length > 0) {
+                await updateGuardianAuth(body.id, { contaReceberId: '' });
+            }
             logger.info(`Transação rejeitada: ${body.id}`);
         } else if (body.action === 'reclassify') {
             if (!body.classificacao) {
@@ -88,14 +165,62 @@ export async function guardianApproveHandler(
                 confianca: 1.0,
                 ...dateUpdates,
             });
+            // Uma categoria só: desfaz rateio anterior
+            if (targetAuth) await cancelSplit(targetAuth);
 
             // Learn: register the correction so future transactions are classified correctly
             if (targetAuth?.descricao) {
                 await agents.learn(targetAuth.descricao, body.classificacao);
             }
             logger.info(`Transação reclassificada: ${body.id} → ${body.classificacao}`);
+        } else if (body.action === 'transfer') {
+            // Movimentação entre contas próprias: aprova a origem e lança a contrapartida no destino
+            if (!body.contaDestino) {
+                return { status: 400, jsonBody: { error: 'Campo "contaDestino" é obrigatório para transfer.' } };
+            }
+            if (!targetAuth || targetAuth.tipo !== 'transaction') {
+                return { status: 404, jsonBody: { error: `Transação "${body.id}" não encontrada.` } };
+            }
+            const destino = await findConta(body.contaDestino);
+            if (!destino) {
+                return { status: 404, jsonBody: { error: `Conta "${body.contaDestino}" não encontrada.` } };
+            }
+            if (destino.id === (dateUpdates.contaId || targetAuth.contaId)) {
+                return { status: 400, jsonBody: { error: 'Conta destino deve ser diferente da conta de origem.' } };
+            }
+
+            const classificacao = await transferCategory(targetAuth.classificacao, destino);
+            await updateGuardianAuth(body.id, {
+                classificacao,
+                status: 'aprovado',
+                needsReview: false,
+                contaDestino: destino.id,
+                ...dateUpdates,
+            });
+            await createTransferLeg({ ...targetAuth, ...dateUpdates }, destino, classificacao);
+            logger.info(`Transferência registrada: ${body.id} → ${destino.id}`);
+        } else if (body.action === 'split') {
+            // Um débito que cobre várias coisas: aprova dividindo em partes com categoria/competência próprias
+            if (!targetAuth) {
+                return { status: 404, jsonBody: { error: `Transação "${body.id}" não encontrada.` } };
+            }
+            const parent = { ...targetAuth, ...dateUpdates };
+            const error = validateSplit(parent, body.partes || []);
+            if (error) {
+                return { status: 400, jsonBody: { error } };
+            }
+            if (Object.keys(dateUpdates).length > 0) await updateGuardianAuth(body.id, dateUpdates);
+            const lines = await applySplit(parent, body.partes!);
+            await postAuthorizationLedger(body.id, LEDGER_EVENTO.split);
+            return {
+                status: 200,
+                jsonBody: { success: true, id: body.id, action: body.action, partes: lines.map(l => l.id) },
+            };
         }
 
+        // Partidas dobradas: estorna o que mudou e lança o estado novo (transação, partes e contrapartida)
+        await postAuthorizationLedger(body.id, LEDGER_EVENTO[body.action]);
+
         return {
             status: 200,
             jsonBody: { success: true, id: body.id, action: body.action },
@@ -106,6 +231,14 @@ export async function guardianApproveHandler(
     }
 }
 
+/** Keeps an internal-movement category the item already has; otherwise picks one by destination */
+async function transferCategory(current: string, destino: ContaCorrente): Promise<string> {
+    if (destino.tipo === 'cartao') return CARD_PAYMENT_CATEGORY;
+    const categorias = await getCadastroRecords<Categoria>('categorias');
+    const isInterna = categorias.some(c => c.nome === current && c.tipo === 'TRANSFERENCIA_INTERNA');
+    return isInterna ? current : 'Transferencia Entre Contas';
+}
+
 app.http('guardianApprove', {
     methods: ['POST'],
     authLevel: 'anonymous',
@@ -19,6 +19,7 @@ import {
     updateAreaRecord,
     deleteAreaRecord,
 } from '../storage/areaTableClient';
+import { syncDealReceivables } from '../guardian/receivables';
 
 const logger = createLogger('GuardianAreas');
 
@@ -173,14 +174,18 @@ export async function guardianAreasPostHandler(
                 return { status: 400, jsonBody: { error: 'Campo "record" com "id" e obrigatorio.' } };
             }
 
+            const previous = area === 'comercial' ? await findDeal(record.id) : null;
             if (action === 'create') {
                 await createAreaRecord(area, record);
             } else {
                 await updateAreaRecord(area, record);
             }
 
+            // Deal ganho gera o cronograma de contas a receber; saindo de ganho, cancela o que está aberto
+            const receber = area === 'comercial' ? await syncDealReceivables(record as ComercialDeal, previous) : undefined;
+
             logger.info(`${area} ${action}: ${record.id}`);
-            return { status: 200, jsonBody: { success: true, action, id: record.id } };
+            return { status: 200, jsonBody: { success: true, action, id: record.id, receber } };
         }
 
         if (action === 'delete') {
@@ -188,7 +193,9 @@ export async function guardianAreasPostHandler(
             if (!recordId) {
                 return { status: 400, jsonBody: { error: 'Campo "id" e obrigatorio para delete.' } };
             }
+            const previous = area === 'comercial' ? await findDeal(recordId) : null;
             await deleteAreaRecord(area, recordId);
+            if (previous) await syncDealReceivables(null, previous);
             logger.info(`${area} delete: ${recordId}`);
             return { status: 200, jsonBody: { success: true, action: 'delete', id: recordId } };
         }
@@ -200,6 +207,11 @@ export async function guardianAreasPostHandler(
     }
 }
 
+async function findDeal(id: string): Promise<ComercialDeal | null> {
+    const deals = await getAreaRecords<ComercialDeal>('comercial');
+    return deals.find(d => d.id === id) || null;
+}
+
 // ============ ROUTES ============
 
 app.http('guardianAreasGet', {
@@ -1,6 +1,7 @@
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
 import { createLogger, nowISO, safeErrorMessage } from '../shared/utils';
-import { CadastroType, Categoria } from '../shared/areas';
+import { CadastroType, Categoria, ContaCorrente } from '../shared/areas';
+import { validateConector } from '../guardian/bankConnector';
 import {
     getCadastroRecords,
     createCadastroRecord,
@@ -50,9 +51,11 @@ const DEFAULT_CATEGORIAS: Omit<Categoria, 'id' | 'criadoEm'>[] = [
     { nome: 'Marketing Digital',            tipo: 'CUSTO_VARIAVEL',     grupo: 'Marketing Performance',        orcamentoMensal: 2000, ativa: true },
     { nome: 'Comissoes de Venda',           tipo: 'CUSTO_VARIAVEL',     grupo: 'Comissoes',                    orcamentoMensal: 0,    ativa: true },
     { nome: 'Impostos Sobre Servicos',      tipo: 'CUSTO_VARIAVEL',     grupo: 'Impostos Variaveis',           orcamentoMensal: 0,    ativa: true },
+    { nome: 'DAS Simples Nacional',         tipo: 'CUSTO_VARIAVEL',     grupo: 'Impostos Variaveis',           orcamentoMensal: 0,    ativa: true },
     { nome: 'Fornecedores',                 tipo: 'CUSTO_VARIAVEL',     grupo: 'Insumos e Materiais',          orcamentoMensal: 2000, ativa: true },
     { nome: 'Eventos e Patrocinios',        tipo: 'CUSTO_VARIAVEL',     grupo: 'Marketing Performance',        orcamentoMensal: 500,  ativa: true },
     { nome: 'Material para Projetos',       tipo: 'CUSTO_VARIAVEL',     grupo: 'Insumos e Materiais',          orcamentoMensal: 0,    ativa: true },
+    { nome: 'Viagens e Deslocamentos',      tipo: 'CUSTO_VARIAVEL',     grupo: 'Viagens',                      orcamentoMensal: 0,    ativa: true },
 
     // ===== CUSTO_FIXO — Nao variam com o volume de producao =====
     { nome: 'Folha de Pagamento',           tipo: 'CUSTO_FIXO',         grupo: 'Pessoal',                      orcamentoMensal: 15000, ativa: true },
@@ -176,6 +179,12 @@ export async function guardianCadastrosPostHandler(
             if (!record || !record.id) {
                 return { status: 400, jsonBody: { error: 'Campo "record" com "id" e obrigatorio.' } };
             }
+            if (tipo === 'contas' && (record as unknown as ContaCorrente).conector) {
+                const error = validateConector(record as unknown as ContaCorrente, await getCadastroRecords<ContaCorrente>('contas'));
+                if (error) {
+                    return { status: 400, jsonBody: { error } };
+                }
+            }
 
             if (action === 'create') {
                 await createCadastroRecord(tipo, record);
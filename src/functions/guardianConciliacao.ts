@@ -0,0 +1,151 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { clientPrincipalName, safeErrorMessage } from '../shared/utils';
+import { getAllAuthorizations, getReconciliationDecisions } from '../storage/tableClient';
+import { buildWorkbench, confirmMatch, undoMatch, openDocuments } from '../guardian/reconciliationWorkbench';
+import { getClosedPeriods, lockedPeriodError } from '../guardian/monthlyClose';
+import { postAuthorizationLedger } from '../guardian/ledger';
+
+interface ConciliacaoBody {
+    action: 'confirmar' | 'desfazer';
+    transacaoId: string;
+    /** confirmar: um ou mais documentos, na ordem em que o pagamento é aplicado */
+    documentIds?: string[];
+    observacao?: string;
+}
+
+// GET /api/guardianConciliacao?de=YYYY-MM-DD&ate=YYYY-MM-DD — transações e documentos em aberto, com sugestões
+export async function guardianConciliacaoGetHandler(
+    request: HttpRequest,
+    context: InvocationContext
+): Promise<HttpResponseInit> {
+    try {
+        const view = await buildWorkbench({
+            de: request.query.get('de') || undefined,
+            ate: request.query.get('ate') || undefined,
+        });
+        return {
+            status: 200,
+            jsonBody: {
+                success: true,
+                totais: {
+                    transacoes: view.transacoes.length,
+                    comSugestao: view.transacoes.filter(t => t.candidatos.length > 0).length,
+                    documentos: view.documentos.length,
+                },
+                ...view,
+            },
+        };
+    } catch (error: unknown) {
+        context.error('Erro ao montar bancada de conciliação', error);
+        return { status: 500, jsonBody: { error: safeErrorMessage(error) } };
+    }
+}
+
+// POST /api/guardianConciliacao — action: confirmar | desfazer
+export async function guardianConciliacaoPostHandler(
+    request: HttpRequest,
+    context: InvocationContext
+): Promise<HttpResponseInit> {
+    try {
+        let body: ConciliacaoBody;
+        try { body = await request.json() as ConciliacaoBody; }
+        catch { return { status: 400, jsonBody: { error: 'Request body inválido (JSON esperado).' } }; }
+        if (!body || !body.transacaoId) {
+            return { status: 400, jsonBody: { error: 'Campo "transacaoId" é obrigatório.' } };
+        }
+
+        const usuario = clientPrincipalName(request.headers.get('x-ms-client-principal'));
+        const all = await getAllAuthorizations();
+        const tx = all.find(a => a.id === body.transacaoId && a.tipo === 'transaction');
+        if (!tx) {
+            return { status: 404, jsonBody: { error: `Transação "${body.transacaoId}" não encontrada.` } };
+        }
+
+        if (body.action === 'confirmar') {
+            const documentIds = Array.isArray(body.documentIds) ? body.documentIds.filter(Boolean) : [];
+            if (documentIds.length === 0) {
+                return { status: 400, jsonBody: { error: 'Campo "documentIds" é obrigatório para confirmar.' } };
+            }
+            if (tx.status === 'rejeitado') {
+                return { status: 409, jsonBody: { error: `Transação "${tx.id}" foi rejeitada.` } };
+            }
+            if (tx.match) {
+                return { status: 409, jsonBody: { error: `Transação "${tx.id}" já está conciliada com ${tx.match}. Desfaça antes de conciliar de novo.` } };
+            }
+            const open = openDocuments(all);
+            const indisponiveis = documentIds.filter(id => !open.docs.some(d => d.id === id));
+            if (indisponiveis.length > 0) {
+                return { status: 404, jsonBody: { error: `Documento(s) inexistente(s) ou sem saldo em aberto: ${indisponiveis.join(', ')}` } };
+            }
+
+            const locked = lockedPeriodError(await getClosedPeriods(), tx);
+            if (locked) {
+                return { status: 409, jsonBody: { error: locked } };
+            }
+
+            const match = await confirmMatch(tx, documentIds, open, usuario, body.observacao);
+            // Pagamento conciliado baixa fornecedores/clientes em vez de lançar no resultado
+            await postAuthorizationLedger(tx.id, 'conciliacao');
+            return { status: 200, jsonBody: { success: true, action: body.action, conciliacao: match } };
+        }
+
+        if (body.action === 'desfazer') {
+            if (!tx.match) {
+                return { status: 409, jsonBody: { error: `Transação "${tx.id}" não está conciliada.` } };
+            }
+            // Desfazer devolve transação e documentos para pendente — tira-os do mês fechado
+            const documentos = all.filter(a => tx.match.split(',').includes(a.id));
+            const locked = lockedPeriodError(await getClosedPeriods(), tx, ...documentos);
+            if (locked) {
+                return { status: 409, jsonBody: { error: locked } };
+            }
+            const documentIds = await undoMatch(tx, all, usuario, body.observacao);
+            // Voltaram para pendente: o razão estorna o que elas tinham lançado
+            for (const id of [tx.id, ...documentIds]) {
+                await postAuthorizationLedger(id, 'conciliacao');
+            }
+            return { status: 200, jsonBody: { success: true, action: body.action, transacaoId: tx.id, documentIds } };
+        }
+
+        return { status: 400, jsonBody: { error: 'Action inválida. Use: confirmar, desfazer' } };
+    } catch (error: unknown) {
+        context.error('Erro ao registrar decisão de conciliação', error);
+        return { status: 500, jsonBody: { error: safeErrorMessage(error) } };
+    }
+}
+
+// GET /api/guardianConciliacao/log?limit=50&transacaoId=... — decisões manuais (mais recentes primeiro)
+export async function guardianConciliacaoLogHandler(
+    request: HttpRequest,
+    context: InvocationContext
+): Promise<HttpResponseInit> {
+    try {
+        const limit = Math.min(parseInt(request.query.get('limit') || '50', 10) || 50, 500);
+        const decisions = await getReconciliationDecisions(limit, request.query.get('transacaoId') || undefined);
+        return { status: 200, jsonBody: { success: true, count: decisions.length, decisions } };
+    } catch (error: unknown) {
+        context.error('Erro ao listar decisões de conciliação', error);
+        return { status: 500, jsonBody: { error: safeErrorMessage(error) } };
+    }
+}
+
+app.http('guardianConciliacaoGet', {
+    methods: ['GET'],
+    route: 'guardianConciliacao',
+    authLevel: 'anonymous',
+    handler: guardianConciliacaoGetHandler,
+});
+
+app.http('guardianConciliacaoLog', {
+    methods: ['GET'],
+    route: 'guardianConciliacao/log',
+    authLevel: 'anonymous',
+    handler: guardianConciliacaoLogHandler,
+});
+
+app.http('guardianConciliacaoPost', {
+    methods: ['POST'],
+    route: 'guardianConciliacao',
+    authLevel: 'anonymous',
+    handler: guardianConciliacaoPostHandler,
+});
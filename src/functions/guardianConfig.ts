@@ -1,6 +1,7 @@
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
 import { getConfig, setConfig, getAllConfig } from '../storage/areaTableClient';
 import { safeErrorMessage } from '../shared/utils';
+import { validateTaxConfigEntry } from '../guardian/taxRegime';
 
 export async function guardianConfigGetHandler(
     request: HttpRequest,
@@ -27,6 +28,13 @@ export async function guardianConfigPostHandler(
             return { status: 400, jsonBody: { error: 'Envie pares chave:valor no body.' } };
         }
 
+        for (const [key, value] of entries) {
+            const error = validateTaxConfigEntry(key, String(value));
+            if (error) {
+                return { status: 400, jsonBody: { error } };
+            }
+        }
+
         for (const [key, value] of entries) {
             await setConfig(key, String(value));
         }
@@ -0,0 +1,168 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { createLogger, nowISO, safeErrorMessage } from '../shared/utils';
+import { ContaPagar, ContaPagarStatus } from '../shared/types';
+import { getTitulos, getTitulo, upsertTitulo, deleteTitulo } from '../storage/financeTableClient';
+import { validatePayable, withEffectiveStatus, buildAging, settlePayable, isOpen, today, PAYABLE_STATUSES } from '../guardian/payables';
+
+const logger = createLogger('GuardianContasPagar');
+
+// GET /api/guardianContasPagar?status=aberto&de=YYYY-MM-DD&ate=YYYY-MM-DD (filtro por vencimento)
+export async function guardianContasPagarGetHandler(
+    request: HttpRequest,
+    context: InvocationContext
+): Promise<HttpResponseInit> {
+    try {
+        const status = request.query.get('status') as ContaPagarStatus | null;
+        const de = request.query.get('de');
+        const ate = request.query.get('ate');
+        if (status && !PAYABLE_STATUSES.includes(status)) {
+            return { status: 400, jsonBody: { error: `Status inválido. Use: ${PAYABLE_STATUSES.join(', ')}` } };
+        }
+
+        const records = withEffectiveStatus(await getTitulos<ContaPagar>('pagar'))
+            .filter(p => !status || p.status === status)
+            .filter(p => !de || p.dataVencimento >= de)
+            .filter(p => !ate || p.dataVencimento <= ate)
+            .sort((a, b) => a.dataVencimento.localeCompare(b.dataVencimento));
+
+        const totalAberto = records.filter(isOpen).reduce((s, p) => s + p.valor, 0);
+        return {
+            status: 200,
+            jsonBody: { success: true, count: records.length, totalAberto: Math.round(totalAberto * 100) / 100, records },
+        };
+    } catch (error: unknown) {
+        context.error('Erro ao listar contas a pagar', error);
+        return { status: 500, jsonBody: { error: safeErrorMessage(error) } };
+    }
+}
+
+// GET /api/guardianContasPagar/aging?dataBase=YYYY-MM-DD
+export async function guardianContasPagarAgingHandler(
+    request: HttpRequest,
+    context: InvocationContext
+): Promise<HttpResponseInit> {
+    try {
+        const dataBase = request.query.get('dataBase') || today();
+        const aging = buildAging(withEffectiveStatus(await getTitulos<ContaPagar>('pagar'), dataBase), dataBase);
+        return { status: 200, jsonBody: { success: true, aging } };
+    } catch (error: unknown) {
+        context.error('Erro ao calcular aging de contas a pagar', error);
+        return { status: 500, jsonBody: { error: safeErrorMessage(error) } };
+    }
+}
+
+// POST /api/guardianContasPagar — action: create | update | delete | agendar | pagar | cancelar
+export async function guardianContasPagarPostHandler(
+    request: HttpRequest,
+    context: InvocationContext
+): Promise<HttpResponseInit> {
+    try {
+        const body = await request.json() as Record<string, unknown>;
+        const action = (body.action as string) || 'create';
+
+        if (action === 'create' || action === 'update') {
+            const record = body.record as ContaPagar;
+            const error = record ? validatePayable(record) : 'Campo "record" é obrigatório.';
+            if (error) {
+                return { status: 400, jsonBody: { error } };
+            }
+
+            const existing = await getTitulo<ContaPagar>('pagar', record.id);
+            if (action === 'create' && existing) {
+                return { status: 409, jsonBody: { error: `Título "${record.id}" já existe.` } };
+            }
+            if (action === 'update' && !existing) {
+                return { status: 404, jsonBody: { error: `Título "${record.id}" não encontrado.` } };
+            }
+            if (existing && !isOpen(existing)) {
+                return { status: 409, jsonBody: { error: `Título "${record.id}" está ${existing.status} e não pode ser alterado.` } };
+            }
+
+            await upsertTitulo('pagar', {
+                ...record,
+                fornecedorCnpj: record.fornecedorCnpj ? record.fornecedorCnpj.replace(/\D/g, '') : undefined,
+                dataCompetencia: record.dataCompetencia || record.dataVencimento,
+                // pago/cancelado só pelas actions próprias; vencido é derivado
+                status: existing?.status || (record.status === 'agendado' ? 'agendado' : 'aberto'),
+                recorrencia: record.recorrencia || 'nenhuma',
+                criadoEm: existing?.criadoEm || nowISO(),
+                atualizadoEm: nowISO(),
+            });
+
+            logger.info(`Conta a pagar ${action}: ${record.id}`);
+            return { status: 200, jsonBody: { success: true, action, id: record.id } };
+        }
+
+        const recordId = body.id as string;
+        if (!recordId) {
+            return { status: 400, jsonBody: { error: `Campo "id" é obrigatório para ${action}.` } };
+        }
+        const existing = await getTitulo<ContaPagar>('pagar', recordId);
+        if (!existing) {
+            return { status: 404, jsonBody: { error: `Título "${recordId}" não encontrado.` } };
+        }
+
+        if (action === 'delete') {
+            // Título quitado tem transação e lançamentos apontando para ele: desfazer a baixa antes
+            if (existing.status === 'pago') {
+                return { status: 409, jsonBody: { error: `Título "${recordId}" está pago e não pode ser excluído — rejeite o débito que o quitou antes.` } };
+            }
+            await deleteTitulo('pagar', recordId);
+            logger.info(`Conta a pagar delete: ${recordId}`);
+            return { status: 200, jsonBody: { success: true, action, id: recordId } };
+        }
+
+        if (!isOpen(existing)) {
+            return { status: 409, jsonBody: { error: `Título "${recordId}" já está ${existing.status}.` } };
+        }
+
+        if (action === 'agendar') {
+            const agendadoPara = (body.agendadoPara as string) || existing.dataVencimento;
+            await upsertTitulo('pagar', { ...existing, status: 'agendado', agendadoPara, contaId: (body.contaId as string) || existing.contaId, atualizadoEm: nowISO() });
+            logger.info(`Conta a pagar agendada: ${recordId} para ${agendadoPara}`);
+            return { status: 200, jsonBody: { success: true, action, id: recordId } };
+        }
+
+        if (action === 'pagar') {
+            // Baixa manual (ex: pago em espécie ou por conta sem extrato)
+            const paid = await settlePayable(existing, {
+                dataPagamento: (body.dataPagamento as string) || today(),
+                valorPago: typeof body.valorPago === 'number' ? body.valorPago : undefined,
+                contaId: body.contaId as string | undefined,
+            });
+            return { status: 200, jsonBody: { success: true, action, id: recordId, record: paid } };
+        }
+
+        if (action === 'cancelar') {
+            await upsertTitulo('pagar', { ...existing, status: 'cancelado', atualizadoEm: nowISO() });
+            logger.info(`Conta a pagar cancelada: ${recordId}`);
+            return { status: 200, jsonBody: { success: true, action, id: recordId } };
+        }
+
+        return { status: 400, jsonBody: { error: `Action inválida: ${action}. Use: create, update, delete, agendar, pagar, cancelar` } };
+    } catch (error: unknown) {
+        context.error('Erro ao modificar conta a pagar', error);
+        return { status: 500, jsonBody: { error: safeErrorMessage(error) } };
+    }
+}
+
+app.http('guardianContasPagarGet', {
+    methods: ['GET'],
+    route: 'guardianContasPagar',
+    authLevel: 'anonymous',
+    handler: guardianContasPagarGetHandler,
+});
+
+app.http('guardianContasPagarAging', {
+    methods: ['GET'],
+    route: 'guardianContasPagar/aging',
+    authLevel: 'anonymous',
+    handler: guardianContasPagarAgingHandler,
+});
+
+app.http('guardianContasPagarPost', {
+    methods: ['POST'],
+    route: 'guardianContasPagar',
+    authLevel: 'anonymous',
+    handler: guardianContasPagarPostHandler,
+});
@@ -0,0 +1,145 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { createLogger, nowISO, safeErrorMessage } from '../shared/utils';
+import { ContaReceber, ContaReceberStatus } from '../shared/types';
+import { getTitulos, getTitulo, upsertTitulo, deleteTitulo } from '../storage/financeTableClient';
+import { withEffectiveReceivableStatus, settleReceivable, isOpenReceivable, RECEIVABLE_STATUSES } from '../guardian/receivables';
+import { today } from '../guardian/payables';
+
+const logger = createLogger('GuardianContasReceber');
+
+// GET /api/guardianContasReceber?status=vencido&dealId=...&de=YYYY-MM-DD&ate=YYYY-MM-DD (filtro por vencimento)
+export async function guardianContasReceberGetHandler(
+    request: HttpRequest,
+    context: InvocationContext
+): Promise<HttpResponseInit> {
+    try {
+        const status = request.query.get('status') as ContaReceberStatus | null;
+        const dealId = request.query.get('dealId');
+        const de = request.query.get('de');
+        const ate = request.query.get('ate');
+        if (status && !RECEIVABLE_STATUSES.includes(status)) {
+            return { status: 400, jsonBody: { error: `Status inválido. Use: ${RECEIVABLE_STATUSES.join(', ')}` } };
+        }
+
+        const records = withEffectiveReceivableStatus(await getTitulos<ContaReceber>('receber'))
+            .filter(r => !status || r.status === status)
+            .filter(r => !dealId || r.dealId === dealId)
+            .filter(r => !de || r.dataVencimento >= de)
+            .filter(r => !ate || r.dataVencimento <= ate)
+            .sort((a, b) => a.dataVencimento.localeCompare(b.dataVencimento));
+
+        const totalAberto = records.filter(isOpenReceivable).reduce((s, r) => s + r.valor, 0);
+        return {
+            status: 200,
+            jsonBody: { success: true, count: records.length, totalAberto: Math.round(totalAberto * 100) / 100, records },
+        };
+    } catch (error: unknown) {
+        context.error('Erro ao listar contas a receber', error);
+        return { status: 500, jsonBody: { error: safeErrorMessage(error) } };
+    }
+}
+
+// POST /api/guardianContasReceber — action: create | update | delete | receber | cancelar
+export async function guardianContasReceberPostHandler(
+    request: HttpRequest,
+    context: InvocationContext
+): Promise<HttpResponseInit> {
+    try {
+        const body = await request.json() as Record<string, unknown>;
+        const action = (body.action as string) || 'create';
+
+        if (action === 'create' || action === 'update') {
+            const record = body.record as ContaReceber;
+            if (!record || !record.id || !record.cliente) {
+                return { status: 400, jsonBody: { error: 'Campos "record.id" e "record.cliente" são obrigatórios.' } };
+            }
+            if (typeof record.valor !== 'number' || !(record.valor > 0)) {
+                return { status: 400, jsonBody: { error: 'Campo "valor" deve ser um número positivo.' } };
+            }
+            if (!/^\d{4}-\d{2}-\d{2}$/.test(record.dataVencimento || '')) {
+                return { status: 400, jsonBody: { error: 'Campo "dataVencimento" deve estar no formato YYYY-MM-DD.' } };
+            }
+
+            const existing = await getTitulo<ContaReceber>('receber', record.id);
+            if (action === 'create' && existing) {
+                return { status: 409, jsonBody: { error: `Título "${record.id}" já existe.` } };
+            }
+            if (action === 'update' && !existing) {
+                return { status: 404, jsonBody: { error: `Título "${record.id}" não encontrado.` } };
+            }
+            if (existing && !isOpenReceivable(existing)) {
+                return { status: 409, jsonBody: { error: `Título "${record.id}" está ${existing.status} e não pode ser alterado.` } };
+            }
+
+            await upsertTitulo('receber', {
+                ...record,
+                clienteCnpj: record.clienteCnpj ? record.clienteCnpj.replace(/\D/g, '') : undefined,
+                categoria: record.categoria || 'Receita de Servicos',
+                dataCompetencia: record.dataCompetencia || record.dataVencimento,
+                status: existing?.status || 'aberto',
+                parcela: record.parcela || 1,
+                totalParcelas: record.totalParcelas || 1,
+                dealId: existing?.dealId ?? record.dealId,
+                criadoEm: existing?.criadoEm || nowISO(),
+                atualizadoEm: nowISO(),
+            });
+
+            logger.info(`Conta a receber ${action}: ${record.id}`);
+            return { status: 200, jsonBody: { success: true, action, id: record.id } };
+        }
+
+        const recordId = body.id as string;
+        if (!recordId) {
+            return { status: 400, jsonBody: { error: `Campo "id" é obrigatório para ${action}.` } };
+        }
+        const existing = await getTitulo<ContaReceber>('receber', recordId);
+        if (!existing) {
+            return { status: 404, jsonBody: { error: `Título "${recordId}" não encontrado.` } };
+        }
+
+        if (action === 'delete') {
+            await deleteTitulo('receber', recordId);
+            logger.info(`Conta a receber delete: ${recordId}`);
+            return { status: 200, jsonBody: { success: true, action, id: recordId } };
+        }
+
+        if (!isOpenReceivable(existing)) {
+            return { status: 409, jsonBody: { error: `Título "${recordId}" já está ${existing.status}.` } };
+        }
+
+        if (action === 'receber') {
+            // Baixa manual (ex: boleto liquidado, recebimento fora do extrato)
+            const received = await settleReceivable(existing, {
+                dataRecebimento: (body.dataRecebimento as string) || today(),
+                valorRecebido: typeof body.valorRecebido === 'number' ? body.valorRecebido : undefined,
+                contaId: body.contaId as string | undefined,
+            });
+            return { status: 200, jsonBody: { success: true, action, id: recordId, record: received } };
+        }
+
+        if (action === 'cancelar') {
+            await upsertTitulo('receber', { ...existing, status: 'cancelado', atualizadoEm: nowISO() });
+            logger.info(`Conta a receber cancelada: ${recordId}`);
+            return { status: 200, jsonBody: { success: true, action, id: recordId } };
+        }
+
+        return { status: 400, jsonBody: { error: `Action inválida: ${action}. Use: create, update, delete, receber, cancelar` } };
+    } catch (error: unknown) {
+        context.error('Erro ao modificar conta a receber', error);
+        return { status: 500, jsonBody: { error: safeErrorMessage(error) } };
+    }
+}
+
+app.http('guardianContasReceberGet', {
+    methods: ['GET'],
+    route: 'guardianContasReceber',
+    authLevel: 'anonymous',
+    handler: guardianContasReceberGetHandler,
+});
+
+app.http('guardianContasReceberPost', {
+    methods: ['POST'],
+    route: 'guardianContasReceber',
+    authLevel: 'anonymous',
+    handler: guardianContasReceberPostHandler,
+});
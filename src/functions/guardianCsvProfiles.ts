@@ -0,0 +1,88 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { createLogger, nowISO, safeErrorMessage } from '../shared/utils';
+import { CsvMappingProfile } from '../shared/types';
+import { validateCsvProfile } from '../guardian/csvStatementParser';
+import { getCsvProfiles, getCsvProfile, saveCsvProfile, deleteCsvProfile } from '../storage/areaTableClient';
+
+const logger = createLogger('GuardianCsvProfiles');
+
+// GET /api/guardianCsvProfiles
+export async function guardianCsvProfilesGetHandler(
+    request: HttpRequest,
+    context: InvocationContext
+): Promise<HttpResponseInit> {
+    try {
+        const profiles = await getCsvProfiles();
+        return { status: 200, jsonBody: { success: true, count: profiles.length, profiles } };
+    } catch (error: unknown) {
+        context.error('Erro ao listar perfis CSV', error);
+        return { status: 500, jsonBody: { error: safeErrorMessage(error) } };
+    }
+}
+
+// POST /api/guardianCsvProfiles
+export async function guardianCsvProfilesPostHandler(
+    request: HttpRequest,
+    context: InvocationContext
+): Promise<HttpResponseInit> {
+    try {
+        const body = await request.json() as Record<string, unknown>;
+        const action = (body.action as string) || 'create';
+
+        if (action === 'create' || action === 'update') {
+            const record = body.record as CsvMappingProfile;
+            const error = record ? validateCsvProfile(record) : 'Campo "record" é obrigatório.';
+            if (error) {
+                return { status: 400, jsonBody: { error } };
+            }
+
+            const existing = await getCsvProfile(record.id);
+            if (action === 'create' && existing) {
+                return { status: 409, jsonBody: { error: `Perfil "${record.id}" já existe.` } };
+            }
+            if (action === 'update' && !existing) {
+                return { status: 404, jsonBody: { error: `Perfil "${record.id}" não encontrado.` } };
+            }
+
+            await saveCsvProfile({
+                ...record,
+                linhasIgnorar: Number(record.linhasIgnorar) || 0,
+                possuiCabecalho: record.possuiCabecalho !== false,
+                criadoEm: existing?.criadoEm || nowISO(),
+                atualizadoEm: nowISO(),
+            });
+
+            logger.info(`Perfil CSV ${action}: ${record.id}`);
+            return { status: 200, jsonBody: { success: true, action, id: record.id } };
+        }
+
+        if (action === 'delete') {
+            const recordId = body.id as string;
+            if (!recordId) {
+                return { status: 400, jsonBody: { error: 'Campo "id" é obrigatório para delete.' } };
+            }
+            await deleteCsvProfile(recordId);
+            logger.info(`Perfil CSV delete: ${recordId}`);
+            return { status: 200, jsonBody: { success: true, action: 'delete', id: recordId } };
+        }
+
+        return { status: 400, jsonBody: { error: `Action inválida: ${action}. Use: create, update, delete` } };
+    } catch (error: unknown) {
+        context.error('Erro ao modificar perfil CSV', error);
+        return { status: 500, jsonBody: { error: safeErrorMessage(error) } };
+    }
+}
+
+app.http('guardianCsvProfilesGet', {
+    methods: ['GET'],
+    route: 'guardianCsvProfiles',
+    authLevel: 'anonymous',
+    handler: guardianCsvProfilesGetHandler,
+});
+
+app.http('guardianCsvProfilesPost', {
+    methods: ['POST'],
+    route: 'guardianCsvProfiles',
+    authLevel: 'anonymous',
+    handler: guardianCsvProfilesPostHandler,
+});
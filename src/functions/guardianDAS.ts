@@ -0,0 +1,116 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { safeErrorMessage } from '../shared/utils';
+import { ContaPagar } from '../shared/types';
+import { Categoria } from '../shared/areas';
+import { getApprovedAuthorizations } from '../storage/tableClient';
+import { getCadastroRecords } from '../storage/areaTableClient';
+import { getTitulos } from '../storage/financeTableClient';
+import { reportingItems } from '../guardian/splitTransactions';
+import { isPeriodo, previousPeriodo } from '../guardian/reportPeriod';
+import { monthsBetween } from '../guardian/budgetReport';
+import { SimplesAnexo, getTaxConfig, monthlyGrossRevenue } from '../guardian/taxRegime';
+import { DASEstimate, estimateDAS, syncDASPayables, dasPayableId } from '../guardian/dasEstimator';
+import { buildCatLookup } from './guardianReports';
+
+const MAX_MESES = 24;
+
+/** Parses de/ate (YYYY-MM) into the list of competências, or an error message */
+function parseRange(de: string, ate: string): string[] | string {
+    for (const [name, value] of [['de', de], ['ate', ate]] as const) {
+        if (!isPeriodo(value)) return `Parâmetro "${name}" deve estar no formato YYYY-MM.`;
+    }
+    if (de > ate) return 'Parâmetro "de" deve ser anterior ou igual a "ate".';
+    const periodos = monthsBetween(de, ate);
+    if (periodos.length > MAX_MESES) return `Intervalo máximo de ${MAX_MESES} meses.`;
+    return periodos;
+}
+
+async function loadEstimates(periodos: string[], anexo: SimplesAnexo): Promise<DASEstimate[]> {
+    const [approvedItems, categorias] = await Promise.all([
+        getApprovedAuthorizations(),
+        getCadastroRecords<Categoria>('categorias'),
+    ]);
+    // RBT12 sempre sobre o histórico completo de receita aprovada, não só o intervalo pedido
+    const receitaMensal = monthlyGrossRevenue(reportingItems(approvedItems), buildCatLookup(categorias));
+    return periodos.map(p => estimateDAS(receitaMensal, p, anexo));
+}
+
+// GET /api/guardianDAS?de=YYYY-MM&ate=YYYY-MM — memória de cálculo do DAS por competência (padrão: mês anterior)
+export async function guardianDASHandler(
+    request: HttpRequest,
+    context: InvocationContext
+): Promise<HttpResponseInit> {
+    try {
+        const de = request.query.get('de') || previousPeriodo();
+        const ate = request.query.get('ate') || de;
+        const periodos = parseRange(de, ate);
+        if (typeof periodos === 'string') {
+            return { status: 400, jsonBody: { error: periodos } };
+        }
+
+        const config = await getTaxConfig();
+        if (config.regime !== 'simples') {
+            return { status: 409, jsonBody: { error: `Regime tributário configurado é "${config.regime}" — DAS só se aplica ao Simples Nacional.` } };
+        }
+
+        const [estimativas, titulos] = await Promise.all([
+            loadEstimates(periodos, config.anexo),
+            getTitulos<ContaPagar>('pagar'),
+        ]);
+        const porId = new Map(titulos.map(t => [t.id, t]));
+        const meses = estimativas.map(e => {
+            const titulo = porId.get(dasPayableId(e.periodo));
+            return { ...e, titulo: titulo ? { id: titulo.id, status: titulo.status, valor: titulo.valor } : null };
+        });
+        const totalDAS = Math.round(estimativas.reduce((s, e) => s + e.valorDAS, 0) * 100) / 100;
+
+        return { status: 200, jsonBody: { success: true, de, ate, anexo: config.anexo, totalDAS, meses } };
+    } catch (error: unknown) {
+        context.error('Erro ao estimar DAS', error);
+        return { status: 500, jsonBody: { error: safeErrorMessage(error) } };
+    }
+}
+
+// POST /api/guardianDAS — { de?, ate? } gera/atualiza os títulos a pagar previstos do DAS
+export async function guardianDASPostHandler(
+    request: HttpRequest,
+    context: InvocationContext
+): Promise<HttpResponseInit> {
+    try {
+        let body: { de?: string; ate?: string };
+        try { body = (await request.json() as { de?: string; ate?: string }) || {}; }
+        catch { body = {}; }
+        const de = body.de || previousPeriodo();
+        const ate = body.ate || de;
+        const periodos = parseRange(de, ate);
+        if (typeof periodos === 'string') {
+            return { status: 400, jsonBody: { error: periodos } };
+        }
+
+        const config = await getTaxConfig();
+        if (config.regime !== 'simples') {
+            return { status: 409, jsonBody: { error: `Regime tributário configurado é "${config.regime}" — DAS só se aplica ao Simples Nacional.` } };
+        }
+
+        const estimativas = await loadEstimates(periodos, config.anexo);
+        const result = await syncDASPayables(estimativas);
+        return { status: 200, jsonBody: { success: true, de, ate, ...result, estimativas } };
+    } catch (error: unknown) {
+        context.error('Erro ao gerar títulos do DAS', error);
+        return { status: 500, jsonBody: { error: safeErrorMessage(error) } };
+    }
+}
+
+app.http('guardianDAS', {
+    methods: ['GET'],
+    route: 'guardianDAS',
+    authLevel: 'anonymous',
+    handler: guardianDASHandler,
+});
+
+app.http('guardianDASPost', {
+    methods: ['POST'],
+    route: 'guardianDAS',
+    authLevel: 'anonymous',
+    handler: guardianDASPostHandler,
+});
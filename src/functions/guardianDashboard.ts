@@ -3,8 +3,17 @@ import { getGuardianAuthorizations, getApprovedAuthorizations } from '../storage
 import { getConfig, getCadastroRecords } from '../storage/areaTableClient';
 import { seedCategoriasIfEmpty } from './guardianCadastros';
 import { createLogger, nowISO, safeErrorMessage } from '../shared/utils';
-import { InterConnector } from '../guardian/interConnector';
-import { GuardianAuthorization } from '../shared/types';
+import { getTotalBankBalance } from '../guardian/bankConnector';
+import { reportingItems } from '../guardian/splitTransactions';
+import { getAccountBalances, totalCash } from '../guardian/accountBalances';
+import { parseReportPeriod, statementItems, paidAfter, balanceMovements } from '../guardian/reportPeriod';
+import { TaxContext, getTaxConfig, monthlyGrossRevenue, revenueDeductions, incomeTaxes, periodMonths, taxSummary } from '../guardian/taxRegime';
+import { GuardianAuthorization, ContaPagar, ContaReceber } from '../shared/types';
+import { getTitulos } from '../storage/financeTableClient';
+import { withEffectiveStatus, isOpen, daysBetween, today } from '../guardian/payables';
+import { withEffectiveReceivableStatus } from '../guardian/receivables';
+import { taxDueByMonth } from '../guardian/taxCalendar';
+import { dreCostItems } from '../guardian/dasEstimator';
 import { Categoria } from '../shared/areas';
 
 const logger = createLogger('GuardianDashboard');
@@ -26,7 +35,7 @@ async function getCategoriasCached(): Promise<Categoria[]> {
     return cachedCategorias;
 }
 
-// Cache balance to avoid hitting Inter API on every dashboard load
+// Cache balance to avoid hitting bank APIs on every dashboard load
 let cachedBalance: number | null = null;
 let cachedBalanceAt = 0;
 const BALANCE_TTL_MS = 2 * 60 * 1000; // 2 minutes
@@ -49,6 +58,13 @@ function sumByTipo(items: GuardianAuthorization[], catMap: Map<string, { tipo: s
     }).reduce((s, i) => s + i.valor, 0);
 }
 
+/** Variação de caixa dos lançamentos categorizados (entradas − saídas) */
+function cashVariation(items: GuardianAuthorization[], catMap: Map<string, { tipo: string; grupo: string }>): number {
+    const entradas = sumByTipo(items, catMap, 'RECEITA_DIRETA') + sumByTipo(items, catMap, 'RECEITA_FINANCEIRA');
+    const saidas = sumByTipo(items, catMap, 'CUSTO_VARIAVEL') + sumByTipo(items, catMap, 'CUSTO_FIXO') + sumByTipo(items, catMap, 'DESPESA_FINANCEIRA');
+    return entradas - saidas;
+}
+
 function groupByGrupo(items: GuardianAuthorization[], catMap: Map<string, { tipo: string; grupo: string }>, tipo: string): Record<string, number> {
     const groups: Record<string, number> = {};
     for (const i of items) {
@@ -64,7 +80,7 @@ function groupByGrupo(items: GuardianAuthorization[], catMap: Map<string, { tipo
  * DRE — Margem de Contribuicao
  *
  * (+) Receita Bruta ................... RECEITA_DIRETA
- * (-) Deducoes s/ Receita ............. (impostos ~9.25%)
+ * (-) Deducoes s/ Receita ............. (regime tributario: DAS ou PIS/COFINS)
  * (=) Receita Liquida
  * (-) Custos e Despesas Variaveis ..... CUSTO_VARIAVEL (por grupo)
  * (=) MARGEM DE CONTRIBUICAO
@@ -74,21 +90,24 @@ function groupByGrupo(items: GuardianAuthorization[], catMap: Map<string, { tipo
  * (+) Receitas Financeiras ............ RECEITA_FINANCEIRA
  * (-) Despesas Financeiras ............ DESPESA_FINANCEIRA (por grupo)
  * (=) Resultado Antes IR
- * (-) IR/CSLL (~34%)
+ * (-) IRPJ + adicional + CSLL ......... (zero no Simples — ja dentro do DAS)
  * (=) RESULTADO LIQUIDO
  *
  * PE = Custos Fixos / Indice MC
  */
-function buildDRE(items: GuardianAuthorization[], catMap: Map<string, { tipo: string; grupo: string }>) {
+function buildDRE(items: GuardianAuthorization[], catMap: Map<string, { tipo: string; grupo: string }>, tax: TaxContext) {
     // (+) Receita Bruta
     const receitaBruta = sumByTipo(items, catMap, 'RECEITA_DIRETA');
 
-    // (-) Deducoes (PIS 1.65% + COFINS 7.6% = 9.25%)
-    const deducoes = receitaBruta * 0.0925;
+    // (-) Deducoes conforme o regime (Simples: DAS pela faixa do RBT12 de cada mes)
+    const impostos = revenueDeductions(tax.config, monthlyGrossRevenue(items, catMap), tax.receitaMensal);
+    const deducoes = impostos.total;
     const receitaLiquida = receitaBruta - deducoes;
+    // Simples: pagamentos do DAS ja estao nas deducoes
+    const custos = dreCostItems(items, tax.config);
 
     // (-) Custos e Despesas Variaveis
-    const varGrupos = groupByGrupo(items, catMap, 'CUSTO_VARIAVEL');
+    const varGrupos = groupByGrupo(custos, catMap, 'CUSTO_VARIAVEL');
     const varTotal = Object.values(varGrupos).reduce((s, v) => s + v, 0);
 
     // (=) Margem de Contribuicao
@@ -97,7 +116,7 @@ function buildDRE(items: GuardianAuthorization[], catMap: Map<string, { tipo: st
     const margemContribuicaoPct = indiceMC * 100;
 
     // (-) Custos e Despesas Fixos
-    const fixoGrupos = groupByGrupo(items, catMap, 'CUSTO_FIXO');
+    const fixoGrupos = groupByGrupo(custos, catMap, 'CUSTO_FIXO');
     const fixoTotal = Object.values(fixoGrupos).reduce((s, v) => s + v, 0);
 
     // (=) Resultado Operacional
@@ -106,15 +125,16 @@ function buildDRE(items: GuardianAuthorization[], catMap: Map<string, { tipo: st
 
     // (+/-) Resultado Financeiro
     const receitasFinanceiras = sumByTipo(items, catMap, 'RECEITA_FINANCEIRA');
-    const despFinGrupos = groupByGrupo(items, catMap, 'DESPESA_FINANCEIRA');
+    const despFinGrupos = groupByGrupo(custos, catMap, 'DESPESA_FINANCEIRA');
     const despesasFinanceiras = Object.values(despFinGrupos).reduce((s, v) => s + v, 0);
     const resultadoFinanceiro = receitasFinanceiras - despesasFinanceiras;
 
     // (=) Resultado Antes IR
     const resultadoAntesIR = resultadoOperacional + resultadoFinanceiro;
 
-    // (-) IR/CSLL
-    const irCSLL = Math.max(resultadoAntesIR * 0.34, 0);
+    // (-) IRPJ (+ adicional) e CSLL
+    const ir = incomeTaxes(tax.config, { receitaBruta, receitasFinanceiras, resultadoAntesIR, meses: periodMonths(items, tax.periodo) });
+    const irCSLL = ir.total;
 
     // (=) Resultado Liquido
     const resultadoLiquido = resultadoAntesIR - irCSLL;
@@ -154,6 +174,9 @@ function buildDRE(items: GuardianAuthorization[], catMap: Map<string, { tipo: st
         // Ponto de Equilibrio
         pontoEquilibrio,
 
+        // Regime e aliquotas aplicados
+        tributacao: taxSummary(tax.config, impostos, ir),
+
         // Compat com home indicators
         lucroLiquido: resultadoLiquido,
         margemBruta: margemContribuicaoPct.toFixed(1) + '%',
@@ -200,11 +223,11 @@ function buildDFC(
     };
 }
 
-function buildForecast(items: GuardianAuthorization[], caixaAtual: number, catMap: Map<string, { tipo: string; grupo: string }>) {
+function buildForecast(items: GuardianAuthorization[], caixaAtual: number, catMap: Map<string, { tipo: string; grupo: string }>, impostos: Map<string, number>) {
     const receita = sumByTipo(items, catMap, 'RECEITA_DIRETA');
     const despesas = sumByTipo(items, catMap, 'CUSTO_VARIAVEL') + sumByTipo(items, catMap, 'CUSTO_FIXO');
     const growthRate = 0.03;
-    const months: Array<{ month: string; receita: number; despesas: number; lucroLiquido: number; caixaAcumulado: number }> = [];
+    const months: Array<{ month: string; receita: number; despesas: number; impostos: number; lucroLiquido: number; caixaAcumulado: number }> = [];
     const now = new Date();
     let caixa = caixaAtual;
 
@@ -215,11 +238,14 @@ function buildForecast(items: GuardianAuthorization[], caixaAtual: number, catMa
         const mReceita = receita * factor;
         const mDespesas = despesas * (1 + (growthRate * 0.5 * i));
         const mLucro = mReceita - mDespesas;
-        caixa += mLucro;
+        // Impostos previstos (DAS e calendário fiscal) saem do caixa no mês do vencimento
+        const mImpostos = impostos.get(`${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`) || 0;
+        caixa += mLucro - mImpostos;
         months.push({
             month: label,
             receita: Math.round(mReceita * 100) / 100,
             despesas: Math.round(mDespesas * 100) / 100,
+            impostos: Math.round(mImpostos * 100) / 100,
             lucroLiquido: Math.round(mLucro * 100) / 100,
             caixaAcumulado: Math.round(caixa * 100) / 100,
         });
@@ -242,7 +268,8 @@ function buildInsights(
     items: GuardianAuthorization[],
     kpis: { revenue: number; opExpenses: number; ebitda: number },
     caixaAtual: number,
-    catMap: Map<string, { tipo: string; grupo: string }>
+    catMap: Map<string, { tipo: string; grupo: string }>,
+    aliquotaDeducoes: number
 ) {
     const insights: Array<{ type: 'warning' | 'success' | 'info' | 'danger'; title: string; text: string }> = [];
     const receita = kpis.revenue;
@@ -286,7 +313,7 @@ function buildInsights(
     // Custos Variaveis altos — MC comprimida
     const custosVar = sumByTipo(items, catMap, 'CUSTO_VARIAVEL');
     if (custosVar > 0 && receita > 0) {
-        const rl = receita * 0.9075; // receita liquida
+        const rl = receita * (1 - aliquotaDeducoes); // receita liquida
         const mc = rl - custosVar;
         const indiceMC = mc / rl;
         if (indiceMC < 0.3) {
@@ -343,6 +370,40 @@ function buildMonthlyHistory(items: GuardianAuthorization[], catMap: Map<string,
         .sort((a, b) => a.month.localeCompare(b.month));
 }
 
+/** Contas a receber vencidas (mais antigas primeiro) e o que vence nos próximos dias, dos dois lados */
+function buildTitulos(contasPagar: ContaPagar[], contasReceber: ContaReceber[]) {
+    const hoje = today();
+    const round2 = (v: number) => Math.round(v * 100) / 100;
+
+    const receber = withEffectiveReceivableStatus(contasReceber, hoje);
+    const vencidos = receber
+        .filter(r => r.status === 'vencido')
+        .sort((a, b) => a.dataVencimento.localeCompare(b.dataVencimento))
+        .map(r => ({
+            id: r.id, cliente: r.cliente, descricao: r.descricao || '', valor: r.valor,
+            dataVencimento: r.dataVencimento, diasAtraso: daysBetween(r.dataVencimento, hoje), dealId: r.dealId,
+        }));
+    const aReceber30 = receber.filter(r => r.status === 'aberto' && daysBetween(hoje, r.dataVencimento) <= 30);
+
+    const pagar = withEffectiveStatus(contasPagar, hoje).filter(isOpen);
+    const pagarVencidos = pagar.filter(p => p.status === 'vencido');
+    const pagar7 = pagar.filter(p => p.status !== 'vencido' && daysBetween(hoje, p.dataVencimento) <= 7);
+
+    return {
+        receber: {
+            vencidos,
+            quantidadeVencidos: vencidos.length,
+            totalVencido: round2(vencidos.reduce((s, r) => s + r.valor, 0)),
+            proximos30Dias: round2(aReceber30.reduce((s, r) => s + r.valor, 0)),
+        },
+        pagar: {
+            quantidadeVencidos: pagarVencidos.length,
+            totalVencido: round2(pagarVencidos.reduce((s, p) => s + p.valor, 0)),
+            proximos7Dias: round2(pagar7.reduce((s, p) => s + p.valor, 0)),
+        },
+    };
+}
+
 // ---- Main BFF Handler ----
 
 export async function guardianDashboardHandler(
@@ -352,22 +413,30 @@ export async function guardianDashboardHandler(
     context.log('BFF: Carregando dashboard completo...');
 
     try {
+        const period = parseReportPeriod(request.query);
+        if (typeof period === 'string') {
+            return { status: 400, jsonBody: { error: period } };
+        }
+
         // Fetch data in parallel — categorias are cached in memory
-        const [approvedItems, pendingItems, ccSaldoInicialStr, ccDataRef, categorias] = await Promise.all([
+        const [approvedItems, pendingItems, ccSaldoInicialStr, ccDataRef, categorias, contasPagar, contasReceber, taxConfig] = await Promise.all([
             getApprovedAuthorizations(),
             getGuardianAuthorizations(),
             getConfig('CC_SALDO_INICIAL'),
             getConfig('CC_DATA_REFERENCIA'),
             getCategoriasCached(),
+            getTitulos<ContaPagar>('pagar'),
+            getTitulos<ContaReceber>('receber'),
+            getTaxConfig(),
         ]);
 
-        const inter = new InterConnector();
-
         // Build category lookup for DRE classification
         const catMap = buildCatLookup(categorias);
 
-        // Only APPROVED items feed into DRE/DFC calculations
-        const items = approvedItems;
+        // Only APPROVED items feed into DRE/DFC calculations (split transactions enter as their parts)
+        const items = reportingItems(approvedItems);
+        // Período/regime para DRE e DFC (?de&ate&regime): DRE por competência e DFC por caixa, salvo regime escolhido
+        const { dre: dreItems, dfc: dfcItems, regimeDRE, regimeDFC } = statementItems(items, period);
 
         // Categorize items using the catMap
         const isReceita = (i: GuardianAuthorization) => {
@@ -379,10 +448,10 @@ export async function guardianDashboardHandler(
             return cat?.tipo === 'CUSTO_VARIAVEL' || cat?.tipo === 'CUSTO_FIXO' || cat?.tipo === 'DESPESA_FINANCEIRA';
         };
 
-        // KPIs (using catMap for proper classification) — only from approved
-        const receitaDireta = sumByTipo(items, catMap, 'RECEITA_DIRETA');
-        const custoVariavel = sumByTipo(items, catMap, 'CUSTO_VARIAVEL');
-        const custoFixo = sumByTipo(items, catMap, 'CUSTO_FIXO');
+        // KPIs (using catMap for proper classification) — only from approved, same base as the DRE
+        const receitaDireta = sumByTipo(dreItems, catMap, 'RECEITA_DIRETA');
+        const custoVariavel = sumByTipo(dreItems, catMap, 'CUSTO_VARIAVEL');
+        const custoFixo = sumByTipo(dreItems, catMap, 'CUSTO_FIXO');
         const kpis = {
             revenue: receitaDireta,
             opExpenses: custoVariavel + custoFixo,
@@ -390,33 +459,51 @@ export async function guardianDashboardHandler(
             status: (receitaDireta - custoVariavel - custoFixo) >= 0 ? 'saudavel' : 'atencao',
         };
 
-        // Balance — cached for 2 min to avoid slow Inter API calls
+        // Balance: soma dos saldos correntes das contas cadastradas; sem cadastro, saldo do banco
+        // (cached for 2 min to avoid slow bank API calls)
         let caixaAtual: number;
+        let saldoBancario = true;
+        const saldosContas = await getAccountBalances();
         const now2 = Date.now();
-        if (cachedBalance !== null && (now2 - cachedBalanceAt) < BALANCE_TTL_MS) {
+        if (saldosContas.some(c => c.tipo !== 'cartao')) {
+            caixaAtual = totalCash(saldosContas);
+        } else if (cachedBalance !== null && (now2 - cachedBalanceAt) < BALANCE_TTL_MS) {
             caixaAtual = cachedBalance;
         } else {
             try {
-                const balance = await inter.getBalance();
-                caixaAtual = balance.total;
+                caixaAtual = await getTotalBankBalance();
                 cachedBalance = caixaAtual;
                 cachedBalanceAt = Date.now();
             } catch {
-                logger.warn('Inter API indisponivel — usando fallback');
+                logger.warn('Saldo bancario indisponivel — usando fallback');
                 const totalReceitas = items.filter(i => isReceita(i)).reduce((s, i) => s + i.valor, 0);
                 const totalDespesas = items.filter(i => isDespesa(i)).reduce((s, i) => s + i.valor, 0);
                 caixaAtual = cachedBalance ?? (totalReceitas - totalDespesas);
+                saldoBancario = cachedBalance !== null;
             }
         }
 
         const ccSaldoInicial = ccSaldoInicialStr ? parseFloat(ccSaldoInicialStr) : null;
 
         // Build financial statements using category map — ONLY approved items
-        const dre = buildDRE(items, catMap);
-        const dfc = buildDFC(items, caixaAtual, ccSaldoInicial, items, catMap);
-        const forecast = buildForecast(items, caixaAtual, catMap);
+        // Com período fechado, o caixa final do DFC é o de `ate` (desconta o que entrou/saiu depois)
+        // Saldo do banco já inclui transações pendentes de aprovação: o recuo até `ate` desconta as mesmas
+        const movimentosCaixa = saldoBancario ? balanceMovements(items, pendingItems) : items;
+        const caixaFinalPeriodo = caixaAtual - cashVariation(paidAfter(movimentosCaixa, period.ate), catMap);
+        // Regime tributario: RBT12 do Simples vem do historico completo, nao so do periodo
+        const dre = buildDRE(dreItems, catMap, { config: taxConfig, receitaMensal: monthlyGrossRevenue(items, catMap), periodo: period });
+        const dfc = buildDFC(dfcItems, caixaFinalPeriodo, period.de ? null : ccSaldoInicial, dfcItems, catMap);
+        const forecast = buildForecast(items, caixaAtual, catMap, taxDueByMonth(contasPagar, today()));
         const categorized = buildCategorized(items);
-        const insights = buildInsights(items, kpis, caixaAtual, catMap);
+        const insights = buildInsights(items, kpis, caixaAtual, catMap, dre.tributacao.deducoes.aliquotaEfetiva);
+        const titulos = buildTitulos(contasPagar, contasReceber);
+        if (titulos.receber.quantidadeVencidos > 0) {
+            insights.unshift({
+                type: 'danger',
+                title: 'Recebimentos em Atraso',
+                text: `${titulos.receber.quantidadeVencidos} título(s) vencido(s) somando ${formatBRL(titulos.receber.totalVencido)}. Maior atraso: ${titulos.receber.vencidos[0].cliente} (${titulos.receber.vencidos[0].diasAtraso} dias).`,
+            });
+        }
         const monthlyHistory = buildMonthlyHistory(items, catMap);
 
         // Weekly breakdown (from approved only)
@@ -488,6 +575,7 @@ export async function guardianDashboardHandler(
             jsonBody: {
                 success: true,
                 timestamp: nowISO(),
+                periodo: { de: period.de, ate: period.ate, regimeDRE, regimeDFC },
 
                 // ---- HOME PAGE ----
                 home: {
@@ -521,6 +609,7 @@ export async function guardianDashboardHandler(
                     fcProjetado: Math.round(fcProjetado * 100) / 100,
                     forecast,
                     diasRestantesMes: diasRestantes,
+                    titulos,
                 },
 
                 // ---- SEMANAL PAGE ----
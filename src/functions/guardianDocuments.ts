@@ -0,0 +1,39 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { safeErrorMessage } from '../shared/utils';
+import { openDocumentStream } from '../storage/documentStore';
+
+// GET /api/guardianDocuments/{id} — devolve o arquivo original (PDF, XML, OFX...)
+export async function guardianDocumentsHandler(
+    request: HttpRequest,
+    context: InvocationContext
+): Promise<HttpResponseInit> {
+    try {
+        const id = request.params.id;
+        const opened = id ? await openDocumentStream(id) : null;
+        if (!opened) {
+            return { status: 404, jsonBody: { error: `Documento "${id}" não encontrado.` } };
+        }
+
+        const { meta, stream } = opened;
+        return {
+            status: 200,
+            headers: {
+                'Content-Type': meta.mimeType,
+                'Content-Length': String(meta.size),
+                'Content-Disposition': `inline; filename*=UTF-8''${encodeURIComponent(meta.filename)}`,
+                'X-Content-SHA256': meta.sha256,
+            },
+            body: stream,
+        };
+    } catch (error: unknown) {
+        context.error('Erro ao ler documento', error);
+        return { status: 500, jsonBody: { error: safeErrorMessage(error) } };
+    }
+}
+
+app.http('guardianDocuments', {
+    methods: ['GET'],
+    route: 'guardianDocuments/{id}',
+    authLevel: 'anonymous',
+    handler: guardianDocumentsHandler,
+});
@@ -0,0 +1,180 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { clientPrincipal, safeErrorMessage } from '../shared/utils';
+import { GuardianAuthorization } from '../shared/types';
+import { Categoria } from '../shared/areas';
+import { getAllAuthorizations, getFechamentos, getFechamentoEventos } from '../storage/tableClient';
+import { getCadastroRecords } from '../storage/areaTableClient';
+import { getAccountBalances, totalCash } from '../guardian/accountBalances';
+import { reportingItems } from '../guardian/splitTransactions';
+import { statementItems, caixaDate, isPeriodo, monthRange } from '../guardian/reportPeriod';
+import {
+    FECHAMENTO_ROLE, runPreCloseChecks, blockingChecks, closePeriod, reopenPeriod,
+} from '../guardian/monthlyClose';
+import { getTaxConfig, monthlyGrossRevenue } from '../guardian/taxRegime';
+import { buildCatLookup, buildDRE, buildDFC, cashVariation } from './guardianReports';
+
+interface FechamentoBody {
+    action: 'fechar' | 'reabrir';
+    /** YYYY-MM */
+    periodo: string;
+    /** reabrir: obrigatório, fica no log */
+    motivo?: string;
+}
+
+// GET /api/guardianFechamento — meses fechados/reabertos com o snapshot congelado
+export async function guardianFechamentoGetHandler(
+    _request: HttpRequest,
+    context: InvocationContext
+): Promise<HttpResponseInit> {
+    try {
+        const fechamentos = (await getFechamentos()).map(({ snapshotJson, checksJson, ...f }) => f);
+        return { status: 200, jsonBody: { success: true, count: fechamentos.length, fechamentos } };
+    } catch (error: unknown) {
+        context.error('Erro ao listar fechamentos', error);
+        return { status: 500, jsonBody: { error: safeErrorMessage(error) } };
+    }
+}
+
+// GET /api/guardianFechamento/checks?periodo=YYYY-MM — verificações de pré-fechamento
+export async function guardianFechamentoChecksHandler(
+    request: HttpRequest,
+    context: InvocationContext
+): Promise<HttpResponseInit> {
+    try {
+        const periodo = request.query.get('periodo');
+        if (!isPeriodo(periodo)) {
+            return { status: 400, jsonBody: { error: 'Parâmetro "periodo" deve estar no formato YYYY-MM.' } };
+        }
+        const checks = await preCloseChecks(periodo, await getAllAuthorizations());
+        return { status: 200, jsonBody: { success: true, periodo, podeFechar: blockingChecks(checks).length === 0, checks } };
+    } catch (error: unknown) {
+        context.error('Erro ao verificar pré-fechamento', error);
+        return { status: 500, jsonBody: { error: safeErrorMessage(error) } };
+    }
+}
+
+// GET /api/guardianFechamento/log?periodo=YYYY-MM — fechamentos e reaberturas (mais recentes primeiro)
+export async function guardianFechamentoLogHandler(
+    request: HttpRequest,
+    context: InvocationContext
+): Promise<HttpResponseInit> {
+    try {
+        const eventos = await getFechamentoEventos(request.query.get('periodo') || undefined);
+        return { status: 200, jsonBody: { success: true, count: eventos.length, eventos } };
+    } catch (error: unknown) {
+        context.error('Erro ao listar log de fechamento', error);
+        return { status: 500, jsonBody: { error: safeErrorMessage(error) } };
+    }
+}
+
+// POST /api/guardianFechamento — action: fechar | reabrir
+export async function guardianFechamentoPostHandler(
+    request: HttpRequest,
+    context: InvocationContext
+): Promise<HttpResponseInit> {
+    try {
+        let body: FechamentoBody;
+        try { body = await request.json() as FechamentoBody; }
+        catch { return { status: 400, jsonBody: { error: 'Request body inválido (JSON esperado).' } }; }
+        if (!body || !isPeriodo(body.periodo)) {
+            return { status: 400, jsonBody: { error: 'Campo "periodo" deve estar no formato YYYY-MM.' } };
+        }
+
+        const principal = clientPrincipal(request.headers.get('x-ms-client-principal'));
+        const atual = (await getFechamentos()).find(f => f.id === body.periodo);
+
+        if (body.action === 'fechar') {
+            if (atual?.status === 'fechado') {
+                return { status: 409, jsonBody: { error: `Período ${body.periodo} já está fechado.` } };
+            }
+            const all = await getAllAuthorizations();
+            const checks = await preCloseChecks(body.periodo, all);
+            const bloqueios = blockingChecks(checks);
+            if (bloqueios.length > 0) {
+                return {
+                    status: 409,
+                    jsonBody: { error: `Fechamento bloqueado: ${bloqueios.map(c => `${c.descricao} (${c.quantidade})`).join('; ')}`, checks },
+                };
+            }
+            const snapshot = await buildSnapshot(body.periodo, all);
+            const fechamento = await closePeriod(body.periodo, snapshot, checks, principal.nome);
+            return { status: 200, jsonBody: { success: true, action: body.action, fechamento } };
+        }
+
+        if (body.action === 'reabrir') {
+            if (atual?.status !== 'fechado') {
+                return { status: 409, jsonBody: { error: `Período ${body.periodo} não está fechado.` } };
+            }
+            if (!principal.roles.includes(FECHAMENTO_ROLE)) {
+                return { status: 403, jsonBody: { error: `Reabertura exige o papel "${FECHAMENTO_ROLE}".` } };
+            }
+            if (!body.motivo || !body.motivo.trim()) {
+                return { status: 400, jsonBody: { error: 'Campo "motivo" é obrigatório para reabrir.' } };
+            }
+            const fechamento = await reopenPeriod(atual, principal.nome, body.motivo.trim());
+            return { status: 200, jsonBody: { success: true, action: body.action, fechamento } };
+        }
+
+        return { status: 400, jsonBody: { error: 'Action inválida. Use: fechar, reabrir' } };
+    } catch (error: unknown) {
+        context.error('Erro ao registrar fechamento', error);
+        return { status: 500, jsonBody: { error: safeErrorMessage(error) } };
+    }
+}
+
+async function preCloseChecks(periodo: string, all: GuardianAuthorization[]) {
+    const categorias = await getCadastroRecords<Categoria>('categorias');
+    return runPreCloseChecks(periodo, all, new Set(categorias.map(c => c.nome)));
+}
+
+/** DRE (competência) and DFC (caixa) of the month plus account balances at its last day */
+async function buildSnapshot(periodo: string, all: GuardianAuthorization[]): Promise<Record<string, unknown>> {
+    const { inicio, fim } = monthRange(periodo);
+    const catMap = buildCatLookup(await getCadastroRecords<Categoria>('categorias'));
+    const items = reportingItems(all.filter(a => a.status === 'aprovado'));
+    const { dre, dfc } = statementItems(items, { de: inicio, ate: fim, regime: null });
+
+    // Sem contas cadastradas, o caixa no fim do mês é o acumulado dos lançamentos pagos até lá
+    const saldos = await getAccountBalances(fim);
+    const caixaFinal = saldos.some(c => c.tipo !== 'cartao')
+        ? totalCash(saldos)
+        : cashVariation(items.filter(i => caixaDate(i) <= fim), catMap);
+
+    return {
+        periodo,
+        de: inicio,
+        ate: fim,
+        dre: buildDRE(dre, catMap, { config: await getTaxConfig(), receitaMensal: monthlyGrossRevenue(items, catMap), periodo: { de: inicio, ate: fim } }),
+        dfc: buildDFC(dfc, caixaFinal, null, catMap),
+        saldos,
+        lancamentos: { dre: dre.length, dfc: dfc.length },
+    };
+}
+
+app.http('guardianFechamentoGet', {
+    methods: ['GET'],
+    route: 'guardianFechamento',
+    authLevel: 'anonymous',
+    handler: guardianFechamentoGetHandler,
+});
+
+app.http('guardianFechamentoChecks', {
+    methods: ['GET'],
+    route: 'guardianFechamento/checks',
+    authLevel: 'anonymous',
+    handler: guardianFechamentoChecksHandler,
+});
+
+app.http('guardianFechamentoLog', {
+    methods: ['GET'],
+    route: 'guardianFechamento/log',
+    authLevel: 'anonymous',
+    handler: guardianFechamentoLogHandler,
+});
+
+app.http('guardianFechamentoPost', {
+    methods: ['POST'],
+    route: 'guardianFechamento',
+    authLevel: 'anonymous',
+    handler: guardianFechamentoPostHandler,
+});
@@ -1,11 +1,13 @@
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
-import { GuardianAgents, ImportedDocument } from '../guardian/guardianAgents';
+import { GuardianAgents, ImportedDocument, AnalysisResult } from '../guardian/guardianAgents';
+import { importStatement, isStatementType, isImportError } from '../guardian/statementImport';
 import { createGuardianAuth } from '../storage/tableClient';
-import { createLogger, nowISO, generateId, safeErrorMessage, isValidUrl } from '../shared/utils';
+import { saveDocument, isAllowedImportUrl } from '../storage/documentStore';
+import { findConta } from '../guardian/accountBalances';
+import { CardInvoice } from '../guardian/cardInvoice';
+import { nowISO, generateId, safeErrorMessage, isValidUrl, downloadContent } from '../shared/utils';
 import { toGuardianAuth, ImportRequestBody, VALID_DOC_TYPES, DocType } from '../shared/types';
 
-const logger = createLogger('GuardianImport');
-
 export async function guardianImportHandler(
     request: HttpRequest,
     context: InvocationContext
@@ -22,31 +24,66 @@ export async function guardianImportHandler(
         if (!isValidUrl(body.url)) {
             return { status: 400, jsonBody: { error: 'URL inválida. Use http:// ou https://.' } };
         }
+        // O servidor baixa a URL: só do storage configurado, nunca de hosts internos
+        if (!isAllowedImportUrl(body.url)) {
+            return { status: 400, jsonBody: { error: 'URL fora dos hosts permitidos para importação (storage de documentos ou GUARDIAN_IMPORT_ALLOWED_HOSTS).' } };
+        }
         const docType: DocType = VALID_DOC_TYPES.includes(body.type as DocType) ? body.type as DocType : 'pdf';
 
+        const conta = body.contaId ? await findConta(body.contaId) : null;
+        if (body.contaId && !conta) {
+            return { status: 404, jsonBody: { error: `Conta "${body.contaId}" não encontrada.` } };
+        }
+        // Conta cartão: o arquivo é uma fatura — compras itemizadas, pagamento da fatura descartado
+        const isCard = conta?.tipo === 'cartao';
+        if (docType === 'txt' && !isCard) {
+            return { status: 400, jsonBody: { error: 'Texto de fatura só é aceito com "contaId" de uma conta cartão.' } };
+        }
+
+        // Guarda uma cópia: a URL de origem pode expirar (ex: SAS token)
+        const bytes = await downloadContent(body.url);
+        const stored = await saveDocument(bytes, body.name || fileNameFromUrl(body.url, docType));
+
         const agents = new GuardianAgents();
+        let results: AnalysisResult[];
+        let fatura: CardInvoice | undefined;
 
-        const doc: ImportedDocument = {
-            id: generateId('IMP'),
-            name: body.name || 'documento_importado',
-            type: docType,
-            source: 'manual_import',
-            contentUrl: body.url,
-            size: body.size || 0,
-            uploadedAt: nowISO(),
-        };
+        if (isStatementType(docType)) {
+            const imported = await importStatement(agents, {
+                docType, bytes, nome: body.name || body.url, origem: 'import_manual', documentId: stored.id,
+                contaId: body.contaId, isCard, vencimento: body.vencimento, profileId: body.profileId,
+            });
+            if (isImportError(imported)) {
+                return { status: imported.status, jsonBody: { error: imported.error } };
+            }
+            ({ results, fatura } = imported);
+        } else {
+            const doc: ImportedDocument = {
+                id: generateId('IMP'),
+                name: body.name || 'documento_importado',
+                type: docType as ImportedDocument['type'],
+                source: 'manual_import',
+                contentUrl: body.url,
+                size: bytes.length,
+                uploadedAt: nowISO(),
+                content: bytes,
+                documentId: stored.id,
+            };
 
-        const results = await agents.extractData(doc);
+            results = await agents.extractData(doc);
 
-        for (const res of results) {
-            await createGuardianAuth(toGuardianAuth(res, nowISO(), 'import_manual'));
+            for (const res of results) {
+                await createGuardianAuth(toGuardianAuth(res, nowISO(), 'import_manual'));
+            }
         }
 
         return {
             status: 200,
             jsonBody: {
                 success: true,
+                documentId: stored.id,
                 count: results.length,
+                fatura: fatura ? { vencimento: fatura.vencimento, total: fatura.total } : undefined,
                 message: 'Documento importado e enfileirado para decisão.',
             },
         };
@@ -56,6 +93,19 @@ export async function guardianImportHandler(
     }
 }
 
+/** Last path segment of the URL, or a generic name with the document extension */
+function fileNameFromUrl(url: string, docType: DocType): string {
+    const segment = new URL(url).pathname.split('/').pop() || '';
+    let last: string;
+    try {
+        last = decodeURIComponent(segment);
+    } catch {
+        // Percent-encoding malformado (ex: "%E0%A4%A"): usa o segmento como veio
+        last = segment;
+    }
+    return last || `documento_importado.${docType}`;
+}
+
 app.http('guardianImport', {
     methods: ['POST'],
     authLevel: 'anonymous',
@@ -0,0 +1,151 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { nowISO, safeErrorMessage } from '../shared/utils';
+import { getAllAuthorizations, getLedgerEntries } from '../storage/tableClient';
+import { isPeriodo, monthRange } from '../guardian/reportPeriod';
+import { monthsBetween } from '../guardian/budgetReport';
+import { loadLedgerContext, chartOfAccounts, trialBalance, accountStatement, syncLedger, unknownAccount } from '../guardian/ledger';
+
+const MAX_MESES = 24;
+
+/** Reads ?de&ate (YYYY-MM, default: current month) into the first and last day, or an error message */
+function parseRange(request: HttpRequest): { de: string; ate: string } | string {
+    const de = request.query.get('de') || nowISO().substring(0, 7);
+    const ate = request.query.get('ate') || de;
+    for (const [name, value] of [['de', de], ['ate', ate]] as const) {
+        if (!isPeriodo(value)) return `Parâmetro "${name}" deve estar no formato YYYY-MM.`;
+    }
+    if (de > ate) return 'Parâmetro "de" deve ser anterior ou igual a "ate".';
+    if (monthsBetween(de, ate).length > MAX_MESES) return `Intervalo máximo de ${MAX_MESES} meses.`;
+    return { de: monthRange(de).inicio, ate: monthRange(ate).fim };
+}
+
+// GET /api/guardianLedger/balancete?de=YYYY-MM&ate=YYYY-MM — saldo anterior, débitos, créditos e saldo final por conta
+export async function guardianLedgerBalanceteHandler(
+    request: HttpRequest,
+    context: InvocationContext
+): Promise<HttpResponseInit> {
+    try {
+        const range = parseRange(request);
+        if (typeof range === 'string') {
+            return { status: 400, jsonBody: { error: range } };
+        }
+        const [ledgerCtx, entries] = await Promise.all([loadLedgerContext(), getLedgerEntries()]);
+        const balancete = trialBalance(entries, chartOfAccounts(ledgerCtx), range.de, range.ate);
+        return { status: 200, jsonBody: { success: true, balancete } };
+    } catch (error: unknown) {
+        context.error('Erro ao gerar balancete', error);
+        return { status: 500, jsonBody: { error: safeErrorMessage(error) } };
+    }
+}
+
+// GET /api/guardianLedger/razao?conta=1.1.1.CC_INTER&de=YYYY-MM&ate=YYYY-MM — extrato contábil de uma conta
+export async function guardianLedgerRazaoHandler(
+    request: HttpRequest,
+    context: InvocationContext
+): Promise<HttpResponseInit> {
+    try {
+        const codigo = request.query.get('conta');
+        if (!codigo) {
+            return { status: 400, jsonBody: { error: 'Parâmetro "conta" é obrigatório.' } };
+        }
+        const range = parseRange(request);
+        if (typeof range === 'string') {
+            return { status: 400, jsonBody: { error: range } };
+        }
+        const [ledgerCtx, entries] = await Promise.all([loadLedgerContext(), getLedgerEntries()]);
+        const plano = chartOfAccounts(ledgerCtx);
+        const usada = entries.some(e => e.contaDebito === codigo || e.contaCredito === codigo);
+        if (!plano.has(codigo) && !usada) {
+            return { status: 404, jsonBody: { error: `Conta contábil "${codigo}" não encontrada.` } };
+        }
+        const razao = accountStatement(entries, plano.get(codigo) || unknownAccount(codigo), range.de, range.ate);
+        return { status: 200, jsonBody: { success: true, razao } };
+    } catch (error: unknown) {
+        context.error('Erro ao gerar razão', error);
+        return { status: 500, jsonBody: { error: safeErrorMessage(error) } };
+    }
+}
+
+// GET /api/guardianLedger/contas — plano de contas
+export async function guardianLedgerContasHandler(
+    request: HttpRequest,
+    context: InvocationContext
+): Promise<HttpResponseInit> {
+    try {
+        const contas = [...chartOfAccounts(await loadLedgerContext()).values()].sort((a, b) => a.codigo.localeCompare(b.codigo));
+        return { status: 200, jsonBody: { success: true, count: contas.length, contas } };
+    } catch (error: unknown) {
+        context.error('Erro ao listar plano de contas', error);
+        return { status: 500, jsonBody: { error: safeErrorMessage(error) } };
+    }
+}
+
+// GET /api/guardianLedger/lancamentos?origemId=CLASS_TX_... — trilha de lançamentos de uma autorização
+export async function guardianLedgerLancamentosHandler(
+    request: HttpRequest,
+    context: InvocationContext
+): Promise<HttpResponseInit> {
+    try {
+        const origemId = request.query.get('origemId');
+        if (!origemId) {
+            return { status: 400, jsonBody: { error: 'Parâmetro "origemId" é obrigatório.' } };
+        }
+        const lancamentos = await getLedgerEntries(origemId);
+        return { status: 200, jsonBody: { success: true, count: lancamentos.length, lancamentos } };
+    } catch (error: unknown) {
+        context.error('Erro ao listar lançamentos do razão', error);
+        return { status: 500, jsonBody: { error: safeErrorMessage(error) } };
+    }
+}
+
+// POST /api/guardianLedger/reprocessar — alinha o razão com todas as autorizações (carga inicial e correções)
+export async function guardianLedgerReprocessarHandler(
+    request: HttpRequest,
+    context: InvocationContext
+): Promise<HttpResponseInit> {
+    try {
+        const lancamentos = await syncLedger(await getAllAuthorizations(), 'reprocessamento');
+        return {
+            status: 200,
+            jsonBody: { success: true, lancados: lancamentos.length, estornos: lancamentos.filter(l => l.estornoDe).length },
+        };
+    } catch (error: unknown) {
+        context.error('Erro ao reprocessar razão', error);
+        return { status: 500, jsonBody: { error: safeErrorMessage(error) } };
+    }
+}
+
+app.http('guardianLedgerBalancete', {
+    methods: ['GET'],
+    route: 'guardianLedger/balancete',
+    authLevel: 'anonymous',
+    handler: guardianLedgerBalanceteHandler,
+});
+
+app.http('guardianLedgerRazao', {
+    methods: ['GET'],
+    route: 'guardianLedger/razao',
+    authLevel: 'anonymous',
+    handler: guardianLedgerRazaoHandler,
+});
+
+app.http('guardianLedgerContas', {
+    methods: ['GET'],
+    route: 'guardianLedger/contas',
+    authLevel: 'anonymous',
+    handler: guardianLedgerContasHandler,
+});
+
+app.http('guardianLedgerLancamentos', {
+    methods: ['GET'],
+    route: 'guardianLedger/lancamentos',
+    authLevel: 'anonymous',
+    handler: guardianLedgerLancamentosHandler,
+});
+
+app.http('guardianLedgerReprocessar', {
+    methods: ['POST'],
+    route: 'guardianLedger/reprocessar',
+    authLevel: 'anonymous',
+    handler: guardianLedgerReprocessarHandler,
+});
@@ -0,0 +1,165 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext, Timer } from '@azure/functions';
+import { createLogger, nowISO, safeErrorMessage } from '../shared/utils';
+import { ContaPagar, ObrigacaoFiscal } from '../shared/types';
+import { getObrigacoesFiscais, getObrigacaoFiscal, saveObrigacaoFiscal, deleteObrigacaoFiscal } from '../storage/areaTableClient';
+import { getTitulos } from '../storage/financeTableClient';
+import { isPeriodo, previousPeriodo } from '../guardian/reportPeriod';
+import { effectiveStatus } from '../guardian/payables';
+import {
+    validateObrigacao, calculateObligation, obligationPayableId, loadCalendarContext, generateObligationPayables,
+} from '../guardian/taxCalendar';
+
+const logger = createLogger('GuardianObrigacoes');
+
+/** NCRONTAB (6 campos). Padrão: dia 1 de cada mês às 06:00, para a competência recém-encerrada */
+const OBRIGACOES_SCHEDULE = process.env.GUARDIAN_OBRIGACOES_SCHEDULE || '0 0 6 1 * *';
+
+// GET /api/guardianObrigacoes?periodo=YYYY-MM — obrigações cadastradas e o calendário da competência (padrão: mês anterior)
+export async function guardianObrigacoesGetHandler(
+    request: HttpRequest,
+    context: InvocationContext
+): Promise<HttpResponseInit> {
+    try {
+        const periodo = request.query.get('periodo') || previousPeriodo();
+        if (!isPeriodo(periodo)) {
+            return { status: 400, jsonBody: { error: 'Parâmetro "periodo" deve estar no formato YYYY-MM.' } };
+        }
+
+        const [obrigacoes, ctx, titulos] = await Promise.all([
+            getObrigacoesFiscais(),
+            loadCalendarContext(periodo),
+            getTitulos<ContaPagar>('pagar'),
+        ]);
+        const porId = new Map(titulos.map(t => [t.id, t]));
+        const calendario = obrigacoes.filter(o => o.ativa).map(o => {
+            const titulo = porId.get(obligationPayableId(o, periodo));
+            return {
+                ...calculateObligation(o, periodo, ctx),
+                titulo: titulo
+                    ? { id: titulo.id, status: effectiveStatus(titulo), valor: titulo.valor, valorPago: titulo.valorPago, transacaoId: titulo.transacaoId }
+                    : null,
+            };
+        }).sort((a, b) => a.vencimento.localeCompare(b.vencimento));
+        const total = Math.round(calendario.reduce((s, c) => s + c.valor, 0) * 100) / 100;
+
+        return { status: 200, jsonBody: { success: true, periodo, count: obrigacoes.length, obrigacoes, total, calendario } };
+    } catch (error: unknown) {
+        context.error('Erro ao listar obrigações fiscais', error);
+        return { status: 500, jsonBody: { error: safeErrorMessage(error) } };
+    }
+}
+
+// POST /api/guardianObrigacoes — action: create | update | delete
+export async function guardianObrigacoesPostHandler(
+    request: HttpRequest,
+    context: InvocationContext
+): Promise<HttpResponseInit> {
+    try {
+        const body = await request.json() as Record<string, unknown>;
+        const action = (body.action as string) || 'create';
+
+        if (action === 'create' || action === 'update') {
+            const record = body.record as ObrigacaoFiscal;
+            const error = record ? validateObrigacao(record) : 'Campo "record" é obrigatório.';
+            if (error) {
+                return { status: 400, jsonBody: { error } };
+            }
+
+            const existing = await getObrigacaoFiscal(record.id);
+            if (action === 'create' && existing) {
+                return { status: 409, jsonBody: { error: `Obrigação "${record.id}" já existe.` } };
+            }
+            if (action === 'update' && !existing) {
+                return { status: 404, jsonBody: { error: `Obrigação "${record.id}" não encontrada.` } };
+            }
+
+            await saveObrigacaoFiscal({
+                ...record,
+                mesesApos: record.mesesApos ?? 1,
+                ativa: record.ativa !== false,
+                criadoEm: existing?.criadoEm || nowISO(),
+                atualizadoEm: nowISO(),
+            });
+
+            logger.info(`Obrigação fiscal ${action}: ${record.id}`);
+            return { status: 200, jsonBody: { success: true, action, id: record.id } };
+        }
+
+        if (action === 'delete') {
+            const recordId = body.id as string;
+            if (!recordId) {
+                return { status: 400, jsonBody: { error: 'Campo "id" é obrigatório para delete.' } };
+            }
+            // Títulos já gerados continuam em contas a pagar
+            await deleteObrigacaoFiscal(recordId);
+            logger.info(`Obrigação fiscal delete: ${recordId}`);
+            return { status: 200, jsonBody: { success: true, action: 'delete', id: recordId } };
+        }
+
+        return { status: 400, jsonBody: { error: `Action inválida: ${action}. Use: create, update, delete` } };
+    } catch (error: unknown) {
+        context.error('Erro ao modificar obrigação fiscal', error);
+        return { status: 500, jsonBody: { error: safeErrorMessage(error) } };
+    }
+}
+
+// POST /api/guardianObrigacoes/gerar — { periodo? } cria/atualiza os títulos previstos da competência
+export async function guardianObrigacoesGerarHandler(
+    request: HttpRequest,
+    context: InvocationContext
+): Promise<HttpResponseInit> {
+    try {
+        let body: { periodo?: string };
+        try { body = (await request.json() as { periodo?: string }) || {}; }
+        catch { body = {}; }
+        const periodo = body.periodo || previousPeriodo();
+        if (!isPeriodo(periodo)) {
+            return { status: 400, jsonBody: { error: 'Campo "periodo" deve estar no formato YYYY-MM.' } };
+        }
+
+        const result = await generateObligationPayables(periodo);
+        return { status: 200, jsonBody: { success: true, periodo, ...result } };
+    } catch (error: unknown) {
+        context.error('Erro ao gerar títulos do calendário fiscal', error);
+        return { status: 500, jsonBody: { error: safeErrorMessage(error) } };
+    }
+}
+
+/** Geração mensal: títulos previstos da competência que acabou de encerrar */
+export async function guardianObrigacoesTimerHandler(timer: Timer, context: InvocationContext): Promise<void> {
+    if (timer.isPastDue) logger.warn('Geração do calendário fiscal atrasada — executando agora');
+
+    try {
+        const periodo = previousPeriodo();
+        const result = await generateObligationPayables(periodo);
+        context.log(`Calendário fiscal ${periodo}: ${result.criados} criados, ${result.atualizados} atualizados`);
+    } catch (error: unknown) {
+        context.error('Erro na geração do calendário fiscal', error);
+    }
+}
+
+app.http('guardianObrigacoesGet', {
+    methods: ['GET'],
+    route: 'guardianObrigacoes',
+    authLevel: 'anonymous',
+    handler: guardianObrigacoesGetHandler,
+});
+
+app.http('guardianObrigacoesPost', {
+    methods: ['POST'],
+    route: 'guardianObrigacoes',
+    authLevel: 'anonymous',
+    handler: guardianObrigacoesPostHandler,
+});
+
+app.http('guardianObrigacoesGerar', {
+    methods: ['POST'],
+    route: 'guardianObrigacoes/gerar',
+    authLevel: 'anonymous',
+    handler: guardianObrigacoesGerarHandler,
+});
+
+app.timer('guardianObrigacoesTimer', {
+    schedule: OBRIGACOES_SCHEDULE,
+    handler: guardianObrigacoesTimerHandler,
+});
@@ -0,0 +1,203 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { nowISO, safeErrorMessage } from '../shared/utils';
+import { Categoria } from '../shared/areas';
+import { getApprovedAuthorizations, getOrcamentoVersoes } from '../storage/tableClient';
+import { getCadastroRecords } from '../storage/areaTableClient';
+import { reportingItems } from '../guardian/splitTransactions';
+import { isPeriodo } from '../guardian/reportPeriod';
+import { buildBudgetMonth, monthsBetween } from '../guardian/budgetReport';
+import {
+    OrcamentoAlteracao, activeVersionsByYear, monthlyBudgets, baselineValores, validateValores, validateAlteracoes,
+    mergeValores, createVersion, copyFromPriorYear, activateVersion, updateVersionValues,
+} from '../guardian/budgetPlanning';
+
+const MAX_MESES = 24;
+
+interface VersaoBody {
+    action: 'criar' | 'copiar' | 'ativar' | 'editar';
+    /** ativar/editar; copiar: versão de origem (padrão: ativa do ano anterior) */
+    id?: string;
+    ano?: number;
+    nome?: string;
+    /** copiar: reajuste aplicado a todos os meses (%) */
+    ajustePct?: number;
+    /** criar/editar: linhas completas { categoria: [jan..dez] } */
+    valores?: Record<string, number[]>;
+    /** editar: células avulsas */
+    alteracoes?: OrcamentoAlteracao[];
+}
+
+// GET /api/guardianOrcamento?de=YYYY-MM&ate=YYYY-MM — orçado x realizado por mês (padrão: mês corrente)
+export async function guardianOrcamentoHandler(
+    request: HttpRequest,
+    context: InvocationContext
+): Promise<HttpResponseInit> {
+    try {
+        const hoje = nowISO().substring(0, 10);
+        const de = request.query.get('de') || hoje.substring(0, 7);
+        const ate = request.query.get('ate') || de;
+        for (const [name, value] of [['de', de], ['ate', ate]] as const) {
+            if (!isPeriodo(value)) {
+                return { status: 400, jsonBody: { error: `Parâmetro "${name}" deve estar no formato YYYY-MM.` } };
+            }
+        }
+        if (de > ate) {
+            return { status: 400, jsonBody: { error: 'Parâmetro "de" deve ser anterior ou igual a "ate".' } };
+        }
+        const periodos = monthsBetween(de, ate);
+        if (periodos.length > MAX_MESES) {
+            return { status: 400, jsonBody: { error: `Intervalo máximo de ${MAX_MESES} meses.` } };
+        }
+
+        const [approvedItems, categorias, versoes] = await Promise.all([
+            getApprovedAuthorizations(),
+            getCadastroRecords<Categoria>('categorias'),
+            getOrcamentoVersoes(),
+        ]);
+        const items = reportingItems(approvedItems);
+        const ativas = activeVersionsByYear(versoes);
+        const meses = periodos.map(p => {
+            const versao = ativas.get(parseInt(p.substring(0, 4), 10)) || null;
+            return {
+                ...buildBudgetMonth(items, categorias, monthlyBudgets(categorias, versao, p), p, hoje),
+                versao: versao ? { id: versao.id, nome: versao.nome } : null,
+            };
+        });
+
+        return { status: 200, jsonBody: { success: true, de, ate, meses } };
+    } catch (error: unknown) {
+        context.error('Erro ao gerar orçado x realizado', error);
+        return { status: 500, jsonBody: { error: safeErrorMessage(error) } };
+    }
+}
+
+// GET /api/guardianOrcamento/versoes?ano=2026 — versões do orçamento com os valores mensais
+export async function guardianOrcamentoVersoesGetHandler(
+    request: HttpRequest,
+    context: InvocationContext
+): Promise<HttpResponseInit> {
+    try {
+        const anoParam = request.query.get('ano');
+        const ano = anoParam ? parseInt(anoParam, 10) : undefined;
+        if (anoParam && !(ano! >= 2000 && ano! <= 2100)) {
+            return { status: 400, jsonBody: { error: 'Parâmetro "ano" inválido.' } };
+        }
+        const versoes = (await getOrcamentoVersoes(ano)).map(({ valoresJson, ...v }) => ({
+            ...v,
+            totalAnual: Math.round(Object.values(v.valores || {}).flat().reduce((s, x) => s + x, 0) * 100) / 100,
+        }));
+        return { status: 200, jsonBody: { success: true, count: versoes.length, versoes } };
+    } catch (error: unknown) {
+        context.error('Erro ao listar versões de orçamento', error);
+        return { status: 500, jsonBody: { error: safeErrorMessage(error) } };
+    }
+}
+
+// POST /api/guardianOrcamento/versoes — action: criar | copiar | ativar | editar
+export async function guardianOrcamentoVersoesPostHandler(
+    request: HttpRequest,
+    context: InvocationContext
+): Promise<HttpResponseInit> {
+    try {
+        let body: VersaoBody;
+        try { body = await request.json() as VersaoBody; }
+        catch { return { status: 400, jsonBody: { error: 'Request body inválido (JSON esperado).' } }; }
+        if (!body || !body.action) {
+            return { status: 400, jsonBody: { error: 'Campo "action" é obrigatório.' } };
+        }
+        if (!['criar', 'copiar', 'ativar', 'editar'].includes(body.action)) {
+            return { status: 400, jsonBody: { error: 'Action inválida. Use: criar, copiar, ativar, editar' } };
+        }
+
+        const [categorias, versoes] = await Promise.all([
+            getCadastroRecords<Categoria>('categorias'),
+            getOrcamentoVersoes(),
+        ]);
+        const nomes = new Set(categorias.map(c => c.nome));
+
+        if (body.action === 'criar' || body.action === 'copiar') {
+            if (!Number.isInteger(body.ano) || body.ano! < 2000 || body.ano! > 2100) {
+                return { status: 400, jsonBody: { error: 'Campo "ano" é obrigatório (ex.: 2026).' } };
+            }
+            if (!body.nome || !body.nome.trim()) {
+                return { status: 400, jsonBody: { error: 'Campo "nome" é obrigatório.' } };
+            }
+            const ano = body.ano!;
+            const nome = body.nome.trim();
+            if (versoes.some(v => Number(v.ano) === ano && v.nome.toLowerCase() === nome.toLowerCase())) {
+                return { status: 409, jsonBody: { error: `Já existe a versão "${nome}" em ${ano}.` } };
+            }
+
+            if (body.action === 'criar') {
+                const valores = body.valores || baselineValores(categorias);
+                const error = validateValores(valores, nomes);
+                if (error) {
+                    return { status: 400, jsonBody: { error } };
+                }
+                const versao = await createVersion(ano, nome, valores);
+                return { status: 200, jsonBody: { success: true, action: body.action, versao } };
+            }
+
+            const ajustePct = body.ajustePct ?? 0;
+            if (typeof ajustePct !== 'number' || ajustePct <= -100) {
+                return { status: 400, jsonBody: { error: 'Campo "ajustePct" deve ser um número maior que -100.' } };
+            }
+            const origem = body.id ? versoes.find(v => v.id === body.id) : undefined;
+            if (body.id && !origem) {
+                return { status: 404, jsonBody: { error: `Versão "${body.id}" não encontrada.` } };
+            }
+            const versao = await copyFromPriorYear(ano, nome, ajustePct, categorias, origem);
+            return { status: 200, jsonBody: { success: true, action: body.action, versao } };
+        }
+
+        const versao = versoes.find(v => v.id === body.id);
+        if (!body.id || !versao) {
+            return { status: 404, jsonBody: { error: `Versão "${body.id ?? ''}" não encontrada.` } };
+        }
+
+        if (body.action === 'ativar') {
+            const ativa = await activateVersion(versao);
+            return { status: 200, jsonBody: { success: true, action: body.action, versao: ativa } };
+        }
+
+        if (body.action === 'editar') {
+            if (!body.valores && !body.alteracoes && !body.nome) {
+                return { status: 400, jsonBody: { error: 'Envie "valores", "alteracoes" ou "nome".' } };
+            }
+            const error = (body.valores && validateValores(body.valores, nomes))
+                || (body.alteracoes && validateAlteracoes(body.alteracoes, nomes));
+            if (error) {
+                return { status: 400, jsonBody: { error } };
+            }
+            const valores = mergeValores(versao.valores || {}, body.valores || {}, body.alteracoes || []);
+            const atualizada = await updateVersionValues(versao, valores, body.nome?.trim());
+            return { status: 200, jsonBody: { success: true, action: body.action, versao: atualizada } };
+        }
+
+        return { status: 400, jsonBody: { error: 'Action inválida. Use: criar, copiar, ativar, editar' } };
+    } catch (error: unknown) {
+        context.error('Erro ao salvar versão de orçamento', error);
+        return { status: 500, jsonBody: { error: safeErrorMessage(error) } };
+    }
+}
+
+app.http('guardianOrcamento', {
+    methods: ['GET'],
+    route: 'guardianOrcamento',
+    authLevel: 'anonymous',
+    handler: guardianOrcamentoHandler,
+});
+
+app.http('guardianOrcamentoVersoesGet', {
+    methods: ['GET'],
+    route: 'guardianOrcamento/versoes',
+    authLevel: 'anonymous',
+    handler: guardianOrcamentoVersoesGetHandler,
+});
+
+app.http('guardianOrcamentoVersoesPost', {
+    methods: ['POST'],
+    route: 'guardianOrcamento/versoes',
+    authLevel: 'anonymous',
+    handler: guardianOrcamentoVersoesPostHandler,
+});
@@ -2,14 +2,21 @@ import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/fu
 import { getGuardianAuthorizations, getApprovedAuthorizations } from '../storage/tableClient';
 import { getConfig, getCadastroRecords } from '../storage/areaTableClient';
 import { createLogger, nowISO, safeErrorMessage } from '../shared/utils';
-import { InterConnector } from '../guardian/interConnector';
-import { GuardianAuthorization } from '../shared/types';
+import { getTotalBankBalance } from '../guardian/bankConnector';
+import { reportingItems } from '../guardian/splitTransactions';
+import { getAccountBalances, totalCash } from '../guardian/accountBalances';
+import { parseReportPeriod, statementItems, paidAfter, balanceMovements } from '../guardian/reportPeriod';
+import { TaxContext, getTaxConfig, monthlyGrossRevenue, revenueDeductions, incomeTaxes, periodMonths, taxSummary } from '../guardian/taxRegime';
+import { GuardianAuthorization, ContaPagar } from '../shared/types';
+import { getTitulos } from '../storage/financeTableClient';
+import { taxDueByMonth } from '../guardian/taxCalendar';
+import { dreCostItems } from '../guardian/dasEstimator';
 import { Categoria } from '../shared/areas';
 
 const logger = createLogger('GuardianReports');
 
 /** Build category-type lookup from active categories */
-function buildCatLookup(categorias: Categoria[]): Map<string, { tipo: string; grupo: string }> {
+export function buildCatLookup(categorias: Categoria[]): Map<string, { tipo: string; grupo: string }> {
     const map = new Map<string, { tipo: string; grupo: string }>();
     for (const c of categorias) {
         map.set(c.nome, { tipo: c.tipo, grupo: c.grupo });
@@ -35,30 +42,40 @@ function groupByGrupo(items: GuardianAuthorization[], catMap: Map<string, { tipo
     return groups;
 }
 
+/** Variação de caixa dos lançamentos categorizados (entradas − saídas) */
+export function cashVariation(items: GuardianAuthorization[], catMap: Map<string, { tipo: string; grupo: string }>): number {
+    const entradas = sumByTipo(items, catMap, 'RECEITA_DIRETA') + sumByTipo(items, catMap, 'RECEITA_FINANCEIRA');
+    const saidas = sumByTipo(items, catMap, 'CUSTO_VARIAVEL') + sumByTipo(items, catMap, 'CUSTO_FIXO') + sumByTipo(items, catMap, 'DESPESA_FINANCEIRA');
+    return entradas - saidas;
+}
+
 /** Build DRE using category map (same model as dashboard) */
-function buildDRE(items: GuardianAuthorization[], catMap: Map<string, { tipo: string; grupo: string }>) {
+export function buildDRE(items: GuardianAuthorization[], catMap: Map<string, { tipo: string; grupo: string }>, tax: TaxContext) {
     const receitaBruta = sumByTipo(items, catMap, 'RECEITA_DIRETA');
-    const deducoes = receitaBruta * 0.0925;
+    const impostos = revenueDeductions(tax.config, monthlyGrossRevenue(items, catMap), tax.receitaMensal);
+    const deducoes = impostos.total;
     const receitaLiquida = receitaBruta - deducoes;
+    const custos = dreCostItems(items, tax.config);
 
-    const varGrupos = groupByGrupo(items, catMap, 'CUSTO_VARIAVEL');
+    const varGrupos = groupByGrupo(custos, catMap, 'CUSTO_VARIAVEL');
     const varTotal = Object.values(varGrupos).reduce((s, v) => s + v, 0);
 
     const margemContribuicao = receitaLiquida - varTotal;
     const indiceMC = receitaLiquida > 0 ? margemContribuicao / receitaLiquida : 0;
 
-    const fixoGrupos = groupByGrupo(items, catMap, 'CUSTO_FIXO');
+    const fixoGrupos = groupByGrupo(custos, catMap, 'CUSTO_FIXO');
     const fixoTotal = Object.values(fixoGrupos).reduce((s, v) => s + v, 0);
 
     const resultadoOperacional = margemContribuicao - fixoTotal;
 
     const receitasFinanceiras = sumByTipo(items, catMap, 'RECEITA_FINANCEIRA');
-    const despFinGrupos = groupByGrupo(items, catMap, 'DESPESA_FINANCEIRA');
+    const despFinGrupos = groupByGrupo(custos, catMap, 'DESPESA_FINANCEIRA');
     const despesasFinanceiras = Object.values(despFinGrupos).reduce((s, v) => s + v, 0);
     const resultadoFinanceiro = receitasFinanceiras - despesasFinanceiras;
 
     const resultadoAntesIR = resultadoOperacional + resultadoFinanceiro;
-    const irCSLL = Math.max(resultadoAntesIR * 0.34, 0);
+    const ir = incomeTaxes(tax.config, { receitaBruta, receitasFinanceiras, resultadoAntesIR, meses: periodMonths(items, tax.periodo) });
+    const irCSLL = ir.total;
     const resultadoLiquido = resultadoAntesIR - irCSLL;
 
     return {
@@ -78,11 +95,12 @@ function buildDRE(items: GuardianAuthorization[], catMap: Map<string, { tipo: st
         margemLiquida: receitaBruta > 0 ? ((resultadoLiquido / receitaBruta) * 100).toFixed(1) + '%' : '0%',
         margemEbitda: receitaBruta > 0 ? ((resultadoOperacional / receitaBruta) * 100).toFixed(1) + '%' : '0%',
         lucroLiquido: resultadoLiquido,
+        tributacao: taxSummary(tax.config, impostos, ir),
     };
 }
 
 /** Build DFC */
-function buildDFC(items: GuardianAuthorization[], caixaAtual: number, caixaInicialConfig: number | null, catMap: Map<string, { tipo: string; grupo: string }>) {
+export function buildDFC(items: GuardianAuthorization[], caixaAtual: number, caixaInicialConfig: number | null, catMap: Map<string, { tipo: string; grupo: string }>) {
     const recebimentos = sumByTipo(items, catMap, 'RECEITA_DIRETA');
     const pagVar = sumByTipo(items, catMap, 'CUSTO_VARIAVEL');
     const pagFixo = sumByTipo(items, catMap, 'CUSTO_FIXO');
@@ -114,11 +132,11 @@ function buildDFC(items: GuardianAuthorization[], caixaAtual: number, caixaInici
 }
 
 /** Generate 6-month forecast */
-function buildForecast(items: GuardianAuthorization[], caixaAtual: number, catMap: Map<string, { tipo: string; grupo: string }>) {
+function buildForecast(items: GuardianAuthorization[], caixaAtual: number, catMap: Map<string, { tipo: string; grupo: string }>, impostos: Map<string, number>) {
     const receita = sumByTipo(items, catMap, 'RECEITA_DIRETA');
     const despesas = sumByTipo(items, catMap, 'CUSTO_VARIAVEL') + sumByTipo(items, catMap, 'CUSTO_FIXO');
     const growthRate = 0.03;
-    const months: Array<{ month: string; receita: number; despesas: number; lucroLiquido: number; caixaAcumulado: number }> = [];
+    const months: Array<{ month: string; receita: number; despesas: number; impostos: number; lucroLiquido: number; caixaAcumulado: number }> = [];
     const now = new Date();
     let caixa = caixaAtual;
 
@@ -129,11 +147,14 @@ function buildForecast(items: GuardianAuthorization[], caixaAtual: number, catMa
         const mReceita = receita * factor;
         const mDespesas = despesas * (1 + (growthRate * 0.5 * i));
         const mLucro = mReceita - mDespesas;
-        caixa += mLucro;
+        // Impostos previstos (DAS e calendário fiscal) saem do caixa no mês do vencimento
+        const mImpostos = impostos.get(`${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`) || 0;
+        caixa += mLucro - mImpostos;
         months.push({
             month: label,
             receita: Math.round(mReceita * 100) / 100,
             despesas: Math.round(mDespesas * 100) / 100,
+            impostos: Math.round(mImpostos * 100) / 100,
             lucroLiquido: Math.round(mLucro * 100) / 100,
             caixaAcumulado: Math.round(caixa * 100) / 100,
         });
@@ -167,41 +188,53 @@ export async function guardianReportsHandler(
     context.log('Gerando Relatório Consolidado (Controladoria)...');
 
     try {
+        const period = parseReportPeriod(request.query);
+        if (typeof period === 'string') {
+            return { status: 400, jsonBody: { error: period } };
+        }
+
         // Fetch approved (for DRE) and pending (for review section) in parallel
-        const [approvedItems, pendingItems, ccSaldoInicialStr, ccDataRef, categorias] = await Promise.all([
+        const [approvedItems, pendingItems, ccSaldoInicialStr, ccDataRef, categorias, taxConfig, contasPagar] = await Promise.all([
             getApprovedAuthorizations(),
             getGuardianAuthorizations(),
             getConfig('CC_SALDO_INICIAL'),
             getConfig('CC_DATA_REFERENCIA'),
             getCadastroRecords<Categoria>('categorias'),
+            getTaxConfig(),
+            getTitulos<ContaPagar>('pagar'),
         ]);
 
-        const inter = new InterConnector();
         const catMap = buildCatLookup(categorias);
 
-        // Only approved items for financial calculations
-        const items = approvedItems;
+        // Only approved items for financial calculations (split transactions enter as their parts)
+        const items = reportingItems(approvedItems);
+        // Período/regime: DRE por competência e DFC por caixa, salvo regime escolhido
+        const { dre: dreItems, dfc: dfcItems, regimeDRE, regimeDFC } = statementItems(items, period);
 
-        // KPIs from approved items
-        const receitaDireta = sumByTipo(items, catMap, 'RECEITA_DIRETA');
-        const custoVariavel = sumByTipo(items, catMap, 'CUSTO_VARIAVEL');
-        const custoFixo = sumByTipo(items, catMap, 'CUSTO_FIXO');
+        // KPIs from approved items in the period (same base as the DRE)
+        const receitaDireta = sumByTipo(dreItems, catMap, 'RECEITA_DIRETA');
+        const custoVariavel = sumByTipo(dreItems, catMap, 'CUSTO_VARIAVEL');
+        const custoFixo = sumByTipo(dreItems, catMap, 'CUSTO_FIXO');
         const kpis = {
             revenue: receitaDireta,
             opExpenses: custoVariavel + custoFixo,
             ebitda: receitaDireta - custoVariavel - custoFixo,
         };
 
-        // Try live balance
+        // Saldos correntes das contas cadastradas; sem cadastro, tenta o saldo do banco
         let caixaAtual: number;
+        let saldoBancario = true;
+        const saldosContas = await getAccountBalances();
         try {
-            const balance = await inter.getBalance();
-            caixaAtual = balance.total;
+            caixaAtual = saldosContas.some(c => c.tipo !== 'cartao')
+                ? totalCash(saldosContas)
+                : await getTotalBankBalance();
         } catch {
-            logger.warn('Inter API indisponível — calculando saldo a partir dos dados persistidos');
+            logger.warn('Saldo bancário indisponível — calculando saldo a partir dos dados persistidos');
             const receitas = sumByTipo(items, catMap, 'RECEITA_DIRETA') + sumByTipo(items, catMap, 'RECEITA_FINANCEIRA');
             const despesas = custoVariavel + custoFixo + sumByTipo(items, catMap, 'DESPESA_FINANCEIRA');
             caixaAtual = receitas - despesas;
+            saldoBancario = false;
         }
 
         const automatedCount = items.filter(i => !i.needsReview).length;
@@ -209,10 +242,14 @@ export async function guardianReportsHandler(
 
         const ccSaldoInicial = ccSaldoInicialStr ? parseFloat(ccSaldoInicialStr) : null;
 
-        // Build financial statements
-        const dre = buildDRE(items, catMap);
-        const dfc = buildDFC(items, caixaAtual, ccSaldoInicial, catMap);
-        const forecast = buildForecast(items, caixaAtual, catMap);
+        // Build financial statements — com período fechado, o caixa final é o de `ate` (desconta o que entrou/saiu depois)
+        // Saldo do banco já inclui transações pendentes de aprovação: o recuo até `ate` desconta as mesmas
+        const movimentosCaixa = saldoBancario ? balanceMovements(items, pendingItems) : items;
+        const caixaFinalPeriodo = caixaAtual - cashVariation(paidAfter(movimentosCaixa, period.ate), catMap);
+        // Regime tributário: RBT12 do Simples vem do histórico completo, não só do período
+        const dre = buildDRE(dreItems, catMap, { config: taxConfig, receitaMensal: monthlyGrossRevenue(items, catMap), periodo: period });
+        const dfc = buildDFC(dfcItems, caixaFinalPeriodo, period.de ? null : ccSaldoInicial, catMap);
+        const forecast = buildForecast(items, caixaAtual, catMap, taxDueByMonth(contasPagar, nowISO()));
         const categorized = buildCategorized(items);
 
         // Separate approved entries/exits
@@ -257,6 +294,7 @@ export async function guardianReportsHandler(
         const report = {
             generatedAt: nowISO(),
             title: 'Relatório Estratégico Sovereign - Wfinance',
+            periodo: { de: period.de, ate: period.ate, regimeDRE, regimeDFC },
             summary: {
                 totalAnalizado: kpis.revenue,
                 alertasControladoria: items.filter(i => i.audit?.alert === 'critical').length,
@@ -0,0 +1,28 @@
+import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
+import { nowISO, safeErrorMessage } from '../shared/utils';
+import { getAccountBalances, totalCash } from '../guardian/accountBalances';
+
+// GET /api/guardianSaldos — saldo corrente de cada conta (saldo inicial + movimentos)
+export async function guardianSaldosHandler(
+    request: HttpRequest,
+    context: InvocationContext
+): Promise<HttpResponseInit> {
+    try {
+        const contas = await getAccountBalances();
+        // Faturas em aberto: saldo devedor das contas cartão
+        const faturasEmAberto = -contas.filter(c => c.tipo === 'cartao').reduce((s, c) => s + Math.min(c.saldoAtual, 0), 0);
+        return {
+            status: 200,
+            jsonBody: { success: true, calculadoEm: nowISO(), total: totalCash(contas), faturasEmAberto, contas },
+        };
+    } catch (error: unknown) {
+        context.error('Erro ao calcular saldos', error);
+        return { status: 500, jsonBody: { error: safeErrorMessage(error) } };
+    }
+}
+
+app.http('guardianSaldos', {
+    methods: ['GET'],
+    authLevel: 'anonymous',
+    handler: guardianSaldosHandler,
+});
@@ -38,6 +38,8 @@ export async function guardianStatusHandler(
             criadoEm: i.criadoEm,
             needsReview: i.needsReview,
             audit: i.audit,
+            dividida: !!i.dividida,
+            parentId: i.parentId,
         }));
 
         return {
@@ -1,81 +1,70 @@
-import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
-import { InterConnector } from '../guardian/interConnector';
-import { EmailListener } from '../guardian/emailListener';
-import { GuardianAgents } from '../guardian/guardianAgents';
-import { createGuardianAuth } from '../storage/tableClient';
-import { createLogger, nowISO, safeErrorMessage } from '../shared/utils';
-import { toGuardianAuth } from '../shared/types';
+import { app, HttpRequest, HttpResponseInit, InvocationContext, Timer } from '@azure/functions';
+import { runSync } from '../guardian/syncRunner';
+import { getSyncRuns } from '../storage/tableClient';
+import { createLogger, safeErrorMessage } from '../shared/utils';
 
 const logger = createLogger('GuardianSync');
 
+/** NCRONTAB (6 campos). Padrão: a cada 2 horas */
+const SYNC_SCHEDULE = process.env.GUARDIAN_SYNC_SCHEDULE || '0 0 */2 * * *';
+
 export async function guardianSyncHandler(
     request: HttpRequest,
     context: InvocationContext
 ): Promise<HttpResponseInit> {
     context.log('Iniciando Sincronização Guardian...');
 
-    const inter = new InterConnector();
-    const email = new EmailListener();
-    const agents = new GuardianAgents();
-
     try {
         // Accept custom date range via query params, default to 30-day rolling window
-        const endDate = request.query.get('dataFim') || nowISO().split('T')[0];
-        const startDate = request.query.get('dataInicio') || new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
-        context.log(`Período: ${startDate} até ${endDate}`);
-
-        const [balanceResult, txs, docs] = await Promise.allSettled([
-            inter.getBalance(),
-            inter.syncStatement(startDate, endDate),
-            email.processIncomingEmails(),
-        ]);
-
-        const balance = balanceResult.status === 'fulfilled' ? balanceResult.value : { disponivel: 0, reservado: 0, total: 0, dataHora: nowISO() };
-        if (balanceResult.status === 'rejected') logger.warn('Inter balance indisponível: ' + String(balanceResult.reason));
+        const summary = await runSync({
+            trigger: 'manual',
+            startDate: request.query.get('dataInicio') || undefined,
+            endDate: request.query.get('dataFim') || undefined,
+        });
+        context.log(`Período: ${summary.periodo.de} até ${summary.periodo.ate}`);
 
-        const transactions = txs.status === 'fulfilled' ? txs.value : [];
-        if (txs.status === 'rejected') logger.warn('Inter extrato indisponível (degraded): ' + String(txs.reason));
-
-        const documents = docs.status === 'fulfilled' ? docs.value : [];
-        if (docs.status === 'rejected') logger.warn('Graph emails indisponível (degraded): ' + String(docs.reason));
-
-        const docResults = (await Promise.all(documents.map(d => agents.extractData(d)))).flat();
-        const txResults = await Promise.all(transactions.map(t => agents.classifyTransaction(t)));
-
-        // Build description map from original transactions
-        const txDescMap = new Map<string, { descricao: string; data: string }>();
-        for (const tx of transactions) {
-            txDescMap.set('CLASS_' + tx.id, { descricao: tx.descricao, data: tx.data });
-        }
+        return {
+            status: 200,
+            jsonBody: { success: true, summary },
+        };
+    } catch (error: unknown) {
+        context.error('Erro no Sync Guardian', error);
+        return { status: 500, jsonBody: { error: safeErrorMessage(error) } };
+    }
+}
 
-        // Auditoria e Reconciliação
-        const allResults = [...txResults, ...docResults];
-        for (const res of allResults) {
-            await agents.audit(res);
-        }
-        await agents.reconcile(txResults, docResults);
+/** Sync agendado: incremental a partir dos cursores gravados no GuardianConfig */
+export async function guardianSyncTimerHandler(timer: Timer, context: InvocationContext): Promise<void> {
+    if (timer.isPastDue) logger.warn('Sync agendado atrasado — executando agora');
 
-        // Persist with full data (audit + needsReview + description included)
-        for (const res of allResults) {
-            const txInfo = txDescMap.get(res.id);
-            await createGuardianAuth(toGuardianAuth(res, nowISO(), undefined, txInfo?.descricao, txInfo?.data));
-        }
+    try {
+        const summary = await runSync({ trigger: 'timer', incremental: true });
+        context.log(`Sync agendado concluído: ${summary.new} novas, ${summary.updated} atualizadas, ${summary.documents} documentos`);
+    } catch (error: unknown) {
+        context.error('Erro no Sync agendado', error);
+    }
+}
 
+// GET /api/guardianSync/runs?limit=20 — histórico de execuções (mais recentes primeiro)
+export async function guardianSyncRunsHandler(
+    request: HttpRequest,
+    context: InvocationContext
+): Promise<HttpResponseInit> {
+    try {
+        const limit = Math.min(parseInt(request.query.get('limit') || '20', 10) || 20, 200);
+        const runs = await getSyncRuns(limit);
+        const lastSuccess = runs.find(r => r.status === 'sucesso');
         return {
             status: 200,
             jsonBody: {
                 success: true,
-                summary: {
-                    periodo: { de: startDate, ate: endDate },
-                    balance: balance.total,
-                    transactions: txResults.length,
-                    documents: docResults.length,
-                    automated: txResults.filter(t => t.confidence > 0.90).length,
-                },
+                count: runs.length,
+                ultimoSucesso: lastSuccess?.finalizadoEm || null,
+                runs: runs.map(({ fontesJson, classificacoesJson, ...r }) => r),
             },
         };
     } catch (error: unknown) {
-        context.error('Erro no Sync Guardian', error);
+        context.error('Erro ao listar sync runs', error);
         return { status: 500, jsonBody: { error: safeErrorMessage(error) } };
     }
 }
@@ -85,3 +74,15 @@ app.http('guardianSync', {
     authLevel: 'anonymous',
     handler: guardianSyncHandler,
 });
+
+app.http('guardianSyncRuns', {
+    methods: ['GET'],
+    route: 'guardianSync/runs',
+    authLevel: 'anonymous',
+    handler: guardianSyncRunsHandler,
+});
+
+app.timer('guardianSyncTimer', {
+    schedule: SYNC_SCHEDULE,
+    handler: guardianSyncTimerHandler,
+});
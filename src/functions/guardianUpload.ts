@@ -1,15 +1,25 @@
 import { app, HttpRequest, HttpResponseInit, InvocationContext } from '@azure/functions';
-import { GuardianAgents, ImportedDocument } from '../guardian/guardianAgents';
+import { GuardianAgents, ImportedDocument, AnalysisResult } from '../guardian/guardianAgents';
+import { importStatement, isStatementType, isImportError } from '../guardian/statementImport';
 import { createGuardianAuth } from '../storage/tableClient';
+import { saveDocument } from '../storage/documentStore';
+import { findConta } from '../guardian/accountBalances';
+import { CardInvoice } from '../guardian/cardInvoice';
 import { createLogger, nowISO, generateId, safeErrorMessage } from '../shared/utils';
-import { toGuardianAuth } from '../shared/types';
+import { toGuardianAuth, VALID_DOC_TYPES, DocType } from '../shared/types';
 
 const logger = createLogger('GuardianUpload');
 
 interface UploadBody {
     filename: string;
     contentBase64: string;
-    type?: 'pdf' | 'xml' | 'ofx' | 'csv';
+    type?: DocType;
+    /** ContaCorrente do extrato (OFX/CSV) ou conta cartão da fatura (OFX/CSV/TXT) */
+    contaId?: string;
+    /** Vencimento da fatura (contas cartão) — sobrepõe o lido do arquivo */
+    vencimento?: string;
+    /** Perfil de mapeamento obrigatório para extratos CSV */
+    profileId?: string;
 }
 
 export async function guardianUploadHandler(
@@ -26,34 +36,61 @@ export async function guardianUploadHandler(
         }
 
         const ext = body.filename.split('.').pop()?.toLowerCase() || '';
-        const docType = (['pdf', 'xml', 'ofx', 'csv'].includes(ext) ? ext : body.type || 'pdf') as 'pdf' | 'xml' | 'ofx' | 'csv';
-        const fileSize = Math.round(body.contentBase64.length * 0.75); // approximate decoded size
+        const docType = (VALID_DOC_TYPES.includes(ext as DocType) ? ext : body.type || 'pdf') as DocType;
+        const conta = body.contaId ? await findConta(body.contaId) : null;
+        if (body.contaId && !conta) {
+            return { status: 404, jsonBody: { error: `Conta "${body.contaId}" não encontrada.` } };
+        }
+        // Conta cartão: o arquivo é uma fatura — compras itemizadas, pagamento da fatura descartado
+        const isCard = conta?.tipo === 'cartao';
+        if (docType === 'txt' && !isCard) {
+            return { status: 400, jsonBody: { error: 'Texto de fatura só é aceito com "contaId" de uma conta cartão.' } };
+        }
+
+        const bytes = Buffer.from(body.contentBase64, 'base64');
+        const stored = await saveDocument(bytes, body.filename);
 
         const agents = new GuardianAgents();
+        let results: AnalysisResult[];
+        let fatura: CardInvoice | undefined;
 
-        const doc: ImportedDocument = {
-            id: generateId('UPL'),
-            name: body.filename,
-            type: docType,
-            source: 'manual_import',
-            contentUrl: `data:application/${docType};base64,${body.contentBase64.substring(0, 100)}...`,
-            size: fileSize,
-            uploadedAt: nowISO(),
-        };
+        if (isStatementType(docType)) {
+            const imported = await importStatement(agents, {
+                docType, bytes, nome: body.filename, origem: 'upload', documentId: stored.id,
+                contaId: body.contaId, isCard, vencimento: body.vencimento, profileId: body.profileId,
+            });
+            if (isImportError(imported)) {
+                return { status: imported.status, jsonBody: { error: imported.error } };
+            }
+            ({ results, fatura } = imported);
+        } else {
+            const doc: ImportedDocument = {
+                id: generateId('UPL'),
+                name: body.filename,
+                type: docType as ImportedDocument['type'],
+                source: 'manual_import',
+                contentUrl: `/api/guardianDocuments/${stored.id}`,
+                size: bytes.length,
+                uploadedAt: nowISO(),
+                content: bytes,
+                documentId: stored.id,
+            };
 
-        logger.info(`Processando upload: ${body.filename} (${docType}, ~${Math.round(fileSize / 1024)}KB)`);
+            logger.info(`Processando upload: ${body.filename} (${docType}, ~${Math.round(bytes.length / 1024)}KB)`);
 
-        const results = await agents.extractData(doc);
+            results = await agents.extractData(doc);
 
-        for (const res of results) {
-            await agents.audit(res);
-            await createGuardianAuth(toGuardianAuth(res, nowISO(), 'upload'));
+            for (const res of results) {
+                await agents.audit(res);
+                await createGuardianAuth(toGuardianAuth(res, nowISO(), 'upload'));
+            }
         }
 
         return {
             status: 200,
             jsonBody: {
                 success: true,
+                documentId: stored.id,
                 count: results.length,
                 results: results.map(r => ({
                     id: r.id,
@@ -62,6 +99,7 @@ export async function guardianUploadHandler(
                     confidence: r.confidence,
                     needsReview: r.needsReview,
                 })),
+                fatura: fatura ? { vencimento: fatura.vencimento, total: fatura.total } : undefined,
                 message: `${results.length} item(ns) extraído(s) de ${body.filename} e enviado(s) para decisão.`,
             },
         };
@@ -0,0 +1,91 @@
+import { GuardianAuthorization } from '../shared/types';
+import { ContaCorrente } from '../shared/areas';
+import { getAllAuthorizations } from '../storage/tableClient';
+import { getCadastroRecords, getConfig } from '../storage/areaTableClient';
+
+export interface AccountBalance {
+    contaId: string;
+    nome: string;
+    banco: string;
+    tipo: ContaCorrente['tipo'];
+    saldoInicial: number;
+    /** Data do saldo inicial (YYYY-MM-DD) — null quando nunca informada (considera todo o histórico) */
+    dataReferencia: string | null;
+    creditos: number;
+    debitos: number;
+    saldoAtual: number;
+    lancamentos: number;
+}
+
+/**
+ * Running balance per account: saldoInicial + créditos − débitos desde a data de referência.
+ * O saldo inicial é o do início do dia de referência, então lançamentos dessa data entram.
+ * Conta todo lançamento bancário não rejeitado — pendente de classificação ou não, o dinheiro já se moveu.
+ * Partes de rateio não contam: o movimento é a transação original.
+ * Em contas cartão as compras são débitos: saldo negativo é a fatura em aberto.
+ * Com `ate`, é o saldo ao fim daquele dia (snapshot de fechamento).
+ */
+export function computeAccountBalances(
+    contas: ContaCorrente[],
+    auths: GuardianAuthorization[],
+    defaultDataReferencia: string | null = null,
+    ate: string | null = null
+): AccountBalance[] {
+    return contas.filter(c => c.ativa !== false).map(conta => {
+        const dataReferencia = conta.dataSaldoInicial || defaultDataReferencia;
+        const movimentos = auths.filter(a =>
+            a.contaId === conta.id
+            && a.tipo === 'transaction'
+            && a.status !== 'rejeitado'
+            && !a.parentId
+            && !!a.direcao
+            && (!dataReferencia || movementDate(a) >= dataReferencia)
+            && (!ate || movementDate(a) <= ate)
+        );
+
+        const creditos = round2(movimentos.filter(a => a.direcao === 'CREDITO').reduce((s, a) => s + a.valor, 0));
+        const debitos = round2(movimentos.filter(a => a.direcao === 'DEBITO').reduce((s, a) => s + a.valor, 0));
+        const saldoInicial = Number(conta.saldoInicial) || 0;
+
+        return {
+            contaId: conta.id,
+            nome: conta.nome,
+            banco: conta.banco,
+            tipo: conta.tipo,
+            saldoInicial,
+            dataReferencia,
+            creditos,
+            debitos,
+            saldoAtual: round2(saldoInicial + creditos - debitos),
+            lancamentos: movimentos.length,
+        };
+    });
+}
+
+/** Loads accounts and authorizations and computes every active account's balance (optionally as of `ate`) */
+export async function getAccountBalances(ate: string | null = null): Promise<AccountBalance[]> {
+    const [contas, auths, dataRef] = await Promise.all([
+        getCadastroRecords<ContaCorrente>('contas'),
+        getAllAuthorizations(),
+        getConfig('CC_DATA_REFERENCIA'),
+    ]);
+    return computeAccountBalances(contas, auths, dataRef, ate);
+}
+
+/** Caixa = soma das contas, exceto cartões: fatura em aberto é passivo, não dinheiro disponível */
+export function totalCash(balances: AccountBalance[]): number {
+    return round2(balances.filter(b => b.tipo !== 'cartao').reduce((s, b) => s + b.saldoAtual, 0));
+}
+
+export async function findConta(contaId: string): Promise<ContaCorrente | null> {
+    const contas = await getCadastroRecords<ContaCorrente>('contas');
+    return contas.find(c => c.id === contaId) || null;
+}
+
+function movementDate(a: GuardianAuthorization): string {
+    return (a.dataPagamento || a.data || a.criadoEm).substring(0, 10);
+}
+
+function round2(v: number): number {
+    return Math.round(v * 100) / 100;
+}
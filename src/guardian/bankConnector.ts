@@ -0,0 +1,95 @@
+import { createLogger } from '../shared/utils';
+import { ContaCorrente, ConectorTipo } from '../shared/areas';
+import { getCadastroRecords } from '../storage/areaTableClient';
+import { InterConnector, InterBalance, InterTransaction } from './interConnector';
+import { FileDropConnector } from './fileDropConnector';
+
+const logger = createLogger('BankConnector');
+
+export const VALID_CONECTORES: ConectorTipo[] = ['inter', 'ofx_drop'];
+
+/** Fonte de saldo e extrato de uma conta (API do banco, arquivos OFX depositados...) */
+export interface BankConnector {
+    readonly tipo: ConectorTipo;
+    isConfigured(): boolean;
+    getBalance(): Promise<InterBalance>;
+    syncStatement(startDate: string, endDate: string): Promise<InterTransaction[]>;
+}
+
+/** Uma conta com o conector que a alimenta */
+export interface BoundAccount {
+    /** ContaCorrente id — also keys the sync cursor (ACCOUNT:<id>) */
+    contaId: string;
+    nome: string;
+    connector: BankConnector;
+}
+
+/** Legacy single-account setup: env-configured Inter without any ContaCorrente bound */
+export const LEGACY_INTER_ACCOUNT_ID = 'INTER';
+
+/**
+ * Connector rules for saving an account. The Inter API credentials come from the environment and
+ * point at one account, so only one ContaCorrente may use 'inter'.
+ */
+export function validateConector(conta: Pick<ContaCorrente, 'id' | 'conector' | 'ativa'>, contas: ContaCorrente[]): string | null {
+    if (!conta.conector) return null;
+    if (!VALID_CONECTORES.includes(conta.conector)) return `Conector invalido: ${conta.conector}. Use: ${VALID_CONECTORES.join(', ')}`;
+    const outra = conta.conector === 'inter' && conta.ativa !== false
+        && contas.find(c => c.id !== conta.id && c.conector === 'inter' && c.ativa !== false);
+    return outra ? `Conector inter ja vinculado a conta "${outra.id}" (as credenciais do Inter valem para uma conta so).` : null;
+}
+
+export function createConnector(conta: ContaCorrente): BankConnector | null {
+    switch (conta.conector) {
+        case 'inter': return new InterConnector();
+        case 'ofx_drop': return new FileDropConnector(conta.id);
+        default: return null;
+    }
+}
+
+/**
+ * Active accounts bound to a connector. When no account is bound yet, falls back to
+ * the env-configured Inter account so existing deployments keep syncing.
+ */
+export async function getBoundAccounts(): Promise<BoundAccount[]> {
+    const contas = await getCadastroRecords<ContaCorrente>('contas');
+    const bound: BoundAccount[] = [];
+    for (const conta of contas.filter(c => c.ativa !== false)) {
+        // Um segundo vínculo 'inter' leria o mesmo extrato e somaria o mesmo saldo duas vezes
+        const interVinculado = bound.find(b => b.connector.tipo === 'inter');
+        if (conta.conector === 'inter' && interVinculado) {
+            logger.warn(`Conta ${conta.id} ignorada: conector inter já vinculado a ${interVinculado.contaId}`);
+            continue;
+        }
+        const connector = createConnector(conta);
+        if (connector) bound.push({ contaId: conta.id, nome: conta.nome, connector });
+    }
+
+    if (bound.length === 0) {
+        const inter = new InterConnector();
+        if (inter.isConfigured()) {
+            logger.info('Nenhuma conta vinculada a conector — usando Inter configurado no ambiente');
+            bound.push({ contaId: LEGACY_INTER_ACCOUNT_ID, nome: 'Banco Inter', connector: inter });
+        }
+    }
+    return bound;
+}
+
+/** Sum of the live balances of all bound accounts; throws when none of them answers */
+export async function getTotalBankBalance(): Promise<number> {
+    const accounts = await getBoundAccounts();
+    const results = await Promise.allSettled(accounts.map(a => a.connector.getBalance()));
+
+    let total = 0;
+    let answered = 0;
+    results.forEach((r, i) => {
+        if (r.status === 'fulfilled') {
+            total += r.value.total;
+            answered++;
+        } else {
+            logger.warn(`Saldo indisponível (${accounts[i].nome}): ${String(r.reason)}`);
+        }
+    });
+    if (answered === 0) throw new Error('Nenhuma conta vinculada respondeu com saldo');
+    return total;
+}
@@ -0,0 +1,145 @@
+import { createLogger, generateId, nowISO } from '../shared/utils';
+import { OrcamentoVersao } from '../shared/types';
+import { Categoria } from '../shared/areas';
+import { getOrcamentoVersoes, upsertOrcamentoVersao } from '../storage/tableClient';
+
+const logger = createLogger('BudgetPlanning');
+
+const MESES = 12;
+
+/** Alteração pontual da edição em massa: uma categoria, um mês (1-12) */
+export interface OrcamentoAlteracao {
+    categoria: string;
+    mes: number;
+    valor: number;
+}
+
+/** The active version of each fiscal year */
+export function activeVersionsByYear(versoes: OrcamentoVersao[]): Map<number, OrcamentoVersao> {
+    return new Map(versoes.filter(v => v.ativa).map(v => [Number(v.ano), v]));
+}
+
+/**
+ * Budget per category for a 'YYYY-MM' month: the year's active version when there is one,
+ * otherwise the flat Categoria.orcamentoMensal (years planned before versions existed).
+ */
+export function monthlyBudgets(categorias: Categoria[], versao: OrcamentoVersao | null, periodo: string): Map<string, number> {
+    if (versao) {
+        const mes = parseInt(periodo.substring(5, 7), 10) - 1;
+        return new Map(Object.entries(versao.valores || {}).map(([categoria, valores]) => [categoria, valores[mes] || 0]));
+    }
+    return new Map(categorias.filter(c => c.ativa && c.orcamentoMensal > 0).map(c => [c.nome, c.orcamentoMensal]));
+}
+
+/** Twelve months of each category's flat budget — the starting point when no prior version exists */
+export function baselineValores(categorias: Categoria[]): Record<string, number[]> {
+    const valores: Record<string, number[]> = {};
+    for (const c of categorias.filter(c => c.ativa && c.orcamentoMensal > 0)) {
+        valores[c.nome] = Array(MESES).fill(c.orcamentoMensal);
+    }
+    return valores;
+}
+
+export function adjustValores(valores: Record<string, number[]>, ajustePct: number): Record<string, number[]> {
+    const fator = 1 + ajustePct / 100;
+    const ajustados: Record<string, number[]> = {};
+    for (const [categoria, meses] of Object.entries(valores)) {
+        ajustados[categoria] = meses.map(v => Math.round(v * fator * 100) / 100);
+    }
+    return ajustados;
+}
+
+/** Full rows: each category maps to 12 non-negative numbers */
+export function validateValores(valores: unknown, categorias: Set<string>): string | null {
+    if (!valores || typeof valores !== 'object' || Array.isArray(valores)) return 'Campo "valores" deve ser um objeto { categoria: [12 valores] }.';
+    for (const [categoria, meses] of Object.entries(valores as Record<string, unknown>)) {
+        if (!categorias.has(categoria)) return `Categoria "${categoria}" não cadastrada.`;
+        if (!Array.isArray(meses) || meses.length !== MESES) return `Categoria "${categoria}": informe 12 valores (janeiro a dezembro).`;
+        if (meses.some(v => typeof v !== 'number' || !(v >= 0))) return `Categoria "${categoria}": valores devem ser números não negativos.`;
+    }
+    return null;
+}
+
+export function validateAlteracoes(alteracoes: unknown, categorias: Set<string>): string | null {
+    if (!Array.isArray(alteracoes) || alteracoes.length === 0) return 'Campo "alteracoes" deve ser uma lista não vazia.';
+    for (const [i, a] of (alteracoes as Partial<OrcamentoAlteracao>[]).entries()) {
+        if (!a || !a.categoria || !categorias.has(a.categoria)) return `Alteração ${i + 1}: categoria "${a?.categoria ?? ''}" não cadastrada.`;
+        if (!Number.isInteger(a.mes) || a.mes! < 1 || a.mes! > MESES) return `Alteração ${i + 1}: "mes" deve ser de 1 a 12.`;
+        if (typeof a.valor !== 'number' || !(a.valor >= 0)) return `Alteração ${i + 1}: "valor" deve ser um número não negativo.`;
+    }
+    return null;
+}
+
+/** Rows replace a category's 12 months; alterações set single cells on top */
+export function mergeValores(atual: Record<string, number[]>, linhas: Record<string, number[]>, alteracoes: OrcamentoAlteracao[]): Record<string, number[]> {
+    const valores: Record<string, number[]> = {};
+    for (const [categoria, meses] of Object.entries({ ...atual, ...linhas })) valores[categoria] = [...meses];
+    for (const a of alteracoes) {
+        valores[a.categoria] = valores[a.categoria] || Array(MESES).fill(0);
+        valores[a.categoria][a.mes - 1] = a.valor;
+    }
+    return valores;
+}
+
+/** New version for the year; the first one of the year becomes active */
+export async function createVersion(
+    ano: number,
+    nome: string,
+    valores: Record<string, number[]>,
+    origem?: { versaoId?: string; ajustePct: number }
+): Promise<OrcamentoVersao> {
+    const doAno = await getOrcamentoVersoes(ano);
+    const versao: OrcamentoVersao = {
+        id: generateId('ORC'),
+        ano,
+        nome,
+        ativa: doAno.length === 0,
+        criadoEm: nowISO(),
+        origemVersaoId: origem?.versaoId,
+        ajustePct: origem?.ajustePct,
+        valoresJson: JSON.stringify(valores),
+        valores,
+    };
+    await upsertOrcamentoVersao(versao);
+    logger.info(`Orçamento ${ano} "${nome}" criado${versao.ativa ? ' (ativo)' : ''}`);
+    return versao;
+}
+
+/**
+ * Copies a version (default: the prior year's active one, or the flat category budgets when the
+ * prior year was never planned) into `ano`, applying `ajustePct` to every month.
+ */
+export async function copyFromPriorYear(
+    ano: number,
+    nome: string,
+    ajustePct: number,
+    categorias: Categoria[],
+    origem?: OrcamentoVersao
+): Promise<OrcamentoVersao> {
+    const base = origem || activeVersionsByYear(await getOrcamentoVersoes(ano - 1)).get(ano - 1);
+    const valores = adjustValores(base ? base.valores || {} : baselineValores(categorias), ajustePct);
+    return createVersion(ano, nome, valores, { versaoId: base?.id, ajustePct });
+}
+
+/** Makes `versao` the one used for comparisons in its year */
+export async function activateVersion(versao: OrcamentoVersao): Promise<OrcamentoVersao> {
+    for (const outra of (await getOrcamentoVersoes(Number(versao.ano))).filter(v => v.ativa && v.id !== versao.id)) {
+        await upsertOrcamentoVersao({ ...outra, ativa: false, atualizadoEm: nowISO() });
+    }
+    const ativa = { ...versao, ativa: true, atualizadoEm: nowISO() };
+    await upsertOrcamentoVersao(ativa);
+    logger.info(`Orçamento ${versao.ano}: versão "${versao.nome}" ativada`);
+    return ativa;
+}
+
+export async function updateVersionValues(versao: OrcamentoVersao, valores: Record<string, number[]>, nome?: string): Promise<OrcamentoVersao> {
+    const atualizada: OrcamentoVersao = {
+        ...versao,
+        nome: nome || versao.nome,
+        valoresJson: JSON.stringify(valores),
+        valores,
+        atualizadoEm: nowISO(),
+    };
+    await upsertOrcamentoVersao(atualizada);
+    return atualizada;
+}
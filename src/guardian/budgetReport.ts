@@ -0,0 +1,117 @@
+import { GuardianAuthorization } from '../shared/types';
+import { Categoria, CategoriaTipo } from '../shared/areas';
+import { competenciaDate, monthRange } from './reportPeriod';
+
+/** Orçado x realizado de uma linha (categoria, grupo, tipo ou total) */
+export interface BudgetLine {
+    chave: string;
+    tipo?: CategoriaTipo;
+    orcado: number;
+    realizado: number;
+    /** realizado − orçado */
+    variacao: number;
+    /** variação sobre o orçado; null quando não há orçamento */
+    variacaoPct: number | null;
+    /** Quanto do orçamento já foi consumido no mês (%) */
+    consumoPct: number | null;
+    /** Realizado extrapolado para o fim do mês pelo ritmo atual */
+    projecao: number;
+    /** Receita acima ou custo abaixo do orçado */
+    favoravel: boolean;
+}
+
+export interface BudgetMonth {
+    periodo: string;
+    diasNoMes: number;
+    diasDecorridos: number;
+    /** Fração do mês já decorrida (%) — referência para o consumo */
+    mesDecorridoPct: number;
+    porCategoria: BudgetLine[];
+    porGrupo: BudgetLine[];
+    porTipo: BudgetLine[];
+}
+
+/** DRE tipos that carry a monthly budget; internal transfers never enter the DRE */
+const BUDGET_TIPOS: CategoriaTipo[] = ['RECEITA_DIRETA', 'RECEITA_FINANCEIRA', 'CUSTO_VARIAVEL', 'CUSTO_FIXO', 'DESPESA_FINANCEIRA'];
+const RECEITA_TIPOS: CategoriaTipo[] = ['RECEITA_DIRETA', 'RECEITA_FINANCEIRA'];
+
+/**
+ * Budget vs actual for a 'YYYY-MM' month, by competência. `items` are the approved reporting items
+ * (split parents already replaced by their lines); `orcamentos` the month's budget per category
+ * (see monthlyBudgets). `hoje` drives the month-to-date projection: past months project their
+ * actual, future months project nothing yet.
+ */
+export function buildBudgetMonth(
+    items: GuardianAuthorization[],
+    categorias: Categoria[],
+    orcamentos: Map<string, number>,
+    periodo: string,
+    hoje: string
+): BudgetMonth {
+    const { fim } = monthRange(periodo);
+    const diasNoMes = parseInt(fim.substring(8, 10), 10);
+    const mesAtual = hoje.substring(0, 7);
+    const diasDecorridos = periodo < mesAtual ? diasNoMes : periodo > mesAtual ? 0 : parseInt(hoje.substring(8, 10), 10);
+    const ritmo = diasDecorridos > 0 ? diasNoMes / diasDecorridos : 0;
+
+    const orcadas = categorias.filter(c => BUDGET_TIPOS.includes(c.tipo));
+    const realizadoPorCategoria = new Map<string, number>();
+    for (const i of items) {
+        if (competenciaDate(i).substring(0, 7) !== periodo) continue;
+        realizadoPorCategoria.set(i.classificacao, (realizadoPorCategoria.get(i.classificacao) || 0) + i.valor);
+    }
+
+    const line = (chave: string, tipo: CategoriaTipo | undefined, receita: boolean, cats: Categoria[]): BudgetLine => {
+        const orcado = round2(cats.reduce((s, c) => s + (orcamentos.get(c.nome) || 0), 0));
+        const realizado = round2(cats.reduce((s, c) => s + (realizadoPorCategoria.get(c.nome) || 0), 0));
+        const variacao = round2(realizado - orcado);
+        return {
+            chave,
+            tipo,
+            orcado,
+            realizado,
+            variacao,
+            variacaoPct: orcado > 0 ? round2((variacao / orcado) * 100) : null,
+            consumoPct: orcado > 0 ? round2((realizado / orcado) * 100) : null,
+            projecao: round2(realizado * ritmo),
+            favoravel: receita ? realizado >= orcado : realizado <= orcado,
+        };
+    };
+
+    // Só entra quem tem orçamento ou movimento no mês
+    const relevantes = orcadas.filter(c => (orcamentos.get(c.nome) || 0) > 0 || realizadoPorCategoria.has(c.nome));
+    const porCategoria = relevantes.map(c => line(c.nome, c.tipo, RECEITA_TIPOS.includes(c.tipo), [c]));
+
+    const grupos = new Map<string, Categoria[]>();
+    for (const c of relevantes) grupos.set(`${c.tipo}|${c.grupo}`, [...(grupos.get(`${c.tipo}|${c.grupo}`) || []), c]);
+    const porGrupo = [...grupos.entries()].map(([key, cats]) => line(key.split('|')[1], cats[0].tipo, RECEITA_TIPOS.includes(cats[0].tipo), cats));
+
+    const porTipo = BUDGET_TIPOS
+        .map(tipo => line(tipo, tipo, RECEITA_TIPOS.includes(tipo), relevantes.filter(c => c.tipo === tipo)))
+        .filter(l => l.orcado > 0 || l.realizado > 0);
+
+    return {
+        periodo,
+        diasNoMes,
+        diasDecorridos,
+        mesDecorridoPct: round2((diasDecorridos / diasNoMes) * 100),
+        porCategoria,
+        porGrupo,
+        porTipo,
+    };
+}
+
+/** Consecutive 'YYYY-MM' months from `de` to `ate` (inclusive) */
+export function monthsBetween(de: string, ate: string): string[] {
+    const meses: string[] = [];
+    let [y, m] = de.split('-').map(Number);
+    while (`${y}-${String(m).padStart(2, '0')}` <= ate) {
+        meses.push(`${y}-${String(m).padStart(2, '0')}`);
+        if (++m > 12) { m = 1; y++; }
+    }
+    return meses;
+}
+
+function round2(v: number): number {
+    return Math.round(v * 100) / 100;
+}
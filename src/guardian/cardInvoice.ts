@@ -0,0 +1,89 @@
+import { createLogger, generateId } from '../shared/utils';
+import { InterTransaction } from './interConnector';
+
+const logger = createLogger('CardInvoice');
+
+/** Fatura de cartão lida de OFX/CSV/texto do PDF — compras itemizadas na conta cartão */
+export interface CardInvoice {
+    /** Vencimento da fatura (YYYY-MM-DD) — quando as compras saem do caixa */
+    vencimento?: string;
+    /** Total declarado na fatura, para conferência */
+    total?: number;
+    transactions: InterTransaction[];
+}
+
+/**
+ * Drops the invoice payment lines ("PAGAMENTO EFETUADO", "PGTO FATURA") from a card statement.
+ * The payment is booked on the bank side and settles the card via a transfer — keeping it here
+ * would count it twice. Estornos stay as credits on the card.
+ */
+export function cardPurchases(transactions: InterTransaction[]): InterTransaction[] {
+    return transactions.filter(t => !(t.tipo === 'CREDITO' && isInvoicePayment(t.descricao)));
+}
+
+export function isInvoicePayment(descricao: string): boolean {
+    return /\b(PAGAMENTO|PGTO|PAGTO)\b/.test((descricao || '').toUpperCase());
+}
+
+/**
+ * Parses the text of a card invoice PDF (copied or exported as .txt).
+ * Purchase lines look like `15/09 NETFLIX.COM 55,90` or `15/09/2026 LATAM AIR 03/10 412,30`;
+ * negative amounts (or a trailing "-") are credits. Lines without a leading date are ignored.
+ * Installment n/N is booked n−1 months after the purchase date, in the month it is charged.
+ */
+export function parseCardInvoiceText(text: string): CardInvoice {
+    const vencMatch = text.match(/VENCIMENTO[^\d]{0,30}(\d{2})\/(\d{2})\/(\d{4})/i);
+    const vencimento = vencMatch ? `${vencMatch[3]}-${vencMatch[2]}-${vencMatch[1]}` : undefined;
+    const totalMatch = text.match(/TOTAL\s+(?:DA\s+FATURA|A\s+PAGAR)[^\d-]{0,30}(-?[\d.]+,\d{2})/i);
+    const total = totalMatch ? parseAmount(totalMatch[1]) : undefined;
+
+    const transactions: InterTransaction[] = [];
+    for (const rawLine of text.split(/\r?\n/)) {
+        const line = rawLine.replace(/\s+/g, ' ').trim();
+        const m = line.match(/^(\d{2})\/(\d{2})(?:\/(\d{4}|\d{2}))? (.+?) (-)?\s?(?:R\$ ?)?(-?\d{1,3}(?:\.\d{3})*,\d{2})( ?-)?$/);
+        if (!m) continue;
+
+        const [, dd, mm, yy, desc, signBefore, amountStr, signAfter] = m;
+        const amount = parseAmount(amountStr);
+        const descricao = desc.trim();
+        if (!amount || /\b(TOTAL|SALDO ANTERIOR)\b/i.test(descricao)) continue;
+
+        const year = yy ? (yy.length === 2 ? `20${yy}` : yy) : inferYear(Number(mm), vencimento);
+        const installment = descricao.match(/(?:PARC(?:ELA)?\.? ?)?(\d{1,2}) ?\/ ?(\d{1,2})$/i);
+        const shift = installment && Number(installment[1]) <= Number(installment[2]) ? Number(installment[1]) - 1 : 0;
+
+        const credit = amount < 0 || !!signBefore || !!signAfter;
+        transactions.push({
+            id: generateId('FAT'),
+            data: addMonths(`${year}-${mm}-${dd}`, shift),
+            tipo: credit ? 'CREDITO' : 'DEBITO',
+            valor: Math.abs(amount),
+            descricao,
+        });
+    }
+
+    const purchases = cardPurchases(transactions);
+    logger.info(`Fatura (texto): ${purchases.length} lançamentos, vencimento ${vencimento || 'n/d'}`);
+    return { vencimento, total, transactions: purchases };
+}
+
+/** Invoice lines without a year belong to the months before the due date */
+function inferYear(month: number, vencimento?: string): string {
+    const ref = vencimento ? new Date(vencimento + 'T00:00:00Z') : new Date();
+    const refYear = ref.getUTCFullYear();
+    return String(month > ref.getUTCMonth() + 1 ? refYear - 1 : refYear);
+}
+
+function addMonths(date: string, months: number): string {
+    if (months === 0) return date;
+    const [y, m, d] = date.split('-').map(Number);
+    const target = new Date(Date.UTC(y, m - 1 + months, 1));
+    const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+    target.setUTCDate(Math.min(d, lastDay));
+    return target.toISOString().substring(0, 10);
+}
+
+function parseAmount(value: string): number {
+    const n = parseFloat(value.replace(/\./g, '').replace(',', '.'));
+    return isNaN(n) ? 0 : n;
+}
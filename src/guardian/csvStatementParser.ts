@@ -0,0 +1,178 @@
+import { createLogger, generateId } from '../shared/utils';
+import { CsvMappingProfile } from '../shared/types';
+import { InterTransaction } from './interConnector';
+
+const logger = createLogger('CsvStatementParser');
+
+/** Valores da coluna de direção tratados como entrada quando o perfil não define os seus */
+const DEFAULT_CREDIT_VALUES = ['C', 'CR', 'CREDITO', 'CRÉDITO', 'ENTRADA', 'RECEBIMENTO'];
+
+const SUPPORTED_DATE_FORMATS = ['DD/MM/YYYY', 'DD/MM/YY', 'DD-MM-YYYY', 'DD.MM.YYYY', 'YYYY-MM-DD', 'MM/DD/YYYY'];
+
+export interface CsvParseResult {
+    transactions: InterTransaction[];
+    /** Linhas de dados descartadas (rodapés, saldos, linhas com data/valor inválidos) */
+    skipped: number;
+}
+
+/** Returns the first validation error of a mapping profile, or null when it is usable */
+export function validateCsvProfile(profile: Partial<CsvMappingProfile>): string | null {
+    if (!profile.id || !profile.nome) return 'Campos "id" e "nome" são obrigatórios.';
+    if (!profile.delimitador) return 'Campo "delimitador" é obrigatório.';
+    if (profile.separadorDecimal !== ',' && profile.separadorDecimal !== '.') return 'Campo "separadorDecimal" deve ser "," ou ".".';
+    if (profile.encoding && profile.encoding !== 'utf8' && profile.encoding !== 'latin1') return 'Campo "encoding" deve ser "utf8" ou "latin1".';
+    if (!profile.formatoData || !SUPPORTED_DATE_FORMATS.includes(profile.formatoData)) {
+        return `Campo "formatoData" inválido. Use: ${SUPPORTED_DATE_FORMATS.join(', ')}`;
+    }
+    if (profile.colunaData === undefined || profile.colunaDescricao === undefined || profile.colunaValor === undefined) {
+        return 'Campos "colunaData", "colunaDescricao" e "colunaValor" são obrigatórios.';
+    }
+    return null;
+}
+
+/**
+ * Parses a bank CSV extract into transactions according to a saved mapping profile. Returns an
+ * error message when the file does not have the columns the profile maps.
+ */
+export function parseCsvStatement(content: string, profile: CsvMappingProfile): CsvParseResult | string {
+    const rows = splitRows(content.replace(/^\uFEFF/, ''), profile.delimitador)
+        .slice(profile.linhasIgnorar || 0)
+        .filter(r => r.some(c => c.trim() !== ''));
+
+    const header = profile.possuiCabecalho ? rows.shift() || [] : [];
+    const idxData = resolveColumn(profile.colunaData, header);
+    const idxDescricao = resolveColumn(profile.colunaDescricao, header);
+    const idxValor = resolveColumn(profile.colunaValor, header);
+    const idxDirecao = profile.colunaDirecao !== undefined && profile.colunaDirecao !== ''
+        ? resolveColumn(profile.colunaDirecao, header)
+        : -1;
+
+    if (idxData < 0 || idxDescricao < 0 || idxValor < 0) {
+        return `Perfil "${profile.nome}": coluna de data, descrição ou valor não encontrada no arquivo.`;
+    }
+
+    const creditValues = (profile.valoresCredito && profile.valoresCredito.length > 0 ? profile.valoresCredito : DEFAULT_CREDIT_VALUES)
+        .map(v => v.trim().toUpperCase());
+
+    const transactions: InterTransaction[] = [];
+    let skipped = 0;
+
+    for (const row of rows) {
+        const data = parseDate(row[idxData] || '', profile.formatoData);
+        const amount = parseAmount(row[idxValor] || '', profile.separadorDecimal);
+        const descricao = (row[idxDescricao] || '').trim();
+        if (!data || amount === null || amount === 0 || !descricao) {
+            skipped++;
+            continue;
+        }
+
+        let tipo: 'CREDITO' | 'DEBITO';
+        if (idxDirecao >= 0) {
+            tipo = creditValues.includes((row[idxDirecao] || '').trim().toUpperCase()) ? 'CREDITO' : 'DEBITO';
+        } else {
+            tipo = (amount > 0) !== !!profile.sinalInvertido ? 'CREDITO' : 'DEBITO';
+        }
+
+        transactions.push({
+            id: generateId('CSV'),
+            data,
+            tipo,
+            valor: Math.abs(amount),
+            descricao,
+        });
+    }
+
+    logger.info(`CSV (${profile.nome}): ${transactions.length} transações, ${skipped} linhas ignoradas`);
+    return { transactions, skipped };
+}
+
+/** RFC 4180-style splitter: quoted fields may contain the delimiter, quotes ("") and line breaks */
+function splitRows(content: string, delimiter: string): string[][] {
+    const sep = delimiter === '\\t' ? '\t' : delimiter;
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < content.length; i++) {
+        const ch = content[i];
+        if (inQuotes) {
+            if (ch === '"' && content[i + 1] === '"') { field += '"'; i++; }
+            else if (ch === '"') inQuotes = false;
+            else field += ch;
+        } else if (ch === '"') {
+            inQuotes = true;
+        } else if (content.startsWith(sep, i)) {
+            row.push(field);
+            field = '';
+            i += sep.length - 1;
+        } else if (ch === '\n' || ch === '\r') {
+            if (ch === '\r' && content[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += ch;
+        }
+    }
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows;
+}
+
+/** Column reference: header name (case/accent-insensitive) or 0-based index */
+function resolveColumn(ref: string | number, header: string[]): number {
+    if (typeof ref === 'number') return ref;
+    if (/^\d+$/.test(ref.trim())) return parseInt(ref.trim(), 10);
+    const wanted = normalizeHeader(ref);
+    return header.findIndex(h => normalizeHeader(h) === wanted);
+}
+
+function normalizeHeader(value: string): string {
+    return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toUpperCase();
+}
+
+function parseDate(value: string, format: string): string | null {
+    const order: string[] = [];
+    const pattern = format
+        .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+        .replace(/YYYY|YY|MM|DD/g, token => {
+            order.push(token);
+            return token === 'YYYY' ? '(\\d{4})' : token === 'YY' ? '(\\d{2})' : '(\\d{1,2})';
+        });
+    const m = value.trim().match(new RegExp(`^${pattern}`));
+    if (!m) return null;
+
+    let year = '', month = '', day = '';
+    order.forEach((token, i) => {
+        const part = m[i + 1];
+        if (token === 'YYYY') year = part;
+        else if (token === 'YY') year = '20' + part;
+        else if (token === 'MM') month = part.padStart(2, '0');
+        else day = part.padStart(2, '0');
+    });
+
+    const iso = `${year}-${month}-${day}`;
+    return isNaN(new Date(iso).getTime()) ? null : iso;
+}
+
+/** "R$ -1.234,56", "(1.234,56)" and "1234,56-" are all read as -1234.56 */
+function parseAmount(value: string, decimalSeparator: ',' | '.'): number | null {
+    let v = value.replace(/R\$|\s/g, '');
+    if (!v) return null;
+
+    let negative = false;
+    if (/^\(.*\)$/.test(v)) { negative = true; v = v.slice(1, -1); }
+    if (v.endsWith('-')) { negative = true; v = v.slice(0, -1); }
+
+    const thousands = decimalSeparator === ',' ? '.' : ',';
+    v = v.split(thousands).join('');
+    if (decimalSeparator === ',') v = v.replace(',', '.');
+
+    const n = parseFloat(v);
+    if (isNaN(n)) return null;
+    return negative ? -Math.abs(n) : n;
+}
@@ -0,0 +1,105 @@
+import { createLogger, nowISO } from '../shared/utils';
+import { ContaPagar } from '../shared/types';
+import { SimplesAnexo, TaxConfig, rbt12, simplesRate } from './taxRegime';
+import { addMonths, shiftBusinessDay, upsertExpectedPayables } from './payables';
+
+const logger = createLogger('DASEstimator');
+
+export const DAS_FORNECEDOR = 'Receita Federal (DAS)';
+/** Categoria do título a pagar (e do débito que o quita) — própria, para a DRE não contar o DAS duas vezes */
+export const DAS_CATEGORIA = process.env.GUARDIAN_DAS_CATEGORIA || 'DAS Simples Nacional';
+/** DAS vence no dia 20 do mês seguinte à competência */
+const DAS_DIA_VENCIMENTO = 20;
+
+/** Memória de cálculo do DAS de uma competência */
+export interface DASEstimate {
+    periodo: string;
+    anexo: SimplesAnexo;
+    /** Receita bruta (RECEITA_DIRETA) da competência */
+    receitaBruta: number;
+    /** Receita dos 12 meses anteriores (anualizada enquanto o histórico for menor) */
+    rbt12: number;
+    faixa: number;
+    aliquotaNominal: number;
+    parcelaDeduzir: number;
+    aliquotaEfetiva: number;
+    valorDAS: number;
+    vencimento: string;
+}
+
+/** Deterministic id per competência, so regenerating updates the same title */
+export function dasPayableId(periodo: string): string {
+    return `DAS_${periodo}`;
+}
+
+/** Day 20 of the month after the competência; weekends move to Monday (Resolução CGSN 140/2018, art. 40) */
+export function dasDueDate(periodo: string): string {
+    return shiftBusinessDay(addMonths(`${periodo}-${DAS_DIA_VENCIMENTO}`, 1), 'postergar');
+}
+
+/**
+ * DAS for a 'YYYY-MM' competência: the RBT12 of the twelve prior months picks the annex bracket,
+ * whose effective rate applies to the month's gross revenue.
+ */
+export function estimateDAS(receitaMensal: Map<string, number>, periodo: string, anexo: SimplesAnexo): DASEstimate {
+    const receitaBruta = round2(receitaMensal.get(periodo) || 0);
+    const receita12 = round2(rbt12(receitaMensal, periodo));
+    const taxa = simplesRate(anexo, receita12);
+    return {
+        periodo,
+        anexo,
+        receitaBruta,
+        rbt12: receita12,
+        faixa: taxa.faixa,
+        aliquotaNominal: taxa.aliquotaNominal,
+        parcelaDeduzir: taxa.parcelaDeduzir,
+        aliquotaEfetiva: Math.round(taxa.aliquotaEfetiva * 1e6) / 1e6,
+        valorDAS: round2(receitaBruta * taxa.aliquotaEfetiva),
+        vencimento: dasDueDate(periodo),
+    };
+}
+
+/**
+ * Items the DRE reads as costs. Under Simples the DAS is already deducted from revenue
+ * (revenueDeductions), so its payments stay out of the cost lines.
+ */
+export function dreCostItems<T extends { classificacao: string }>(items: T[], config: TaxConfig): T[] {
+    return config.regime === 'simples' ? items.filter(i => i.classificacao !== DAS_CATEGORIA) : items;
+}
+
+/** Expected payable of an estimate, under the deterministic id so regenerating updates it */
+export function dasPayable(e: DASEstimate): ContaPagar {
+    return {
+        id: dasPayableId(e.periodo),
+        fornecedor: DAS_FORNECEDOR,
+        categoria: DAS_CATEGORIA,
+        descricao: `DAS ${e.periodo} — Anexo ${e.anexo}, faixa ${e.faixa} (${(e.aliquotaEfetiva * 100).toFixed(2)}%)`,
+        valor: e.valorDAS,
+        dataCompetencia: `${e.periodo}-01`,
+        dataVencimento: e.vencimento,
+        status: 'aberto',
+        recorrencia: 'nenhuma',
+        obrigacaoId: 'DAS',
+        estimado: true,
+        palavraChave: 'DAS',
+        criadoEm: nowISO(),
+    };
+}
+
+/**
+ * Creates (or refreshes) the expected DAS payable of each estimate. Titles already paid or
+ * cancelled are left alone; months without revenue produce no title.
+ */
+export async function syncDASPayables(estimativas: DASEstimate[]): Promise<{ criados: number; atualizados: number; ignorados: number }> {
+    const comValor = estimativas.filter(e => e.valorDAS > 0);
+    const result = await upsertExpectedPayables(comValor.map(dasPayable));
+    result.ignorados += estimativas.length - comValor.length;
+    if (result.criados + result.atualizados > 0) {
+        logger.info(`DAS: ${result.criados} título(s) criado(s), ${result.atualizados} atualizado(s)`);
+    }
+    return result;
+}
+
+function round2(v: number): number {
+    return Math.round(v * 100) / 100;
+}
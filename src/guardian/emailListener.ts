@@ -1,5 +1,6 @@
 import * as https from 'https';
 import { createLogger, nowISO, generateId } from '../shared/utils';
+import { saveDocument } from '../storage/documentStore';
 
 const logger = createLogger('EmailListener');
 
@@ -14,6 +15,8 @@ export interface GuardianDocument {
         type: string;
         blobUrl: string;
         size: number;
+        /** Anexo baixado do Graph e guardado no document store */
+        documentId?: string;
     }>;
 }
 
@@ -43,18 +46,21 @@ export class EmailListener {
     private readonly graphClientSecret = process.env.GRAPH_CLIENT_SECRET || '';
     private token: string | null = null;
     private tokenExpires: number = 0;
+    /** receivedDateTime of the last message fully processed in the latest run (incremental cursor) */
+    lastProcessedAt: string | null = null;
 
     constructor(
         private readonly email: string = 'financeiro@wfinancegestao.com.br'
     ) { }
 
     /** Returns true when Microsoft Graph credentials are configured */
-    private isConfigured(): boolean {
+    isConfigured(): boolean {
         return !!(this.tenantId && this.graphClientId && this.graphClientSecret);
     }
 
-    async processIncomingEmails(): Promise<GuardianDocument[]> {
-        logger.info(`Checking mailbox for ${this.email}...`);
+    /** @param since Only messages received at/after this ISO timestamp (incremental sync) */
+    async processIncomingEmails(since?: string): Promise<GuardianDocument[]> {
+        logger.info(`Checking mailbox for ${this.email}${since ? ` since ${since}` : ''}...`);
 
         if (!this.isConfigured()) {
             logger.warn('Microsoft Graph não configurado — retornando vazio');
@@ -62,21 +68,37 @@ export class EmailListener {
         }
 
         const token = await this.getGraphToken();
-        const messages = await this.fetchUnreadMessages(token);
+        const messages = await this.fetchUnreadMessages(token, since);
         const results: GuardianDocument[] = [];
+        let cursorBlocked = false;
+        this.lastProcessedAt = null;
 
         for (const msg of messages) {
-            if (!msg.hasAttachments) continue;
+            if (!msg.hasAttachments) {
+                if (!cursorBlocked) this.lastProcessedAt = msg.receivedDateTime;
+                continue;
+            }
 
             const attachments = await this.fetchAttachments(token, msg.id);
-            const docAttachments = attachments
-                .filter(a => this.isSupportedType(a.contentType))
-                .map(a => ({
-                    name: a.name,
-                    type: a.contentType,
-                    blobUrl: `https://stguardian.blob.core.windows.net/mailbox/${generateId('ATT')}_${a.name}`,
-                    size: a.size,
-                }));
+            const docAttachments: GuardianDocument['attachments'] = [];
+            let downloadFailed = false;
+
+            for (const a of attachments.filter(a => this.isSupportedType(a.contentType))) {
+                try {
+                    const content = await this.downloadAttachment(token, msg.id, a.id);
+                    const stored = await saveDocument(content, a.name, a.contentType);
+                    docAttachments.push({
+                        name: a.name,
+                        type: a.contentType,
+                        blobUrl: `/api/guardianDocuments/${stored.id}`,
+                        size: stored.size,
+                        documentId: stored.id,
+                    });
+                } catch (error) {
+                    logger.error(`Falha ao baixar anexo ${a.name} (${msg.subject}): ${error}`);
+                    downloadFailed = true;
+                }
+            }
 
             if (docAttachments.length > 0) {
                 results.push({
@@ -89,7 +111,13 @@ export class EmailListener {
                 });
             }
 
-            await this.markAsRead(token, msg.id);
+            // Mantém como não lido para tentar de novo no próximo ciclo — e o cursor não passa dele
+            if (!downloadFailed) {
+                await this.markAsRead(token, msg.id);
+                if (!cursorBlocked) this.lastProcessedAt = msg.receivedDateTime;
+            } else {
+                cursorBlocked = true;
+            }
         }
 
         logger.info(`Processados ${results.length} emails com anexos relevantes`);
@@ -120,9 +148,13 @@ export class EmailListener {
         return this.token;
     }
 
-    private async fetchUnreadMessages(token: string): Promise<GraphMessage[]> {
+    private async fetchUnreadMessages(token: string, since?: string): Promise<GraphMessage[]> {
         const userPrincipal = encodeURIComponent(this.email);
-        const path = `/v1.0/users/${userPrincipal}/mailFolders/inbox/messages?$filter=isRead eq false&$top=50&$select=id,from,receivedDateTime,subject,hasAttachments`;
+        // Graph exige que a propriedade do $orderby seja a primeira do $filter
+        const query = since
+            ? `$filter=${encodeURIComponent(`receivedDateTime ge ${since} and isRead eq false`)}&$orderby=receivedDateTime`
+            : `$filter=${encodeURIComponent('isRead eq false')}`;
+        const path = `/v1.0/users/${userPrincipal}/mailFolders/inbox/messages?${query}&$top=50&$select=id,from,receivedDateTime,subject,hasAttachments`;
 
         const data = await this.graphGet<{ value: GraphMessage[] }>(token, path);
         return data.value || [];
@@ -136,6 +168,13 @@ export class EmailListener {
         return data.value || [];
     }
 
+    /** Raw attachment bytes — fileAttachment only ($value) */
+    private async downloadAttachment(token: string, messageId: string, attachmentId: string): Promise<Buffer> {
+        const userPrincipal = encodeURIComponent(this.email);
+        const path = `/v1.0/users/${userPrincipal}/messages/${messageId}/attachments/${attachmentId}/$value`;
+        return this.graphGetBuffer(token, path);
+    }
+
     private async markAsRead(token: string, messageId: string): Promise<void> {
         const userPrincipal = encodeURIComponent(this.email);
         const path = `/v1.0/users/${userPrincipal}/messages/${messageId}`;
@@ -165,6 +204,11 @@ export class EmailListener {
     }
 
     private async graphGet<T>(token: string, path: string): Promise<T> {
+        const body = await this.graphGetBuffer(token, path, 'application/json');
+        return JSON.parse(body.toString()) as T;
+    }
+
+    private async graphGetBuffer(token: string, path: string, accept: string = '*/*'): Promise<Buffer> {
         return new Promise((resolve, reject) => {
             const req = https.request(
                 {
@@ -173,18 +217,18 @@ export class EmailListener {
                     method: 'GET',
                     headers: {
                         Authorization: `Bearer ${token}`,
-                        Accept: 'application/json',
+                        Accept: accept,
                     },
                 },
                 (res) => {
                     const chunks: Buffer[] = [];
                     res.on('data', (chunk: Buffer) => chunks.push(chunk));
                     res.on('end', () => {
-                        const body = Buffer.concat(chunks).toString();
+                        const body = Buffer.concat(chunks);
                         if (res.statusCode && res.statusCode >= 200 && res.statusCode < 300) {
-                            resolve(JSON.parse(body) as T);
+                            resolve(body);
                         } else {
-                            reject(new Error(`Graph API ${res.statusCode}: ${body}`));
+                            reject(new Error(`Graph API ${res.statusCode}: ${body.toString()}`));
                         }
                     });
                 }
@@ -0,0 +1,69 @@
+import { createLogger, nowISO } from '../shared/utils';
+import { listDroppedFiles, readDroppedFile } from '../storage/documentStore';
+import { BankConnector } from './bankConnector';
+import { InterBalance, InterTransaction } from './interConnector';
+import { parseOFX, decodeOFX, isOFX, OFXStatement } from './ofxParser';
+
+const logger = createLogger('FileDropConnector');
+
+/**
+ * FileDropConnector — contas sem API (poupança, investimento, outros bancos).
+ * Lê os arquivos OFX depositados na pasta da conta (`<contaId>/` na drop area).
+ * Releituras e arquivos sobrepostos são seguros: cada FITID entra uma vez e vira o fingerprint da transação.
+ */
+export class FileDropConnector implements BankConnector {
+    readonly tipo = 'ofx_drop' as const;
+
+    constructor(private readonly contaId: string) { }
+
+    isConfigured(): boolean {
+        return true;
+    }
+
+    async getBalance(): Promise<InterBalance> {
+        const withBalance = (await this.readStatements()).filter(s => s.balance);
+        if (withBalance.length === 0) {
+            throw new Error(`Nenhum OFX com saldo para a conta ${this.contaId}`);
+        }
+
+        // Saldo do extrato mais recente
+        const latest = withBalance.sort((a, b) => a.balance!.data.localeCompare(b.balance!.data)).pop()!;
+        return {
+            disponivel: latest.balance!.valor,
+            reservado: 0,
+            total: latest.balance!.valor,
+            dataHora: latest.balance!.data || nowISO(),
+        };
+    }
+
+    async syncStatement(startDate: string, endDate: string): Promise<InterTransaction[]> {
+        const statements = await this.readStatements();
+        // Arquivos com períodos sobrepostos repetem o mesmo FITID: cada um entra uma vez
+        const byFitId = new Map<string, InterTransaction>();
+        const transactions = statements
+            .flatMap(s => s.transactions)
+            .filter(t => t.data >= startDate && t.data <= endDate)
+            .filter(t => {
+                if (!t.idExterno) return true;
+                if (byFitId.has(t.idExterno)) return false;
+                byFitId.set(t.idExterno, t);
+                return true;
+            });
+        logger.info(`Conta ${this.contaId}: ${transactions.length} transações em ${statements.length} arquivo(s) OFX`);
+        return transactions;
+    }
+
+    private async readStatements(): Promise<OFXStatement[]> {
+        const files = (await listDroppedFiles(this.contaId)).filter(f => f.toLowerCase().endsWith('.ofx'));
+        const statements: OFXStatement[] = [];
+        for (const file of files) {
+            const content = decodeOFX(await readDroppedFile(this.contaId, file));
+            if (!isOFX(content)) {
+                logger.warn(`Arquivo ignorado (não é OFX): ${this.contaId}/${file}`);
+                continue;
+            }
+            statements.push(parseOFX(content));
+        }
+        return statements;
+    }
+}
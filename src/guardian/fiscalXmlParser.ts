@@ -0,0 +1,223 @@
+import { createLogger } from '../shared/utils';
+
+const logger = createLogger('FiscalXmlParser');
+
+export type FiscalLayout = 'nfe' | 'nfse_abrasf' | 'nfse_nacional';
+
+/** Tributos retidos na fonte pelo tomador */
+export interface FiscalRetencoes {
+    iss: number;
+    irrf: number;
+    pis: number;
+    cofins: number;
+    csll: number;
+    inss: number;
+}
+
+/** Dados extraídos de uma NF-e / NFS-e — persistidos como JSON na autorização */
+export interface FiscalDocumentInfo {
+    layout: FiscalLayout;
+    numero: string;
+    dataEmissao: string;
+    emitenteCnpj: string;
+    emitenteNome?: string;
+    tomadorCnpj?: string;
+    tomadorNome?: string;
+    valorBruto: number;
+    retencoes: FiscalRetencoes;
+    totalRetido: number;
+    /** Valor efetivamente pago/recebido (bruto − retenções) */
+    valorLiquido: number;
+}
+
+/** Detects the fiscal layout by its info-group element (case matters: infNFe ≠ InfNfse ≠ infNFSe) */
+export function detectFiscalLayout(xml: string): FiscalLayout | null {
+    if (/<(\w+:)?infNFe[\s>]/.test(xml)) return 'nfe';
+    if (/<(\w+:)?infNFSe[\s>]/.test(xml)) return 'nfse_nacional';
+    if (/<(\w+:)?InfNfse[\s>]/.test(xml)) return 'nfse_abrasf';
+    return null;
+}
+
+/**
+ * Parses NF-e (layout 4.00), NFS-e ABRASF (1.x/2.x) and NFS-e Padrão Nacional.
+ * Returns null when the XML is not a recognized fiscal document.
+ */
+export function parseFiscalXml(xml: string): FiscalDocumentInfo | null {
+    const layout = detectFiscalLayout(xml);
+    if (!layout) return null;
+
+    try {
+        const info = layout === 'nfe' ? parseNFe(xml)
+            : layout === 'nfse_nacional' ? parseNFSeNacional(xml)
+            : parseNFSeAbrasf(xml);
+        logger.info(`${layout} ${info.numero} lida: bruto R$ ${info.valorBruto.toFixed(2)}, retido R$ ${info.totalRetido.toFixed(2)}`);
+        return info;
+    } catch (error) {
+        logger.warn(`XML fiscal (${layout}) inválido: ${error}`);
+        return null;
+    }
+}
+
+// ---- NF-e 4.00 ----
+
+function parseNFe(xml: string): FiscalDocumentInfo {
+    const inf = block(xml, 'infNFe');
+    const ide = block(inf, 'ide');
+    const emit = block(inf, 'emit');
+    const dest = block(inf, 'dest');
+    const total = block(inf, 'total');
+    const retTrib = block(total, 'retTrib');
+
+    const retencoes: FiscalRetencoes = {
+        iss: num(block(total, 'ISSQNtot'), 'vISSRet'),
+        irrf: num(retTrib, 'vIRRF'),
+        pis: num(retTrib, 'vRetPIS'),
+        cofins: num(retTrib, 'vRetCOFINS'),
+        csll: num(retTrib, 'vRetCSLL'),
+        inss: num(retTrib, 'vRetPrev'),
+    };
+
+    return build('nfe', {
+        numero: text(ide, 'nNF'),
+        dataEmissao: text(ide, 'dhEmi') || text(ide, 'dEmi'),
+        emitenteCnpj: text(emit, 'CNPJ') || text(emit, 'CPF'),
+        emitenteNome: text(emit, 'xNome'),
+        tomadorCnpj: text(dest, 'CNPJ') || text(dest, 'CPF'),
+        tomadorNome: text(dest, 'xNome'),
+        valorBruto: num(block(total, 'ICMSTot'), 'vNF') || num(block(total, 'ISSQNtot'), 'vServ'),
+        retencoes,
+    });
+}
+
+// ---- NFS-e ABRASF (1.x: PrestadorServico/TomadorServico, 2.x: Prestador/Tomador) ----
+
+function parseNFSeAbrasf(xml: string): FiscalDocumentInfo {
+    const inf = block(xml, 'InfNfse');
+    const valores = block(inf, 'Valores') || block(xml, 'Valores');
+    const prestadores = [block(inf, 'PrestadorServico'), block(xml, 'Prestador')];
+    const tomadores = [block(inf, 'TomadorServico'), block(xml, 'Tomador'), block(xml, 'TomadorServico')];
+
+    // IssRetido: 1 = sim, 2 = não (fica em Valores no 1.x e em Servico no 2.x)
+    const issRetido = (text(valores, 'IssRetido') || text(xml, 'IssRetido')) === '1';
+
+    const retencoes: FiscalRetencoes = {
+        iss: issRetido ? (num(valores, 'ValorIssRetido') || num(valores, 'ValorIss')) : 0,
+        irrf: num(valores, 'ValorIr'),
+        pis: num(valores, 'ValorPis'),
+        cofins: num(valores, 'ValorCofins'),
+        csll: num(valores, 'ValorCsll'),
+        inss: num(valores, 'ValorInss'),
+    };
+
+    const declaredNet = num(block(inf, 'ValoresNfse'), 'ValorLiquidoNfse') || num(valores, 'ValorLiquidoNfse');
+
+    return build('nfse_abrasf', {
+        numero: text(inf, 'Numero'),
+        dataEmissao: text(inf, 'DataEmissao') || text(xml, 'DataEmissao'),
+        emitenteCnpj: firstText(prestadores, ['Cnpj', 'Cpf']),
+        emitenteNome: firstText(prestadores, ['RazaoSocial']),
+        tomadorCnpj: firstText(tomadores, ['Cnpj', 'Cpf']),
+        tomadorNome: firstText(tomadores, ['RazaoSocial']),
+        valorBruto: num(valores, 'ValorServicos'),
+        retencoes,
+    }, declaredNet);
+}
+
+// ---- NFS-e Padrão Nacional (SEFIN, leiaute 1.00) ----
+
+function parseNFSeNacional(xml: string): FiscalDocumentInfo {
+    const inf = block(xml, 'infNFSe');
+    const dps = block(inf, 'infDPS');
+    const emit = block(inf, 'emit');
+    const toma = block(dps, 'toma');
+    const trib = block(dps, 'trib');
+    const tribMun = block(trib, 'tribMun');
+    const tribFed = block(trib, 'tribFed');
+    const piscofins = block(tribFed, 'piscofins');
+    // infNFSe/valores (vISSQN, vLiq) — distinto de infDPS/valores, por isso a DPS é removida antes
+    const valoresNFSe = block(inf.replace(/<(?:\w+:)?DPS[\s>][\s\S]*<\/(?:\w+:)?DPS>/, ''), 'valores');
+
+    // tpRetISSQN: 1 = não retido, 2 = retido pelo tomador, 3 = retido pelo intermediário
+    const issRetido = ['2', '3'].includes(text(tribMun, 'tpRetISSQN'));
+    // tpRetPisCofins: 1 = retido, 2 = não retido
+    const pisCofinsRetido = text(piscofins, 'tpRetPisCofins') === '1';
+
+    const retencoes: FiscalRetencoes = {
+        iss: issRetido ? num(valoresNFSe, 'vISSQN') : 0,
+        irrf: num(tribFed, 'vRetIRRF'),
+        pis: pisCofinsRetido ? num(piscofins, 'vPis') : 0,
+        cofins: pisCofinsRetido ? num(piscofins, 'vCofins') : 0,
+        csll: num(tribFed, 'vRetCSLL'),
+        inss: num(tribFed, 'vRetCP'),
+    };
+
+    return build('nfse_nacional', {
+        numero: text(inf, 'nNFSe'),
+        dataEmissao: text(dps, 'dhEmi') || text(inf, 'dhProc'),
+        emitenteCnpj: text(emit, 'CNPJ') || text(block(dps, 'prest'), 'CNPJ') || text(emit, 'CPF'),
+        emitenteNome: text(emit, 'xNome'),
+        tomadorCnpj: text(toma, 'CNPJ') || text(toma, 'CPF'),
+        tomadorNome: text(toma, 'xNome'),
+        valorBruto: num(block(dps, 'vServPrest'), 'vServ'),
+        retencoes,
+    }, num(valoresNFSe, 'vLiq'));
+}
+
+// ---- Helpers ----
+
+function build(
+    layout: FiscalLayout,
+    data: Omit<FiscalDocumentInfo, 'layout' | 'totalRetido' | 'valorLiquido'>,
+    declaredNet: number = 0
+): FiscalDocumentInfo {
+    if (!data.valorBruto) throw new Error('valor bruto ausente');
+
+    const totalRetido = round2(Object.values(data.retencoes).reduce((s, v) => s + v, 0));
+    return {
+        layout,
+        ...data,
+        dataEmissao: data.dataEmissao.substring(0, 10),
+        emitenteCnpj: onlyDigits(data.emitenteCnpj),
+        tomadorCnpj: data.tomadorCnpj ? onlyDigits(data.tomadorCnpj) : undefined,
+        emitenteNome: data.emitenteNome || undefined,
+        tomadorNome: data.tomadorNome || undefined,
+        totalRetido,
+        valorLiquido: declaredNet || round2(data.valorBruto - totalRetido),
+    };
+}
+
+/** Inner content of the first <tag> element (namespace prefix tolerant) */
+function block(xml: string, tag: string): string {
+    if (!xml) return '';
+    const m = xml.match(new RegExp(`<(?:\\w+:)?${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:\\w+:)?${tag}>`));
+    return m ? m[1] : '';
+}
+
+function text(xml: string, tag: string): string {
+    const inner = block(xml, tag);
+    return inner.replace(/<[^>]+>/g, '').trim()
+        .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&amp;/g, '&');
+}
+
+function firstText(blocks: string[], tags: string[]): string {
+    for (const b of blocks) {
+        for (const tag of tags) {
+            const v = text(b, tag);
+            if (v) return v;
+        }
+    }
+    return '';
+}
+
+function num(xml: string, tag: string): number {
+    const v = parseFloat(text(xml, tag));
+    return isNaN(v) ? 0 : v;
+}
+
+function onlyDigits(value: string): string {
+    return value.replace(/\D/g, '');
+}
+
+function round2(v: number): number {
+    return Math.round(v * 100) / 100;
+}
@@ -2,8 +2,16 @@ import * as https from 'https';
 import { createLogger, generateId, nowISO } from '../shared/utils';
 import { GuardianDocument } from './emailListener';
 import { InterTransaction } from './interConnector';
-import { KPIResult, LearningRule, extractLearningTokens, learningConfidence } from '../shared/types';
-import { getLearningRules, upsertLearningRule } from '../storage/tableClient';
+import { KPIResult, LearningRule, OrcamentoVersao, extractLearningTokens, learningConfidence } from '../shared/types';
+import { getLearningRules, upsertLearningRule, getAllAuthorizations, getOrcamentoVersoes } from '../storage/tableClient';
+import { getCadastroRecords, getConfig } from '../storage/areaTableClient';
+import { Categoria } from '../shared/areas';
+import { readDocument } from '../storage/documentStore';
+import { parseFiscalXml, FiscalDocumentInfo } from './fiscalXmlParser';
+import { reconcileTransactions, ReconciliationMatch } from './reconciliationEngine';
+import { reportingItems } from './splitTransactions';
+import { competenciaDate } from './reportPeriod';
+import { activeVersionsByYear, monthlyBudgets } from './budgetPlanning';
 
 export interface ImportedDocument {
     id: string;
@@ -13,6 +21,20 @@ export interface ImportedDocument {
     contentUrl: string;
     size: number;
     uploadedAt: string;
+    /** Raw file bytes when available (upload) — enables native XML parsing */
+    content?: Buffer;
+    /** Id no document store (SHA-256 do conteúdo) */
+    documentId?: string;
+}
+
+/** Normalized attachment shape consumed by the extractors */
+interface DocumentAttachment {
+    name: string;
+    type: string;
+    blobUrl: string;
+    size: number;
+    content?: Buffer;
+    documentId?: string;
 }
 
 const logger = createLogger('GuardianAgents');
@@ -27,6 +49,35 @@ export interface AnalysisResult {
     needsReview: boolean;
     suggestedAction: 'approve' | 'investigate' | 'archive';
     audit?: AuditResult;
+    /** Descrição/data de origem quando o extrator as conhece (ex: NF-e) */
+    description?: string;
+    date?: string;
+    /** Dados fiscais extraídos de NF-e / NFS-e */
+    fiscal?: FiscalDocumentInfo;
+    /** Arquivo de origem no document store */
+    documentId?: string;
+    /** Metadados do email de origem (documentos recebidos no financeiro@) */
+    email?: EmailOrigin;
+    /** Camada que decidiu a classificação de uma transação */
+    classifier?: ClassifierLayer;
+    /** Transações: conta de origem, sentido e contraparte no extrato */
+    contaId?: string;
+    direction?: 'CREDITO' | 'DEBITO';
+    cpfCnpj?: string;
+    /** Conciliação com documento(s): score e motivos */
+    reconciliation?: ReconciliationMatch;
+    /** Título a pagar baixado por esta transação */
+    contaPagarId?: string;
+    /** Título a receber baixado por esta transação */
+    contaReceberId?: string;
+}
+
+export type ClassifierLayer = 'learned' | 'rules' | 'kimi';
+
+export interface EmailOrigin {
+    remetente: string;
+    assunto: string;
+    recebidoEm: string;
 }
 
 export interface AuditResult {
@@ -34,8 +85,19 @@ export interface AuditResult {
     budgetLimit?: number;
     variation?: number;
     alert: 'none' | 'warning' | 'critical';
+    /** Competência audited (YYYY-MM) */
+    period?: string;
+    /** Approved + pending spend of the category in the period, this item included */
+    accumulated?: number;
+    /** accumulated / budgetLimit (%) */
+    usagePct?: number;
+    /** Threshold (%) that raised the warning */
+    warningPct?: number;
 }
 
+/** Default share of the monthly budget that raises a warning (config ORCAMENTO_ALERTA_PCT) */
+const DEFAULT_BUDGET_WARNING_PCT = 80;
+
 /** Azure AI Document Intelligence configuration */
 const AI_ENDPOINT = process.env.FORM_RECOGNIZER_ENDPOINT || '';
 const AI_KEY = process.env.FORM_RECOGNIZER_KEY || '';
@@ -182,16 +244,44 @@ export class GuardianAgents {
 
         logger.info(`Extracting data from ${isEmail ? 'email' : 'imported'} document: ${name}`);
 
-        const attachments = isEmail
+        const attachments: DocumentAttachment[] = isEmail
             ? doc.attachments
-            : [{ name: doc.name, type: doc.type, blobUrl: doc.contentUrl, size: doc.size }];
+            : [{ name: doc.name, type: doc.type, blobUrl: doc.contentUrl, size: doc.size, content: doc.content, documentId: doc.documentId }];
 
+        // Anexos guardados no document store são lidos de lá (ex: emails)
+        const loaded = await Promise.all(attachments.map(async att =>
+            !att.content && att.documentId ? { ...att, content: (await readDocument(att.documentId)) || undefined } : att
+        ));
+
+        const results = await this.extractAttachments(loaded);
+        if (isEmail) {
+            const email: EmailOrigin = { remetente: doc.sender, assunto: doc.subject, recebidoEm: doc.receivedAt };
+            results.forEach(r => { r.email = email; });
+        }
+        return results;
+    }
+
+    private async extractAttachments(attachments: DocumentAttachment[]): Promise<AnalysisResult[]> {
+        // 1st: NF-e / NFS-e XML — parsed natively, no external service needed
+        const results: AnalysisResult[] = [];
+        const needsOCR: DocumentAttachment[] = [];
+        for (const att of attachments) {
+            const fiscal = this.isXmlAttachment(att) && att.content ? parseFiscalXml(att.content.toString('utf8')) : null;
+            if (fiscal) {
+                results.push(this.fiscalToResult(fiscal, att.documentId));
+            } else {
+                needsOCR.push(att);
+            }
+        }
+        if (needsOCR.length === 0) return results;
+
+        // 2nd: OCR via Azure AI Document Intelligence
         if (this.isAIConfigured()) {
-            return this.extractWithAI(attachments);
+            return [...results, ...await this.extractWithAI(needsOCR)];
         }
 
         logger.warn('Azure AI Document Intelligence não configurado — documento pendente de OCR');
-        return attachments.map(att => ({
+        return [...results, ...needsOCR.map(att => ({
             id: generateId('EXT'),
             type: 'document' as const,
             classification: 'Documento Pendente OCR',
@@ -199,16 +289,56 @@ export class GuardianAgents {
             value: 0,
             needsReview: true,
             suggestedAction: 'investigate' as const,
-        }));
+            documentId: att.documentId,
+        }))];
+    }
+
+    private isXmlAttachment(att: DocumentAttachment): boolean {
+        return att.type.includes('xml') || att.name.toLowerCase().endsWith('.xml');
+    }
+
+    /**
+     * Maps a parsed NF-e/NFS-e to a document result.
+     * Value is the net amount (gross − withholdings): it is what actually moves in the bank.
+     */
+    private fiscalToResult(fiscal: FiscalDocumentInfo, documentId?: string): AnalysisResult {
+        const ownCnpj = (process.env.GUARDIAN_EMPRESA_CNPJ || '').replace(/\D/g, '');
+        const isIssuer = !!ownCnpj && fiscal.emitenteCnpj === ownCnpj;
+
+        let classification: string;
+        if (isIssuer) {
+            classification = 'Receita de Servicos';
+        } else {
+            const vendorClass = this.classifyVendor(fiscal.emitenteNome || '', '');
+            classification = fiscal.layout !== 'nfe' && vendorClass === 'Despesas Administrativas' ? 'Nota Fiscal Servico' : vendorClass;
+        }
+
+        const label = fiscal.layout === 'nfe' ? 'NF-e' : 'NFS-e';
+        const counterpart = isIssuer ? fiscal.tomadorNome || fiscal.tomadorCnpj : fiscal.emitenteNome || fiscal.emitenteCnpj;
+        const retido = fiscal.totalRetido > 0 ? `, retido R$ ${fiscal.totalRetido.toFixed(2)}` : '';
+
+        return {
+            id: generateId('EXT'),
+            type: 'document',
+            classification,
+            confidence: 0.95,
+            value: fiscal.valorLiquido,
+            needsReview: true,
+            suggestedAction: 'approve',
+            description: `${label} ${fiscal.numero} - ${counterpart || 'n/d'} (bruto R$ ${fiscal.valorBruto.toFixed(2)}${retido})`,
+            date: fiscal.dataEmissao,
+            fiscal,
+            documentId,
+        };
     }
 
     /** Calls Azure AI Document Intelligence (prebuilt-invoice model) for real OCR */
-    private async extractWithAI(attachments: Array<{ name: string; type: string; blobUrl: string; size: number }>): Promise<AnalysisResult[]> {
+    private async extractWithAI(attachments: DocumentAttachment[]): Promise<AnalysisResult[]> {
         const results: AnalysisResult[] = [];
 
         for (const att of attachments) {
             try {
-                const analyzed = await this.analyzeDocument(att.blobUrl);
+                const analyzed = await this.analyzeDocument(att);
 
                 if (analyzed.documents && analyzed.documents.length > 0) {
                     const fields = analyzed.documents[0].fields;
@@ -226,6 +356,7 @@ export class GuardianAgents {
                         value: invoiceTotal,
                         needsReview: docConfidence < 0.90,
                         suggestedAction: docConfidence >= 0.90 ? 'approve' : 'investigate',
+                        documentId: att.documentId,
                     });
                 } else {
                     results.push({
@@ -236,6 +367,7 @@ export class GuardianAgents {
                         value: 0,
                         needsReview: true,
                         suggestedAction: 'investigate',
+                        documentId: att.documentId,
                     });
                 }
             } catch (error) {
@@ -248,6 +380,7 @@ export class GuardianAgents {
                     value: 0,
                     needsReview: true,
                     suggestedAction: 'investigate',
+                    documentId: att.documentId,
                 });
             }
         }
@@ -255,11 +388,11 @@ export class GuardianAgents {
         return results;
     }
 
-    /** Sends document URL to Azure AI Document Intelligence for analysis */
-    private async analyzeDocument(documentUrl: string): Promise<FormRecognizerResult> {
+    /** Sends the document (bytes when stored, else its URL) to Azure AI Document Intelligence */
+    private async analyzeDocument(att: DocumentAttachment): Promise<FormRecognizerResult> {
         const endpoint = new URL(AI_ENDPOINT);
         const analyzePath = `/formrecognizer/documentModels/prebuilt-invoice:analyze?api-version=2023-07-31`;
-        const body = JSON.stringify({ urlSource: documentUrl });
+        const body = JSON.stringify(att.content ? { base64Source: att.content.toString('base64') } : { urlSource: att.blobUrl });
 
         // Step 1: Start analysis (returns Operation-Location header)
         const operationUrl = await new Promise<string>((resolve, reject) => {
@@ -509,6 +642,7 @@ Valor: R$ ${valor.toFixed(2)}`;
                 value: tx.valor,
                 needsReview: learned.confidence < 0.92,
                 suggestedAction: learned.confidence >= 0.90 ? 'approve' : 'investigate',
+                classifier: 'learned',
             };
         }
 
@@ -529,6 +663,7 @@ Valor: R$ ${valor.toFixed(2)}`;
                     value: tx.valor,
                     needsReview: true,
                     suggestedAction: kimiResult.confidence >= 0.90 ? 'approve' : 'investigate',
+                    classifier: 'kimi',
                 };
             }
         }
@@ -541,6 +676,7 @@ Valor: R$ ${valor.toFixed(2)}`;
             value: tx.valor,
             needsReview: true,
             suggestedAction: confidence >= 0.90 ? 'approve' : 'investigate',
+            classifier: 'rules',
         };
     }
 
@@ -570,6 +706,14 @@ Valor: R$ ${valor.toFixed(2)}`;
         if (desc.includes('AWS') || desc.includes('AMAZON') || desc.includes('AZURE') || desc.includes('HEROKU'))
             return { classification: 'Infraestrutura Cloud', confidence: 0.96 };
 
+        // ---- Compras típicas de cartão (faturas itemizadas) ----
+        if (/\b(NOTION|SLACK|GITHUB|ATLASSIAN|ADOBE|ZOOM|OPENAI|CANVA|DROPBOX|FIGMA|MICROSOFT)\b/.test(desc))
+            return { classification: 'Licencas e Ferramentas', confidence: 0.92 };
+        if (/\b(LATAM|GOL LINHAS|AZUL LINHAS|UBER|99APP|99 APP|AIRBNB|BOOKING|HOTEL|DECOLAR|123MILHAS)\b/.test(desc))
+            return { classification: 'Viagens e Deslocamentos', confidence: 0.90 };
+        if (/\bIOF\b/.test(desc))
+            return { classification: 'IOF', confidence: 0.95 };
+
         // ---- Payroll / HR ----
         if (desc.includes('SALARIO') || desc.includes('FOLHA') || desc.includes('INSS') || desc.includes('FGTS'))
             return { classification: 'Folha de Pagamento', confidence: 0.97 };
@@ -612,53 +756,120 @@ Valor: R$ ${valor.toFixed(2)}`;
             : { classification: 'Despesas Nao Classificadas', confidence: 0.60 };
     }
 
+    /** Categories and active budget versions for audit, plus the resolved limits per month */
+    private budgetSource: { categorias: Categoria[]; versoes: Map<number, OrcamentoVersao> } | null = null;
+    private budgetsByPeriod = new Map<string, Map<string, number>>();
+    private budgetWarningPct = DEFAULT_BUDGET_WARNING_PCT;
+    /** Running spend per `categoria|YYYY-MM`, and what each transaction contributed to it */
+    private monthlySpend: Map<string, number> | null = null;
+    private spendByItem = new Map<string, { key: string; valor: number }>();
+
+    /** Monthly limit per category for 'YYYY-MM': the year's active budget version, else Categoria.orcamentoMensal */
+    async loadBudgets(period: string): Promise<Map<string, number>> {
+        if (this.budgetSource === null) {
+            const [categorias, versoes, warningPct] = await Promise.all([
+                getCadastroRecords<Categoria>('categorias'),
+                getOrcamentoVersoes(),
+                getConfig('ORCAMENTO_ALERTA_PCT'),
+            ]);
+            this.budgetSource = { categorias, versoes: activeVersionsByYear(versoes) };
+            const pct = parseFloat(warningPct || '');
+            if (pct > 0) this.budgetWarningPct = pct;
+        }
+        let budgets = this.budgetsByPeriod.get(period);
+        if (!budgets) {
+            const versao = this.budgetSource.versoes.get(parseInt(period.substring(0, 4), 10)) || null;
+            budgets = monthlyBudgets(this.budgetSource.categorias, versao, period);
+            this.budgetsByPeriod.set(period, budgets);
+        }
+        return budgets;
+    }
+
+    /** Approved and pending transactions already stored, summed per category and competência month */
+    private async loadMonthlySpend(): Promise<Map<string, number>> {
+        if (this.monthlySpend === null) {
+            this.monthlySpend = new Map();
+            const stored = reportingItems((await getAllAuthorizations()).filter(a => a.tipo === 'transaction' && a.status !== 'rejeitado'));
+            for (const a of stored) {
+                this.addSpend(a.id, `${a.classificacao}|${competenciaDate(a).substring(0, 7)}`, a.valor);
+            }
+        }
+        return this.monthlySpend;
+    }
+
+    /** Counts an item once: re-auditing it (reprocessing, reclassification) replaces its previous contribution */
+    private addSpend(id: string, key: string, valor: number): void {
+        const spend = this.monthlySpend!;
+        const previous = this.spendByItem.get(id);
+        if (previous) spend.set(previous.key, (spend.get(previous.key) || 0) - previous.valor);
+        spend.set(key, (spend.get(key) || 0) + valor);
+        this.spendByItem.set(id, { key, valor });
+    }
+
+    /**
+     * Month-to-date budget check: the category's approved + pending spend in the item's competência
+     * (this item and the rest of the batch included) against that month's budget (see loadBudgets).
+     * Warning from the configured share of the budget, critical above 100%.
+     * Documents are checked on top of the month's spend but not added to it — their payment will be.
+     */
     async audit(result: AnalysisResult): Promise<void> {
         logger.info(`Auditing result: ${result.classification} - R$ ${result.value}`);
 
-        const budgets: Record<string, number> = {
-            'Infraestrutura Cloud': 500.00,
-            'Software ERP': 300.00,
-            'Marketing Digital': 2000.00,
-            'Pagamento Fatura Cartao': 3000.00,
-            'Servicos Financeiros': 1000.00,
-            'Contabilidade': 500.00,
-            'Folha de Pagamento': 15000.00,
-            'Despesas Imobiliarias': 5000.00,
-            'Utilidades': 1000.00,
-            'Pagamentos Diversos': 1000.00,
-            'Fornecedores': 2000.00,
-        };
+        const period = (result.date || nowISO()).substring(0, 7);
+        const limit = (await this.loadBudgets(period)).get(result.classification);
+        if (!limit) return;
 
-        const limit = budgets[result.classification];
-        if (limit) {
-            const isOver = result.value > limit;
-            result.audit = {
-                withinBudget: !isOver,
-                budgetLimit: limit,
-                variation: isOver ? (result.value - limit) : 0,
-                alert: isOver ? 'critical' : 'none',
-            };
+        const spend = await this.loadMonthlySpend();
+        const key = `${result.classification}|${period}`;
+        let accumulated: number;
+        if (result.type === 'transaction') {
+            this.addSpend(result.id, key, result.value);
+            accumulated = spend.get(key) || 0;
+        } else {
+            accumulated = (spend.get(key) || 0) + result.value;
+        }
+        accumulated = Math.round(accumulated * 100) / 100;
+
+        const usagePct = Math.round((accumulated / limit) * 10000) / 100;
+        const isOver = accumulated > limit;
+        const alert = isOver ? 'critical' : usagePct >= this.budgetWarningPct ? 'warning' : 'none';
+        result.audit = {
+            withinBudget: !isOver,
+            budgetLimit: limit,
+            variation: isOver ? Math.round((accumulated - limit) * 100) / 100 : 0,
+            alert,
+            period,
+            accumulated,
+            usagePct,
+            warningPct: this.budgetWarningPct,
+        };
 
-            if (isOver) {
-                result.needsReview = true;
-                result.suggestedAction = 'investigate';
-                logger.warn(`ALERTA: Despesa acima do orçamento! (${result.classification})`);
-            }
+        if (isOver) {
+            result.needsReview = true;
+            result.suggestedAction = 'investigate';
+            logger.warn(`ALERTA: ${result.classification} acima do orçamento em ${period} (R$ ${accumulated} de R$ ${limit})`);
+        } else if (alert === 'warning') {
+            logger.warn(`Atenção: ${result.classification} consumiu ${usagePct}% do orçamento de ${period}`);
         }
     }
 
-    async reconcile(txs: AnalysisResult[], docs: AnalysisResult[]): Promise<void> {
+    /**
+     * Scored reconciliation (see reconciliationEngine). Matched transactions point at their
+     * document(s); full matches are suggested for archiving, partial ones keep their suggestion.
+     * `paid` = valores já aplicados a documentos por conciliações parciais anteriores.
+     */
+    async reconcile(txs: AnalysisResult[], docs: AnalysisResult[], paid?: Map<string, number>): Promise<ReconciliationMatch[]> {
         logger.info(`Running reconciliation for ${txs.length} transactions and ${docs.length} documents`);
-        const usedDocs = new Set<string>();
-        for (const tx of txs) {
-            const match = docs.find(d => !usedDocs.has(d.id) && Math.abs(d.value - tx.value) < 0.01);
-            if (match) {
-                tx.matchedId = match.id;
-                tx.suggestedAction = 'archive';
-                tx.confidence = 1.0;
-                usedDocs.add(match.id);
-            }
+        const matches = reconcileTransactions(txs, docs, paid);
+        const byId = new Map(txs.map(t => [t.id, t]));
+        for (const m of matches) {
+            const tx = byId.get(m.transactionId)!;
+            tx.matchedId = m.documentIds.join(',');
+            tx.reconciliation = m;
+            if (m.tipo !== 'parcial') tx.suggestedAction = 'archive';
+            logger.info(`Conciliado ${tx.id} → ${tx.matchedId} (${m.tipo}, score=${m.score.toFixed(2)}: ${m.motivos.join('; ')})`);
         }
+        return matches;
     }
 
     /** Non-operational classifications excluded from KPIs */
@@ -1,5 +1,6 @@
 import * as https from 'https';
 import { createLogger, nowISO, generateId } from '../shared/utils';
+import { BankConnector } from './bankConnector';
 
 const logger = createLogger('InterConnector');
 
@@ -17,13 +18,19 @@ export interface InterTransaction {
     valor: number;
     descricao: string;
     cpfCnpjBeneficiario?: string;
+    /** Identificador atribuído pelo banco (ex: FITID do OFX) */
+    idExterno?: string;
+    /** ContaCorrente de origem (sync por conta vinculada) */
+    contaId?: string;
 }
 
 /**
  * InterConnector — consumes wf-operacao-inter-ops as a service.
  * No mTLS needed; inter-ops handles all certificate/OAuth2 logic.
  */
-export class InterConnector {
+export class InterConnector implements BankConnector {
+    readonly tipo = 'inter' as const;
+
     private readonly baseUrl: string;
     private readonly functionKey: string;
     private readonly client: string;
@@ -38,7 +45,7 @@ export class InterConnector {
         this.client = client;
     }
 
-    private isConfigured(): boolean {
+    isConfigured(): boolean {
         return !!(this.baseUrl && this.functionKey);
     }
 
@@ -120,17 +127,20 @@ export class InterConnector {
                 titulo: string;
                 descricao: string;
                 cpfCnpj?: string;
+                idTransacao?: string;
             }>;
             total: number;
         }>(`/api/extrato?dataInicio=${startDate}&dataFim=${endDate}`);
 
+        // O id definitivo (fingerprint) é atribuído no pipeline
         return (data.items || []).map(tx => ({
             id: generateId('INTER'),
             data: tx.dataEntrada,
             tipo: (tx.tipoOperacao === 'C' ? 'CREDITO' : 'DEBITO') as 'CREDITO' | 'DEBITO',
             valor: parseFloat(tx.valor) || 0,
             descricao: tx.descricao || tx.titulo,
-            cpfCnpj: tx.cpfCnpj,
+            cpfCnpjBeneficiario: tx.cpfCnpj,
+            idExterno: tx.idTransacao,
         }));
     }
 }
@@ -0,0 +1,71 @@
+import { createLogger, nowISO } from '../shared/utils';
+import { GuardianAuthorization } from '../shared/types';
+import { ContaCorrente } from '../shared/areas';
+import { createGuardianAuth, updateGuardianAuth, getAllAuthorizations } from '../storage/tableClient';
+import { getCadastroRecords } from '../storage/areaTableClient';
+
+const logger = createLogger('InternalTransfers');
+
+export const CARD_PAYMENT_CATEGORY = 'Pagamento Fatura Cartao';
+
+/** Id determinístico da contrapartida — registrar a mesma transferência duas vezes não duplica */
+export function transferLegId(sourceId: string): string {
+    return `${sourceId}_TRF`;
+}
+
+/**
+ * Books the other side of an internal transfer on the destination account:
+ * same value and dates, opposite direction, already approved. The source keeps
+ * its own account; the pair nets to zero in total cash and never reaches the DRE.
+ */
+export async function createTransferLeg(source: GuardianAuthorization, destino: ContaCorrente, classificacao: string): Promise<GuardianAuthorization> {
+    const legId = transferLegId(source.id);
+    const leg: GuardianAuthorization = {
+        id: legId,
+        tipo: 'transaction',
+        classificacao,
+        valor: source.valor,
+        confianca: 1.0,
+        match: '',
+        status: 'aprovado',
+        criadoEm: nowISO(),
+        sugestao: 'approve',
+        origem: 'transferencia',
+        descricao: `${source.descricao || classificacao} (contrapartida)`,
+        data: source.data,
+        dataCompetencia: source.dataCompetencia,
+        dataVencimento: source.dataVencimento,
+        dataInclusao: nowISO().split('T')[0],
+        dataPagamento: source.dataPagamento || source.data,
+        contaId: destino.id,
+        direcao: source.direcao === 'CREDITO' ? 'DEBITO' : 'CREDITO',
+        transferenciaOrigem: source.id,
+        needsReview: false,
+    };
+
+    const existing = (await getAllAuthorizations()).find(a => a.id === legId);
+    if (existing) {
+        const { criadoEm, dataInclusao, origem, ...changes } = leg;
+        await updateGuardianAuth(legId, changes);
+    } else {
+        await createGuardianAuth(leg);
+    }
+    logger.info(`Transferência ${source.id} → ${destino.nome}: R$ ${source.valor.toFixed(2)}`);
+    return leg;
+}
+
+/** Undoes the destination leg when the source is rejected */
+export async function cancelTransferLeg(source: GuardianAuthorization): Promise<void> {
+    if (!source.contaDestino) return;
+    await updateGuardianAuth(transferLegId(source.id), { status: 'rejeitado', needsReview: false });
+    logger.info(`Contrapartida de ${source.id} cancelada`);
+}
+
+/**
+ * Card account a "Pagamento Fatura Cartao" settles when the user doesn't pick one:
+ * the only active card account, or null when there are none or several.
+ */
+export async function defaultCardAccount(): Promise<ContaCorrente | null> {
+    const cartoes = (await getCadastroRecords<ContaCorrente>('contas')).filter(c => c.tipo === 'cartao' && c.ativa !== false);
+    return cartoes.length === 1 ? cartoes[0] : null;
+}
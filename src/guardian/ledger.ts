@@ -0,0 +1,337 @@
+import { createLogger, generateId, nowISO } from '../shared/utils';
+import { GuardianAuthorization, LedgerEntry, LedgerEvento } from '../shared/types';
+import { Categoria, ContaCorrente } from '../shared/areas';
+import { getAllAuthorizations, getLedgerEntries, createLedgerEntries } from '../storage/tableClient';
+import { getCadastroRecords } from '../storage/areaTableClient';
+import { competenciaDate } from './reportPeriod';
+
+const logger = createLogger('Ledger');
+
+/**
+ * Plano de contas derivado dos cadastros:
+ *   1.1.1.<conta>  Bancos (contas correntes, poupança, investimento)
+ *   1.1.2          Clientes a receber (documentos de receita)
+ *   1.1.9          Transferências entre contas (zera quando as duas pontas estão lançadas)
+ *   2.1.1          Fornecedores a pagar (documentos de despesa)
+ *   2.1.2.<conta>  Cartões de crédito
+ *   3.1 / 3.2      Receitas operacionais / financeiras, uma conta por categoria
+ *   4.1 / 4.2 / 4.3 Custos variáveis / fixos / despesas financeiras, uma conta por categoria
+ *   9.9            Não classificado (categoria fora do cadastro)
+ */
+export type LedgerGrupo = 'ativo' | 'passivo' | 'receita' | 'despesa' | 'transitoria';
+
+export interface ContaContabil {
+    codigo: string;
+    nome: string;
+    grupo: LedgerGrupo;
+    /** Devedora: saldo = débitos − créditos; credora: o inverso */
+    natureza: 'devedora' | 'credora';
+}
+
+/** Partida que o estado atual de uma autorização pede (sem id/lote — ver diffPostings) */
+export interface Posting {
+    contaDebito: string;
+    contaCredito: string;
+    valor: number;
+    dataCompetencia: string;
+    historico: string;
+}
+
+export interface LedgerContext {
+    categorias: Map<string, Categoria>;
+    contas: Map<string, ContaCorrente>;
+    /** Documentos por id — um pagamento conciliado só baixa os aprovados (os que lançaram a provisão) */
+    documentos: Map<string, GuardianAuthorization>;
+}
+
+export interface TrialBalanceLine extends ContaContabil {
+    saldoAnterior: number;
+    debitos: number;
+    creditos: number;
+    saldoFinal: number;
+}
+
+export interface TrialBalance {
+    de: string;
+    ate: string;
+    contas: TrialBalanceLine[];
+    totalDebitos: number;
+    totalCreditos: number;
+    /** Soma dos débitos igual à dos créditos — sempre verdade com partidas dobradas */
+    equilibrado: boolean;
+}
+
+export interface AccountStatement {
+    conta: ContaContabil;
+    de: string;
+    ate: string;
+    saldoInicial: number;
+    movimentos: Array<{
+        id: string; dataCompetencia: string; historico: string; origemId: string; evento: LedgerEvento;
+        contrapartida: string; debito: number; credito: number; saldo: number; estornoDe?: string;
+    }>;
+    saldoFinal: number;
+}
+
+const CONTA_SEM_BANCO = '1.1.1.SEM_CONTA';
+const CONTA_CLIENTES = '1.1.2';
+const CONTA_TRANSFERENCIAS = '1.1.9';
+const CONTA_FORNECEDORES = '2.1.1';
+const CONTA_NAO_CLASSIFICADO = '9.9';
+
+const CATEGORY_PREFIX: Record<string, string> = {
+    RECEITA_DIRETA: '3.1',
+    RECEITA_FINANCEIRA: '3.2',
+    CUSTO_VARIAVEL: '4.1',
+    CUSTO_FIXO: '4.2',
+    DESPESA_FINANCEIRA: '4.3',
+};
+
+const FIXED_ACCOUNTS: ContaContabil[] = [
+    { codigo: CONTA_SEM_BANCO, nome: 'Bancos — conta não informada', grupo: 'ativo', natureza: 'devedora' },
+    { codigo: CONTA_CLIENTES, nome: 'Clientes a receber', grupo: 'ativo', natureza: 'devedora' },
+    { codigo: CONTA_TRANSFERENCIAS, nome: 'Transferências entre contas', grupo: 'transitoria', natureza: 'devedora' },
+    { codigo: CONTA_FORNECEDORES, nome: 'Fornecedores a pagar', grupo: 'passivo', natureza: 'credora' },
+    { codigo: CONTA_NAO_CLASSIFICADO, nome: 'Não classificado', grupo: 'transitoria', natureza: 'devedora' },
+];
+
+export async function loadLedgerContext(auths: GuardianAuthorization[] = []): Promise<LedgerContext> {
+    const [categorias, contas] = await Promise.all([
+        getCadastroRecords<Categoria>('categorias'),
+        getCadastroRecords<ContaCorrente>('contas'),
+    ]);
+    return {
+        categorias: new Map(categorias.map(c => [c.nome, c])),
+        contas: new Map(contas.map(c => [c.id, c])),
+        documentos: new Map(auths.filter(a => a.tipo === 'document').map(a => [a.id, a])),
+    };
+}
+
+/** Chart of accounts: fixed accounts plus one per bank account and per DRE category */
+export function chartOfAccounts(ctx: LedgerContext): Map<string, ContaContabil> {
+    const plano = new Map(FIXED_ACCOUNTS.map(c => [c.codigo, c]));
+    for (const conta of ctx.contas.values()) {
+        const codigo = cashAccount(conta.id, ctx);
+        plano.set(codigo, {
+            codigo,
+            nome: conta.tipo === 'cartao' ? `Cartão — ${conta.nome}` : `Banco — ${conta.nome}`,
+            grupo: conta.tipo === 'cartao' ? 'passivo' : 'ativo',
+            natureza: conta.tipo === 'cartao' ? 'credora' : 'devedora',
+        });
+    }
+    for (const c of ctx.categorias.values()) {
+        const prefix = CATEGORY_PREFIX[c.tipo];
+        if (!prefix) continue;
+        const receita = c.tipo === 'RECEITA_DIRETA' || c.tipo === 'RECEITA_FINANCEIRA';
+        plano.set(`${prefix}.${c.nome}`, { codigo: `${prefix}.${c.nome}`, nome: c.nome, grupo: receita ? 'receita' : 'despesa', natureza: receita ? 'credora' : 'devedora' });
+    }
+    return plano;
+}
+
+/** Bank (asset) or card (liability) account where the money moved */
+export function cashAccount(contaId: string | undefined, ctx: LedgerContext): string {
+    const conta = contaId ? ctx.contas.get(contaId) : undefined;
+    if (!conta) return CONTA_SEM_BANCO;
+    return conta.tipo === 'cartao' ? `2.1.2.${conta.id}` : `1.1.1.${conta.id}`;
+}
+
+/** Result account of a category; internal movements go through the transfer clearing account */
+export function categoryAccount(classificacao: string, ctx: LedgerContext): string {
+    const categoria = ctx.categorias.get(classificacao);
+    if (!categoria) return CONTA_NAO_CLASSIFICADO;
+    if (categoria.tipo === 'TRANSFERENCIA_INTERNA') return CONTA_TRANSFERENCIAS;
+    return `${CATEGORY_PREFIX[categoria.tipo]}.${categoria.nome}`;
+}
+
+/**
+ * Postings the authorization's current state calls for — the same items the statements read:
+ * approved, and split parents replaced by their lines. Documents (no money moved yet) accrue
+ * against receivables/payables; transactions move a bank or card account — against the result
+ * account, or against receivables/payables for the part that settles matched documents.
+ */
+export function journalFor(auth: GuardianAuthorization, ctx: LedgerContext): Posting[] {
+    if (auth.status !== 'aprovado' || auth.dividida || !(auth.valor > 0)) return [];
+
+    const resultado = categoryAccount(auth.classificacao, ctx);
+    const tipo = ctx.categorias.get(auth.classificacao)?.tipo;
+    const receita = tipo === 'RECEITA_DIRETA' || tipo === 'RECEITA_FINANCEIRA';
+    const entrada = auth.direcao ? auth.direcao === 'CREDITO' : receita;
+    const pendente = entrada ? CONTA_CLIENTES : CONTA_FORNECEDORES;
+    // Entrada debita `destino` (banco/clientes) e credita a origem; saída, o inverso
+    const partida = (destino: string, origem: string, valor: number): Posting => ({
+        contaDebito: entrada ? destino : origem,
+        contaCredito: entrada ? origem : destino,
+        valor: round2(valor),
+        dataCompetencia: competenciaDate(auth),
+        historico: auth.descricao || auth.classificacao,
+    });
+
+    if (auth.tipo === 'document') return [partida(pendente, resultado, auth.valor)];
+
+    const caixa = cashAccount(auth.contaId, ctx);
+    const quitado = settledAmount(auth, ctx);
+    const postings: Posting[] = [];
+    if (quitado > 0) postings.push(partida(caixa, pendente, quitado));
+    if (auth.valor - quitado >= 0.01) postings.push(partida(caixa, resultado, auth.valor - quitado));
+    return postings;
+}
+
+/**
+ * Part of a transaction applied to its matched documents that already booked the result: only
+ * approved documents, each up to its own amount. A match to a pending or rejected document
+ * settles nothing — the payment goes to the result account until the document is approved.
+ */
+function settledAmount(auth: GuardianAuthorization, ctx: LedgerContext): number {
+    if (!auth.match) return 0;
+    const aprovados = auth.match.split(',')
+        .map(id => ctx.documentos.get(id))
+        .filter((d): d is GuardianAuthorization => !!d && d.status === 'aprovado' && d.valor > 0);
+    const alocacoes = auth.conciliacao?.alocacoes || [];
+    const quitado = aprovados.reduce((s, d) => {
+        const alocado = alocacoes.find(a => a.documentId === d.id)?.valor ?? (alocacoes.length === 0 ? d.valor : 0);
+        return s + Math.min(alocado, d.valor);
+    }, 0);
+    return Math.min(auth.valor, round2(quitado));
+}
+
+/** Entries of an origin still in effect: not reversals and not reversed */
+export function liveEntries(entries: LedgerEntry[]): LedgerEntry[] {
+    const estornados = new Set(entries.filter(e => e.estornoDe).map(e => e.estornoDe));
+    return entries.filter(e => !e.estornoDe && !estornados.has(e.id));
+}
+
+/**
+ * What to append so the origin's live entries become `desired`: nothing when they already match,
+ * otherwise reverse every live entry and post the desired ones again.
+ */
+export function diffPostings(origemId: string, existing: LedgerEntry[], desired: Posting[], evento: LedgerEvento): LedgerEntry[] {
+    const live = liveEntries(existing.filter(e => e.origemId === origemId));
+    const key = (p: Posting) => [p.contaDebito, p.contaCredito, round2(p.valor).toFixed(2), p.dataCompetencia, p.historico].join('|');
+    const atual = live.map(key).sort().join('\n');
+    const novo = desired.map(key).sort().join('\n');
+    if (atual === novo) return [];
+
+    const loteId = generateId('LOTE');
+    const registradoEm = nowISO();
+    const entry = (p: Posting, estornoDe?: string): LedgerEntry => ({
+        id: generateId('LED'), loteId, origemId, evento, ...p, valor: round2(p.valor), estornoDe, registradoEm,
+    });
+    return [
+        ...live.map(e => entry({
+            contaDebito: e.contaCredito,
+            contaCredito: e.contaDebito,
+            valor: e.valor,
+            dataCompetencia: e.dataCompetencia,
+            historico: `Estorno: ${e.historico}`,
+        }, e.id)),
+        ...desired.map(p => entry(p)),
+    ];
+}
+
+/**
+ * Brings the ledger in line with the authorization, its split lines and its transfer leg.
+ * Safe to call repeatedly — unchanged items post nothing. Reads only those origins' entries.
+ */
+export async function postAuthorizationLedger(id: string, evento: LedgerEvento): Promise<LedgerEntry[]> {
+    const all = await getAllAuthorizations();
+    // Pagamentos conciliados com um documento mudam junto com ele (aprovado ou não)
+    const auths = all.filter(a => a.id === id || a.parentId === id || a.transferenciaOrigem === id
+        || (a.tipo === 'transaction' && !!a.match && a.match.split(',').includes(id)));
+    const existing = (await Promise.all(auths.map(a => getLedgerEntries(a.id)))).flat();
+    return postLedger(auths, all, existing, evento);
+}
+
+/** Every authorization against the whole ledger (reprocessar) */
+export async function syncLedger(auths: GuardianAuthorization[], evento: LedgerEvento): Promise<LedgerEntry[]> {
+    return postLedger(auths, auths, await getLedgerEntries(), evento);
+}
+
+async function postLedger(auths: GuardianAuthorization[], all: GuardianAuthorization[], existing: LedgerEntry[], evento: LedgerEvento): Promise<LedgerEntry[]> {
+    const ctx = await loadLedgerContext(all);
+    const novos = auths.flatMap(a => diffPostings(a.id, existing, journalFor(a, ctx), evento));
+    await createLedgerEntries(novos);
+    if (novos.length > 0) logger.info(`Razão (${evento}): ${novos.length} lançamento(s) para ${auths.length} autorização(ões)`);
+    return novos;
+}
+
+/** Balancete: opening balance before `de`, movement in [de, ate] and closing balance per account */
+export function trialBalance(entries: LedgerEntry[], plano: Map<string, ContaContabil>, de: string, ate: string): TrialBalance {
+    const linhas = new Map<string, TrialBalanceLine>();
+    const linha = (codigo: string) => {
+        if (!linhas.has(codigo)) {
+            const conta = plano.get(codigo) || unknownAccount(codigo);
+            linhas.set(codigo, { ...conta, saldoAnterior: 0, debitos: 0, creditos: 0, saldoFinal: 0 });
+        }
+        return linhas.get(codigo)!;
+    };
+    const sinal = (l: TrialBalanceLine, debito: boolean) => (l.natureza === 'devedora') === debito ? 1 : -1;
+
+    for (const e of entries) {
+        const data = e.dataCompetencia;
+        if (data > ate) continue;
+        const d = linha(e.contaDebito);
+        const c = linha(e.contaCredito);
+        if (data < de) {
+            d.saldoAnterior += sinal(d, true) * e.valor;
+            c.saldoAnterior += sinal(c, false) * e.valor;
+        } else {
+            d.debitos += e.valor;
+            c.creditos += e.valor;
+        }
+    }
+
+    const contas = [...linhas.values()]
+        .map(l => {
+            const saldoFinal = l.saldoAnterior + sinal(l, true) * l.debitos + sinal(l, false) * l.creditos;
+            return { ...l, saldoAnterior: round2(l.saldoAnterior), debitos: round2(l.debitos), creditos: round2(l.creditos), saldoFinal: round2(saldoFinal) };
+        })
+        .filter(l => l.saldoAnterior !== 0 || l.debitos !== 0 || l.creditos !== 0)
+        .sort((a, b) => a.codigo.localeCompare(b.codigo));
+    const totalDebitos = round2(contas.reduce((s, l) => s + l.debitos, 0));
+    const totalCreditos = round2(contas.reduce((s, l) => s + l.creditos, 0));
+    return { de, ate, contas, totalDebitos, totalCreditos, equilibrado: Math.abs(totalDebitos - totalCreditos) < 0.01 };
+}
+
+/** Razão de uma conta: saldo inicial e cada lançamento do período com o saldo corrente */
+export function accountStatement(entries: LedgerEntry[], conta: ContaContabil, de: string, ate: string): AccountStatement {
+    const doConta = entries
+        .filter(e => e.contaDebito === conta.codigo || e.contaCredito === conta.codigo)
+        .filter(e => e.dataCompetencia <= ate)
+        .sort((a, b) => a.dataCompetencia.localeCompare(b.dataCompetencia) || a.registradoEm.localeCompare(b.registradoEm));
+    const efeito = (e: LedgerEntry) => {
+        const debito = e.contaDebito === conta.codigo;
+        return (conta.natureza === 'devedora') === debito ? e.valor : -e.valor;
+    };
+
+    let saldo = doConta.filter(e => e.dataCompetencia < de).reduce((s, e) => s + efeito(e), 0);
+    const saldoInicial = round2(saldo);
+    const movimentos = doConta.filter(e => e.dataCompetencia >= de).map(e => {
+        saldo += efeito(e);
+        const debito = e.contaDebito === conta.codigo;
+        return {
+            id: e.id,
+            dataCompetencia: e.dataCompetencia,
+            historico: e.historico,
+            origemId: e.origemId,
+            evento: e.evento,
+            contrapartida: debito ? e.contaCredito : e.contaDebito,
+            debito: debito ? e.valor : 0,
+            credito: debito ? 0 : e.valor,
+            saldo: round2(saldo),
+            estornoDe: e.estornoDe,
+        };
+    });
+    return { conta, de, ate, saldoInicial, movimentos, saldoFinal: round2(saldo) };
+}
+
+/** Accounts whose bank/category was removed from the cadastro still show up, by code */
+export function unknownAccount(codigo: string): ContaContabil {
+    const devedora = codigo.startsWith('1') || codigo.startsWith('4') || codigo.startsWith('9');
+    const grupo: LedgerGrupo = codigo.startsWith('1') ? 'ativo' : codigo.startsWith('2') ? 'passivo'
+        : codigo.startsWith('3') ? 'receita' : codigo.startsWith('4') ? 'despesa' : 'transitoria';
+    return { codigo, nome: codigo, grupo, natureza: devedora ? 'devedora' : 'credora' };
+}
+
+function round2(v: number): number {
+    return Math.round(v * 100) / 100;
+}
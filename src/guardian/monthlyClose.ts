@@ -0,0 +1,98 @@
+import { createLogger, generateId, nowISO } from '../shared/utils';
+import { GuardianAuthorization, Fechamento, FechamentoCheck } from '../shared/types';
+import { getFechamentos, upsertFechamento, createFechamentoEvento } from '../storage/tableClient';
+import { competenciaDate, caixaDate } from './reportPeriod';
+import { openDocuments } from './reconciliationWorkbench';
+import { reportingItems } from './splitTransactions';
+
+const logger = createLogger('MonthlyClose');
+
+/** Papel do Static Web Apps autorizado a reabrir meses fechados */
+export const FECHAMENTO_ROLE = process.env.GUARDIAN_FECHAMENTO_ROLE || 'admin';
+
+const UNCLASSIFIED = 'Despesas Nao Classificadas';
+const MAX_CHECK_ITEMS = 20;
+
+/** Months an item feeds: its competência (DRE) and its payment (DFC) */
+export function affectedPeriods(a: GuardianAuthorization): string[] {
+    const meses = [competenciaDate(a).substring(0, 7), caixaDate(a).substring(0, 7)];
+    return meses.filter((m, i) => m && meses.indexOf(m) === i);
+}
+
+export async function getClosedPeriods(): Promise<Set<string>> {
+    return new Set((await getFechamentos()).filter(f => f.status === 'fechado').map(f => f.id));
+}
+
+/**
+ * Error message when an edit touches a closed month. Pass the item as it is and as it would
+ * become — moving a line out of (or into) a closed month changes that month too.
+ */
+export function lockedPeriodError(closed: Set<string>, ...versions: GuardianAuthorization[]): string | null {
+    const hits = versions.flatMap(affectedPeriods).filter((p, i, arr) => closed.has(p) && arr.indexOf(p) === i);
+    return hits.length > 0 ? `Período ${hits.sort().join(', ')} fechado. Reabra o mês para alterar lançamentos.` : null;
+}
+
+/** Pre-close checks: pending items and unclassified lines block; unreconciled documents only warn */
+export function runPreCloseChecks(periodo: string, all: GuardianAuthorization[], categorias: Set<string>): FechamentoCheck[] {
+    const noPeriodo = (a: GuardianAuthorization) => affectedPeriods(a).includes(periodo);
+
+    const pendentes = all.filter(a => a.status === 'pendente' && noPeriodo(a));
+    const documentos = openDocuments(all).docs.filter(d => (d.date || '').substring(0, 7) === periodo);
+    const naoClassificados = reportingItems(all.filter(a => a.status === 'aprovado'))
+        .filter(a => noPeriodo(a) && (a.classificacao === UNCLASSIFIED || !categorias.has(a.classificacao)));
+
+    return [
+        {
+            codigo: 'pendentes',
+            descricao: 'Lançamentos aguardando aprovação no período',
+            severidade: 'bloqueante',
+            quantidade: pendentes.length,
+            itens: pendentes.slice(0, MAX_CHECK_ITEMS).map(a => a.id),
+        },
+        {
+            codigo: 'nao_classificados',
+            descricao: 'Lançamentos aprovados sem categoria válida',
+            severidade: 'bloqueante',
+            quantidade: naoClassificados.length,
+            itens: naoClassificados.slice(0, MAX_CHECK_ITEMS).map(a => a.id),
+        },
+        {
+            codigo: 'documentos_sem_conciliacao',
+            descricao: 'Documentos do período sem pagamento conciliado',
+            severidade: 'aviso',
+            quantidade: documentos.length,
+            itens: documentos.slice(0, MAX_CHECK_ITEMS).map(d => d.id),
+        },
+    ];
+}
+
+export function blockingChecks(checks: FechamentoCheck[]): FechamentoCheck[] {
+    return checks.filter(c => c.severidade === 'bloqueante' && c.quantidade > 0);
+}
+
+/** Freezes the month: stores the snapshot and logs who closed it */
+export async function closePeriod(periodo: string, snapshot: Record<string, unknown>, checks: FechamentoCheck[], usuario: string): Promise<Fechamento> {
+    const fechamento: Fechamento = {
+        id: periodo,
+        status: 'fechado',
+        fechadoEm: nowISO(),
+        fechadoPor: usuario,
+        snapshotJson: JSON.stringify(snapshot),
+        snapshot,
+        checksJson: JSON.stringify(checks),
+        checks,
+    };
+    await upsertFechamento(fechamento);
+    await createFechamentoEvento({ id: generateId('FECH'), periodo, acao: 'fechar', usuario, registradoEm: nowISO() });
+    logger.info(`Mês ${periodo} fechado por ${usuario}`);
+    return fechamento;
+}
+
+/** Reopens a closed month; the last snapshot is kept until the next close overwrites it */
+export async function reopenPeriod(fechamento: Fechamento, usuario: string, motivo: string): Promise<Fechamento> {
+    const reaberto: Fechamento = { ...fechamento, status: 'reaberto', reabertoEm: nowISO(), reabertoPor: usuario };
+    await upsertFechamento(reaberto);
+    await createFechamentoEvento({ id: generateId('FECH'), periodo: fechamento.id, acao: 'reabrir', usuario, registradoEm: nowISO(), motivo });
+    logger.info(`Mês ${fechamento.id} reaberto por ${usuario}: ${motivo}`);
+    return reaberto;
+}
@@ -0,0 +1,132 @@
+import { createLogger, generateId } from '../shared/utils';
+import { InterTransaction } from './interConnector';
+
+const logger = createLogger('OFXParser');
+
+/** Extrato bancário lido de um arquivo OFX (1.x SGML ou 2.x XML) */
+export interface OFXStatement {
+    bankId?: string;
+    accountId?: string;
+    currency?: string;
+    startDate?: string;
+    endDate?: string;
+    /** Saldo contábil (LEDGERBAL) informado pelo banco no fim do extrato */
+    balance?: { valor: number; data: string };
+    transactions: InterTransaction[];
+}
+
+/** Decodes raw OFX bytes honoring the CHARSET/encoding declared in the header */
+export function decodeOFX(content: Buffer): string {
+    const head = content.subarray(0, 512).toString('latin1').toUpperCase();
+    const isLatin1 = head.includes('CHARSET:1252')
+        || head.includes('CHARSET:ISO-8859-1')
+        || head.includes('ENCODING="ISO-8859-1"')
+        || head.includes('ENCODING="WINDOWS-1252"');
+    return content.toString(isLatin1 ? 'latin1' : 'utf8');
+}
+
+/** Returns true when the content looks like an OFX file */
+export function isOFX(content: string): boolean {
+    return /OFXHEADER|<\?OFX|<OFX>/i.test(content.substring(0, 1024));
+}
+
+/**
+ * Parses OFX 1.x (SGML, elements without closing tags) and 2.x (XML).
+ * Aggregates (<STMTTRN>, <LEDGERBAL>) are closed in both versions, so each one
+ * is isolated first and its leaf elements are read with a tolerant regex.
+ */
+export function parseOFX(content: string): OFXStatement {
+    const body = content.substring(Math.max(0, content.search(/<OFX>/i)));
+
+    const transactions: InterTransaction[] = [];
+    for (const block of findBlocks(body, 'STMTTRN')) {
+        const tx = parseTransaction(block);
+        if (tx) transactions.push(tx);
+    }
+
+    const ledger = findBlocks(body, 'LEDGERBAL')[0];
+    const balanceAmount = ledger ? parseAmount(readElement(ledger, 'BALAMT')) : null;
+    const balanceDate = ledger ? parseOFXDate(readElement(ledger, 'DTASOF')) : null;
+
+    const statement: OFXStatement = {
+        bankId: readElement(body, 'BANKID') || undefined,
+        accountId: readElement(body, 'ACCTID') || undefined,
+        currency: readElement(body, 'CURDEF') || undefined,
+        startDate: parseOFXDate(readElement(body, 'DTSTART')) || undefined,
+        endDate: parseOFXDate(readElement(body, 'DTEND')) || undefined,
+        balance: balanceAmount !== null && balanceDate ? { valor: balanceAmount, data: balanceDate } : undefined,
+        transactions,
+    };
+
+    logger.info(`OFX lido: ${transactions.length} transações (conta ${statement.accountId || 'n/d'})`);
+    return statement;
+}
+
+function parseTransaction(block: string): InterTransaction | null {
+    const data = parseOFXDate(readElement(block, 'DTPOSTED'));
+    const amount = parseAmount(readElement(block, 'TRNAMT'));
+    if (!data || amount === null) {
+        logger.warn('STMTTRN ignorado: DTPOSTED/TRNAMT ausente ou inválido');
+        return null;
+    }
+
+    const name = readElement(block, 'NAME');
+    const memo = readElement(block, 'MEMO');
+    const descricao = name && memo && !memo.toUpperCase().includes(name.toUpperCase())
+        ? `${name} - ${memo}`
+        : memo || name || readElement(block, 'TRNTYPE');
+
+    // TRNAMT sign is authoritative; TRNTYPE only breaks the tie for zero amounts
+    const trnType = readElement(block, 'TRNTYPE').toUpperCase();
+    const isCredit = amount > 0 || (amount === 0 && trnType === 'CREDIT');
+
+    const fitId = readElement(block, 'FITID');
+    return {
+        id: generateId('OFX'),
+        data,
+        tipo: isCredit ? 'CREDITO' : 'DEBITO',
+        valor: Math.abs(amount),
+        descricao,
+        idExterno: fitId || undefined,
+    };
+}
+
+/** Returns the inner content of every <tag>...</tag> aggregate */
+function findBlocks(content: string, tag: string): string[] {
+    const re = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'gi');
+    const blocks: string[] = [];
+    let m: RegExpExecArray | null;
+    while ((m = re.exec(content)) !== null) blocks.push(m[1]);
+    return blocks;
+}
+
+/** Reads a leaf element value — works with and without closing tags */
+function readElement(content: string, tag: string): string {
+    const m = content.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+    return m ? decodeEntities(m[1].trim()) : '';
+}
+
+function decodeEntities(value: string): string {
+    return value
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&amp;/g, '&');
+}
+
+/** OFX dates: YYYYMMDD[HHMMSS[.XXX]][[-3:BRT]] → YYYY-MM-DD */
+function parseOFXDate(value: string): string | null {
+    const m = value.match(/^(\d{4})(\d{2})(\d{2})/);
+    return m ? `${m[1]}-${m[2]}-${m[3]}` : null;
+}
+
+/** Accepts "-1234.56" and the "-1234,56" variant emitted by some Brazilian banks */
+function parseAmount(value: string): number | null {
+    if (!value) return null;
+    const normalized = value.includes(',') && !value.includes('.')
+        ? value.replace(',', '.')
+        : value.replace(/,/g, '');
+    const n = parseFloat(normalized);
+    return isNaN(n) ? null : n;
+}
@@ -0,0 +1,306 @@
+import { createLogger, generateId, nowISO } from '../shared/utils';
+import { AjusteDiaUtil, ContaPagar, ContaPagarStatus, Recorrencia } from '../shared/types';
+import { getTitulos, upsertTitulo, deleteTitulo } from '../storage/financeTableClient';
+
+const logger = createLogger('Payables');
+
+export const PAYABLE_STATUSES: ContaPagarStatus[] = ['aberto', 'agendado', 'pago', 'vencido', 'cancelado'];
+export const RECORRENCIAS: Recorrencia[] = ['nenhuma', 'mensal', 'trimestral', 'anual'];
+
+/** Débito do extrato aceito como pagamento de um título vencendo até X dias antes/depois */
+const SETTLE_DAYS_BEFORE = 5;
+const SETTLE_DAYS_AFTER = 10;
+/** Títulos estimados (impostos previstos) aceitam débito com diferença de até X% do valor previsto */
+const ESTIMATE_TOLERANCE_PCT = parseFloat(process.env.GUARDIAN_ESTIMADO_TOLERANCIA_PCT || '20');
+
+const RECURRENCE_MONTHS: Record<Recorrencia, number> = { nenhuma: 0, mensal: 1, trimestral: 3, anual: 12 };
+/** Palavras de razão social que não identificam o fornecedor no extrato */
+const GENERIC_NAME_WORDS = new Set(['LTDA', 'EIRELI', 'SERVICOS', 'COMERCIO', 'BRASIL', 'EMPRESA']);
+
+/** Débito bancário candidato a quitar um título */
+export interface BankDebit {
+    authId: string;
+    data: string;
+    valor: number;
+    descricao: string;
+    cpfCnpj?: string;
+    contaId?: string;
+}
+
+export interface AgingBucket {
+    faixa: string;
+    quantidade: number;
+    total: number;
+}
+
+export interface AgingReport {
+    dataBase: string;
+    vencido: AgingBucket[];
+    aVencer: AgingBucket[];
+    totalVencido: number;
+    totalAVencer: number;
+}
+
+export function today(): string {
+    return nowISO().substring(0, 10);
+}
+
+export function isOpen(p: ContaPagar): boolean {
+    return p.status === 'aberto' || p.status === 'agendado' || p.status === 'vencido';
+}
+
+/** Open payables past their due date read as 'vencido' — the stored status never needs a batch job */
+export function effectiveStatus(p: ContaPagar, dataBase: string = today()): ContaPagarStatus {
+    if ((p.status === 'aberto' || p.status === 'agendado') && p.dataVencimento < dataBase) return 'vencido';
+    return p.status;
+}
+
+export function withEffectiveStatus(payables: ContaPagar[], dataBase: string = today()): ContaPagar[] {
+    return payables.map(p => ({ ...p, status: effectiveStatus(p, dataBase) }));
+}
+
+export function validatePayable(record: Partial<ContaPagar>): string | null {
+    if (!record.id || !record.fornecedor) return 'Campos "id" e "fornecedor" são obrigatórios.';
+    if (!record.categoria) return 'Campo "categoria" é obrigatório.';
+    if (typeof record.valor !== 'number' || !(record.valor > 0)) return 'Campo "valor" deve ser um número positivo.';
+    if (!isDate(record.dataVencimento)) return 'Campo "dataVencimento" deve estar no formato YYYY-MM-DD.';
+    if (record.dataCompetencia && !isDate(record.dataCompetencia)) return 'Campo "dataCompetencia" deve estar no formato YYYY-MM-DD.';
+    if (record.recorrencia && !RECORRENCIAS.includes(record.recorrencia)) return `Recorrência inválida. Use: ${RECORRENCIAS.join(', ')}`;
+    if (record.status && !PAYABLE_STATUSES.includes(record.status)) return `Status inválido. Use: ${PAYABLE_STATUSES.join(', ')}`;
+    return null;
+}
+
+/** Open payables by days overdue / days until due, relative to `dataBase` */
+export function buildAging(payables: ContaPagar[], dataBase: string = today()): AgingReport {
+    const vencido: AgingBucket[] = [
+        { faixa: '1-30', quantidade: 0, total: 0 },
+        { faixa: '31-60', quantidade: 0, total: 0 },
+        { faixa: '61-90', quantidade: 0, total: 0 },
+        { faixa: '90+', quantidade: 0, total: 0 },
+    ];
+    const aVencer: AgingBucket[] = [
+        { faixa: '0-7', quantidade: 0, total: 0 },
+        { faixa: '8-30', quantidade: 0, total: 0 },
+        { faixa: '31-60', quantidade: 0, total: 0 },
+        { faixa: '60+', quantidade: 0, total: 0 },
+    ];
+
+    for (const p of payables.filter(isOpen)) {
+        const dias = daysBetween(dataBase, p.dataVencimento);
+        const bucket = dias < 0
+            ? vencido[-dias <= 30 ? 0 : -dias <= 60 ? 1 : -dias <= 90 ? 2 : 3]
+            : aVencer[dias <= 7 ? 0 : dias <= 30 ? 1 : dias <= 60 ? 2 : 3];
+        bucket.quantidade++;
+        bucket.total = round2(bucket.total + p.valor);
+    }
+
+    return {
+        dataBase,
+        vencido,
+        aVencer,
+        totalVencido: round2(vencido.reduce((s, b) => s + b.total, 0)),
+        totalAVencer: round2(aVencer.reduce((s, b) => s + b.total, 0)),
+    };
+}
+
+/** Next title of a recurring series (same supplier/category/amount, due date shifted) */
+export function nextOccurrence(p: ContaPagar): ContaPagar | null {
+    const months = RECURRENCE_MONTHS[p.recorrencia] || 0;
+    if (!months) return null;
+    return {
+        id: generateId('CP'),
+        fornecedor: p.fornecedor,
+        fornecedorCnpj: p.fornecedorCnpj,
+        categoria: p.categoria,
+        descricao: p.descricao,
+        valor: p.valor,
+        dataCompetencia: addMonths(p.dataCompetencia || p.dataVencimento, months),
+        dataVencimento: addMonths(p.dataVencimento, months),
+        status: 'aberto',
+        recorrencia: p.recorrencia,
+        recorrenteDe: p.id,
+        contaId: p.contaId,
+        criadoEm: nowISO(),
+    };
+}
+
+/**
+ * Marks a payable as paid and, for recurring series, opens the next one
+ * (unless it already exists — settling twice never forks the series).
+ */
+export async function settlePayable(
+    p: ContaPagar,
+    baixa: { dataPagamento: string; valorPago?: number; transacaoId?: string; contaId?: string }
+): Promise<ContaPagar> {
+    const paid: ContaPagar = {
+        ...p,
+        status: 'pago',
+        dataPagamento: baixa.dataPagamento,
+        valorPago: baixa.valorPago ?? p.valor,
+        transacaoId: baixa.transacaoId || p.transacaoId,
+        contaId: baixa.contaId || p.contaId,
+        atualizadoEm: nowISO(),
+    };
+    await upsertTitulo('pagar', paid);
+
+    const next = nextOccurrence(paid);
+    if (next) {
+        const all = await getTitulos<ContaPagar>('pagar');
+        if (!all.some(t => t.recorrenteDe === paid.id)) {
+            await upsertTitulo('pagar', next);
+            logger.info(`Recorrência: próximo título ${next.id} vence em ${next.dataVencimento}`);
+        }
+    }
+    logger.info(`Título ${p.id} pago em ${baixa.dataPagamento}${baixa.transacaoId ? ` (${baixa.transacaoId})` : ''}`);
+    return paid;
+}
+
+/** Same amount, or for estimated titles (taxes) a difference within the tolerance */
+function amountMatches(p: ContaPagar, debit: BankDebit): boolean {
+    if (Math.abs(p.valor - debit.valor) < 0.01) return true;
+    return !!p.estimado && Math.abs(p.valor - debit.valor) <= p.valor * ESTIMATE_TOLERANCE_PCT / 100;
+}
+
+/**
+ * What ties a debit to a payable besides the amount: the supplier's document, the title's keyword or,
+ * for exact amounts, a word of the supplier's name in the statement. The amount alone never settles.
+ */
+function hasEvidence(p: ContaPagar, debit: BankDebit, docDebito: string): boolean {
+    if (p.fornecedorCnpj && docDebito && p.fornecedorCnpj.replace(/\D/g, '') === docDebito) return true;
+    const palavras = words(debit.descricao);
+    if (p.palavraChave && normalizeText(debit.descricao).includes(normalizeText(p.palavraChave))) return true;
+    if (Math.abs(p.valor - debit.valor) >= 0.01) return false;
+    return words(p.fornecedor).some(w => w.length >= 4 && !GENERIC_NAME_WORDS.has(w) && palavras.includes(w));
+}
+
+/**
+ * Pairs bank debits with open payables: same amount (or, for estimated titles, close enough),
+ * paid within the due-date window, never against another supplier document, and with evidence
+ * of the supplier (document, keyword or name) in the debit.
+ * Exact amounts win, then the closest due date; each payable and each debit is used at most once.
+ */
+export function matchPayables(payables: ContaPagar[], debits: BankDebit[]): Array<{ payable: ContaPagar; debit: BankDebit }> {
+    const open = payables.filter(isOpen);
+    const used = new Set<string>();
+    const pairs: Array<{ payable: ContaPagar; debit: BankDebit }> = [];
+
+    for (const debit of debits) {
+        const docDebito = (debit.cpfCnpj || '').replace(/\D/g, '');
+        const candidates = open
+            .filter(p => !used.has(p.id) && amountMatches(p, debit))
+            .filter(p => {
+                const dias = daysBetween(p.dataVencimento, debit.data);
+                return dias >= -SETTLE_DAYS_BEFORE && dias <= SETTLE_DAYS_AFTER;
+            })
+            .filter(p => !p.fornecedorCnpj || !docDebito || p.fornecedorCnpj.replace(/\D/g, '') === docDebito)
+            .filter(p => hasEvidence(p, debit, docDebito))
+            .sort((a, b) => exactFirst(a, b, debit.valor)
+                || Math.abs(daysBetween(a.dataVencimento, debit.data)) - Math.abs(daysBetween(b.dataVencimento, debit.data)));
+
+        if (candidates.length > 0) {
+            used.add(candidates[0].id);
+            pairs.push({ payable: candidates[0], debit });
+        }
+    }
+    return pairs;
+}
+
+/** Settles every open payable matched by the given debits (called by the transaction pipeline) */
+export async function settlePayablesFromDebits(debits: BankDebit[]): Promise<Array<{ payable: ContaPagar; debit: BankDebit }>> {
+    if (debits.length === 0) return [];
+    const pairs = matchPayables(await getTitulos<ContaPagar>('pagar'), debits);
+    for (const { payable, debit } of pairs) {
+        await settlePayable(payable, { dataPagamento: debit.data, valorPago: debit.valor, transacaoId: debit.authId, contaId: debit.contaId });
+    }
+    if (pairs.length > 0) logger.info(`Baixa automática: ${pairs.length} título(s) quitado(s) pelo extrato`);
+    return pairs;
+}
+
+/**
+ * Undoes automatic settlements whose bank debit was rejected (or wiped): the title goes back to
+ * open and the recurrence it spawned is removed while nothing happened to it yet.
+ */
+export async function reopenPayablesSettledBy(transacaoIds: string[]): Promise<ContaPagar[]> {
+    const ids = new Set(transacaoIds);
+    const all = await getTitulos<ContaPagar>('pagar');
+    const settled = all.filter(p => p.status === 'pago' && p.transacaoId && ids.has(p.transacaoId));
+    for (const p of settled) {
+        const { dataPagamento, valorPago, transacaoId, ...rest } = p;
+        await upsertTitulo('pagar', { ...rest, status: p.agendadoPara ? 'agendado' : 'aberto', atualizadoEm: nowISO() });
+        const next = all.find(t => t.recorrenteDe === p.id && t.status === 'aberto' && !t.transacaoId);
+        if (next) await deleteTitulo('pagar', next.id);
+        logger.info(`Baixa de ${p.id} desfeita (${transacaoId} rejeitada)${next ? `; recorrência ${next.id} removida` : ''}`);
+    }
+    return settled;
+}
+
+/**
+ * Upserts system-generated expected payables (DAS, tax calendar) keyed by their deterministic ids.
+ * Paid or cancelled titles are never touched; open ones follow the new estimate.
+ */
+export async function upsertExpectedPayables(titulos: ContaPagar[]): Promise<{ criados: number; atualizados: number; ignorados: number }> {
+    const existentes = new Map((await getTitulos<ContaPagar>('pagar')).map(p => [p.id, p]));
+    const result = { criados: 0, atualizados: 0, ignorados: 0 };
+
+    for (const t of titulos) {
+        const atual = existentes.get(t.id);
+        if (atual && (atual.status === 'pago' || atual.status === 'cancelado')) {
+            result.ignorados++;
+            continue;
+        }
+        if (atual && Math.abs(atual.valor - t.valor) < 0.01 && atual.dataVencimento === t.dataVencimento) {
+            result.ignorados++;
+            continue;
+        }
+        await upsertTitulo('pagar', atual
+            ? { ...atual, ...t, categoria: atual.categoria, status: atual.status, criadoEm: atual.criadoEm, atualizadoEm: nowISO() }
+            : t);
+        if (atual) result.atualizados++; else result.criados++;
+    }
+    return result;
+}
+
+// ---- Helpers ----
+
+function exactFirst(a: ContaPagar, b: ContaPagar, valor: number): number {
+    return Number(Math.abs(a.valor - valor) >= 0.01) - Number(Math.abs(b.valor - valor) >= 0.01);
+}
+
+function normalizeText(value: string | undefined): string {
+    return (value || '').normalize('NFD').replace(/[\u0300-\u036f]/g, '').toUpperCase();
+}
+
+function words(value: string | undefined): string[] {
+    return normalizeText(value).split(/[^A-Z0-9]+/).filter(Boolean);
+}
+
+function isDate(value: unknown): value is string {
+    return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+}
+
+/** Whole days from `from` to `to` (negative when `to` is earlier) */
+export function daysBetween(from: string, to: string): number {
+    return Math.round((Date.parse(to.substring(0, 10) + 'T00:00:00Z') - Date.parse(from.substring(0, 10) + 'T00:00:00Z')) / 86400000);
+}
+
+export function addMonths(date: string, months: number): string {
+    const [y, m, d] = date.substring(0, 10).split('-').map(Number);
+    const target = new Date(Date.UTC(y, m - 1 + months, 1));
+    const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+    target.setUTCDate(Math.min(d, lastDay));
+    return target.toISOString().substring(0, 10);
+}
+
+/** Moves a weekend date to Friday ('antecipar') or Monday ('postergar'); holidays are not modelled */
+export function shiftBusinessDay(date: string, ajuste: AjusteDiaUtil): string {
+    const d = new Date(date.substring(0, 10) + 'T00:00:00Z');
+    const diaSemana = d.getUTCDay();
+    if (ajuste === 'nenhum' || (diaSemana !== 0 && diaSemana !== 6)) return date.substring(0, 10);
+    if (ajuste === 'antecipar') d.setUTCDate(d.getUTCDate() - (diaSemana === 6 ? 1 : 2));
+    else d.setUTCDate(d.getUTCDate() + (diaSemana === 6 ? 2 : 1));
+    return d.toISOString().substring(0, 10);
+}
+
+function round2(v: number): number {
+    return Math.round(v * 100) / 100;
+}
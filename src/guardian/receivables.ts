@@ -0,0 +1,178 @@
+import { createLogger, nowISO } from '../shared/utils';
+import { ContaReceber, ContaReceberStatus } from '../shared/types';
+import { ComercialDeal } from '../shared/areas';
+import { getTitulos, upsertTitulo } from '../storage/financeTableClient';
+import { addMonths, daysBetween, today } from './payables';
+
+const logger = createLogger('Receivables');
+
+export const RECEIVABLE_STATUSES: ContaReceberStatus[] = ['aberto', 'recebido', 'vencido', 'cancelado'];
+
+/** Prazo entre o fechamento (ou início de cada período) e o vencimento da cobrança */
+const PRAZO_DIAS = parseInt(process.env.GUARDIAN_RECEBER_PRAZO_DIAS || '30', 10);
+/** Quantos meses de parcelas recorrentes são projetados ao ganhar um deal */
+const HORIZONTE_MESES = parseInt(process.env.GUARDIAN_RECEBER_HORIZONTE_MESES || '12', 10);
+
+/** Cliente costuma pagar atrasado: a janela de baixa é mais larga que a de contas a pagar */
+const SETTLE_DAYS_BEFORE = 10;
+const SETTLE_DAYS_AFTER = 45;
+
+const STEP_MONTHS: Record<ComercialDeal['recorrencia'], number> = { unico: 0, mensal: 1, trimestral: 3, anual: 12 };
+
+/** Crédito bancário candidato a quitar um título */
+export interface BankCredit {
+    authId: string;
+    data: string;
+    valor: number;
+    descricao: string;
+    cpfCnpj?: string;
+    contaId?: string;
+}
+
+export function isOpenReceivable(r: ContaReceber): boolean {
+    return r.status === 'aberto' || r.status === 'vencido';
+}
+
+export function effectiveReceivableStatus(r: ContaReceber, dataBase: string = today()): ContaReceberStatus {
+    return r.status === 'aberto' && r.dataVencimento < dataBase ? 'vencido' : r.status;
+}
+
+export function withEffectiveReceivableStatus(receivables: ContaReceber[], dataBase: string = today()): ContaReceber[] {
+    return receivables.map(r => ({ ...r, status: effectiveReceivableStatus(r, dataBase) }));
+}
+
+/**
+ * Expected receipts for a won deal: one title for 'unico', otherwise one per period
+ * within the projection horizon. Ids are derived from the deal, so regenerating is idempotent.
+ */
+export function scheduleFromDeal(deal: ComercialDeal): ContaReceber[] {
+    const fechamento = (deal.dataFechamento || today()).substring(0, 10);
+    const step = STEP_MONTHS[deal.recorrencia] || 0;
+    const parcelas = step === 0 ? 1 : Math.max(1, Math.floor(HORIZONTE_MESES / step));
+    const primeiroVencimento = addDays(fechamento, PRAZO_DIAS);
+    const competenciaBase = fechamento.substring(0, 7) + '-01';
+
+    return Array.from({ length: parcelas }, (_, i) => ({
+        id: `CR_${deal.id}_${i + 1}`,
+        cliente: deal.empresa,
+        categoria: step === 0 ? 'Receita de Servicos' : 'Receita Recorrente',
+        descricao: parcelas > 1 ? `${deal.servico} (${i + 1}/${parcelas})` : deal.servico,
+        valor: deal.valor,
+        dataCompetencia: addMonths(competenciaBase, i * step),
+        dataVencimento: addMonths(primeiroVencimento, i * step),
+        status: 'aberto' as const,
+        parcela: i + 1,
+        totalParcelas: parcelas,
+        dealId: deal.id,
+        criadoEm: nowISO(),
+    }));
+}
+
+/**
+ * Keeps a deal's receivables in step with its stage: entering fechado_ganho creates the
+ * schedule (once); leaving it — reopened, lost or deleted — cancels what is still open.
+ */
+export async function syncDealReceivables(deal: ComercialDeal | null, previous?: ComercialDeal | null): Promise<{ criados: number; cancelados: number }> {
+    const dealId = deal?.id || previous?.id;
+    if (!dealId) return { criados: 0, cancelados: 0 };
+
+    const existing = (await getTitulos<ContaReceber>('receber')).filter(r => r.dealId === dealId);
+
+    if (deal?.estagio === 'fechado_ganho') {
+        if (existing.some(r => r.status !== 'cancelado')) return { criados: 0, cancelados: 0 };
+        const schedule = scheduleFromDeal(deal);
+        for (const r of schedule) {
+            await upsertTitulo('receber', r);
+        }
+        logger.info(`Deal ${dealId} ganho: ${schedule.length} título(s) a receber gerado(s)`);
+        return { criados: schedule.length, cancelados: 0 };
+    }
+
+    const open = existing.filter(isOpenReceivable);
+    for (const r of open) {
+        await upsertTitulo('receber', { ...r, status: 'cancelado', atualizadoEm: nowISO() });
+    }
+    if (open.length > 0) logger.info(`Deal ${dealId} saiu de fechado_ganho: ${open.length} título(s) cancelado(s)`);
+    return { criados: 0, cancelados: open.length };
+}
+
+/** Credits that can settle a receivable: transfers (PIX/TED/DOC), not boletos or yields */
+export function isTransferCredit(descricao: string): boolean {
+    return /\b(PIX|TED|TEF|DOC|TRANSF\w*)\b/.test((descricao || '').toUpperCase());
+}
+
+/**
+ * Pairs PIX/TED credits with open receivables: same amount, received inside the window around
+ * the due date and, when both sides know it, from the client's CNPJ/CPF. Closest due date wins.
+ */
+export function matchReceivables(receivables: ContaReceber[], credits: BankCredit[]): Array<{ receivable: ContaReceber; credit: BankCredit }> {
+    const open = receivables.filter(isOpenReceivable);
+    const used = new Set<string>();
+    const pairs: Array<{ receivable: ContaReceber; credit: BankCredit }> = [];
+
+    for (const credit of credits.filter(c => isTransferCredit(c.descricao))) {
+        const docPagador = (credit.cpfCnpj || '').replace(/\D/g, '');
+        const candidates = open
+            .filter(r => !used.has(r.id) && Math.abs(r.valor - credit.valor) < 0.01)
+            .filter(r => {
+                const dias = daysBetween(r.dataVencimento, credit.data);
+                return dias >= -SETTLE_DAYS_BEFORE && dias <= SETTLE_DAYS_AFTER;
+            })
+            .filter(r => !r.clienteCnpj || !docPagador || r.clienteCnpj.replace(/\D/g, '') === docPagador)
+            .sort((a, b) => Math.abs(daysBetween(a.dataVencimento, credit.data)) - Math.abs(daysBetween(b.dataVencimento, credit.data)));
+
+        if (candidates.length > 0) {
+            used.add(candidates[0].id);
+            pairs.push({ receivable: candidates[0], credit });
+        }
+    }
+    return pairs;
+}
+
+export async function settleReceivable(
+    r: ContaReceber,
+    baixa: { dataRecebimento: string; valorRecebido?: number; transacaoId?: string; contaId?: string }
+): Promise<ContaReceber> {
+    const received: ContaReceber = {
+        ...r,
+        status: 'recebido',
+        dataRecebimento: baixa.dataRecebimento,
+        valorRecebido: baixa.valorRecebido ?? r.valor,
+        transacaoId: baixa.transacaoId || r.transacaoId,
+        contaId: baixa.contaId || r.contaId,
+        atualizadoEm: nowISO(),
+    };
+    await upsertTitulo('receber', received);
+    logger.info(`Título ${r.id} recebido em ${baixa.dataRecebimento}${baixa.transacaoId ? ` (${baixa.transacaoId})` : ''}`);
+    return received;
+}
+
+/** Settles every open receivable matched by the given credits (called by the transaction pipeline) */
+export async function settleReceivablesFromCredits(credits: BankCredit[]): Promise<Array<{ receivable: ContaReceber; credit: BankCredit }>> {
+    if (credits.length === 0) return [];
+    const pairs = matchReceivables(await getTitulos<ContaReceber>('receber'), credits);
+    for (const { receivable, credit } of pairs) {
+        await settleReceivable(receivable, { dataRecebimento: credit.data, valorRecebido: credit.valor, transacaoId: credit.authId, contaId: credit.contaId });
+    }
+    if (pairs.length > 0) logger.info(`Baixa automática: ${pairs.length} título(s) a receber quitado(s) pelo extrato`);
+    return pairs;
+}
+
+/** Undoes automatic settlements whose bank credit was rejected (or wiped): the title is open again */
+export async function reopenReceivablesSettledBy(transacaoIds: string[]): Promise<ContaReceber[]> {
+    const ids = new Set(transacaoIds);
+    const settled = (await getTitulos<ContaReceber>('receber'))
+        .filter(r => r.status === 'recebido' && r.transacaoId && ids.has(r.transacaoId));
+    for (const r of settled) {
+        const { dataRecebimento, valorRecebido, transacaoId, ...rest } = r;
+        await upsertTitulo('receber', { ...rest, status: 'aberto', atualizadoEm: nowISO() });
+        logger.info(`Recebimento de ${r.id} desfeito (${transacaoId} rejeitada)`);
+    }
+    return settled;
+}
+
+function addDays(date: string, days: number): string {
+    const d = new Date(date.substring(0, 10) + 'T00:00:00Z');
+    d.setUTCDate(d.getUTCDate() + days);
+    return d.toISOString().substring(0, 10);
+}
@@ -0,0 +1,310 @@
+import { extractLearningTokens } from '../shared/types';
+import { AnalysisResult } from './guardianAgents';
+
+/**
+ * Reconciliation engine — pairs bank transactions with open documents (NF-e, NFS-e, boletos).
+ *
+ * Each candidate pair is scored from four signals: amount, date, counterparty CNPJ and
+ * description similarity. Signals the data doesn't carry count as neutral (0.5), so an
+ * amount-only match is accepted but never scores as high as a corroborated one.
+ * Matching runs in three passes: one transaction ↔ one document, one payment settling
+ * several documents, and partial payments that leave a balance open on the document.
+ */
+
+export type ReconciliationKind = 'total' | 'multiplo' | 'parcial';
+
+export interface ReconciliationAllocation {
+    documentId: string;
+    valor: number;
+}
+
+export interface ReconciliationMatch {
+    transactionId: string;
+    tipo: ReconciliationKind;
+    /** 0–1, média ponderada dos sinais */
+    score: number;
+    documentIds: string[];
+    /** Quanto do pagamento foi aplicado a cada documento */
+    alocacoes: ReconciliationAllocation[];
+    /** Parcial: saldo que continua em aberto no documento */
+    saldoRestante: number;
+    /** Motivos legíveis (ex: "valor exato", "CNPJ confere", "2 dias do vencimento") */
+    motivos: string[];
+}
+
+const WEIGHTS = { valor: 0.5, data: 0.2, cnpj: 0.2, descricao: 0.1 };
+const NEUTRAL = 0.5;
+/** Abaixo disso o par não é conciliado automaticamente */
+export const MIN_MATCH_SCORE = 0.6;
+
+/** Diferença aceita entre pagamento e documento: 1% do valor, limitada a R$ 5 */
+const AMOUNT_TOLERANCE_PCT = 0.01;
+const AMOUNT_TOLERANCE_MAX = 5;
+/** Pagamento até 10 dias antes / 60 depois da data do documento (boleto a prazo) */
+const DAYS_BEFORE = 10;
+const DAYS_AFTER = 60;
+/** Até 3 dias de diferença conta como data exata */
+const DAYS_EXACT = 3;
+
+const MAX_GROUP_CANDIDATES = 10;
+const MAX_GROUP_SIZE = 4;
+
+interface Signals {
+    data: number;
+    cnpj: number;
+    descricao: number;
+    /** CNPJ confirmado ou descrição em comum — não só ausência de conflito */
+    contraparteConfirmada: boolean;
+    motivos: string[];
+}
+
+/** Open amount of a document: net of withholdings when the fiscal data is known, minus what was already paid */
+export function documentBalance(doc: AnalysisResult, paid: Map<string, number> = new Map()): number {
+    const devido = doc.fiscal?.valorLiquido || doc.value;
+    return round2(devido - (paid.get(doc.id) || 0));
+}
+
+/**
+ * Scores every transaction against the open documents and returns the accepted matches.
+ * `paid` carries amounts already applied to documents by earlier (partial) reconciliations.
+ */
+export function reconcileTransactions(
+    txs: AnalysisResult[],
+    docs: AnalysisResult[],
+    paid: Map<string, number> = new Map()
+): ReconciliationMatch[] {
+    const saldo = new Map(docs.map(d => [d.id, documentBalance(d, paid)]));
+    const open = docs.filter(d => (saldo.get(d.id) || 0) > 0.01);
+    const partiallyPaid = new Set(docs.filter(d => (paid.get(d.id) || 0) > 0).map(d => d.id));
+    const usedDocs = new Set<string>();
+    const matched = new Map<string, ReconciliationMatch>();
+
+    // 1) Um pagamento ↔ um documento: melhor par primeiro, não a primeira transação da lista
+    const pairs: Array<{ tx: AnalysisResult; doc: AnalysisResult; score: number; motivos: string[] }> = [];
+    for (const tx of txs) {
+        for (const doc of open) {
+            const amount = amountSignal(tx.value, saldo.get(doc.id)!);
+            const signals = amount && compareSignals(tx, doc);
+            if (!amount || !signals) continue;
+            const score = weighted(amount.score, signals);
+            if (score >= MIN_MATCH_SCORE) pairs.push({ tx, doc, score, motivos: [amount.motivo, ...signals.motivos] });
+        }
+    }
+    pairs.sort((a, b) => b.score - a.score);
+    for (const p of pairs) {
+        if (matched.has(p.tx.id) || usedDocs.has(p.doc.id)) continue;
+        usedDocs.add(p.doc.id);
+        matched.set(p.tx.id, {
+            transactionId: p.tx.id,
+            tipo: 'total',
+            score: round2(p.score),
+            documentIds: [p.doc.id],
+            alocacoes: [{ documentId: p.doc.id, valor: saldo.get(p.doc.id)! }],
+            saldoRestante: 0,
+            motivos: p.motivos,
+        });
+    }
+
+    // 2) Um pagamento quitando vários documentos (soma exata)
+    for (const tx of txs.filter(t => !matched.has(t.id))) {
+        const candidates = open
+            .filter(d => !usedDocs.has(d.id) && saldo.get(d.id)! < tx.value)
+            .map(d => ({ doc: d, signals: compareSignals(tx, d) }))
+            .filter((c): c is { doc: AnalysisResult; signals: Signals } => c.signals !== null)
+            .sort((a, b) => weighted(1, b.signals) - weighted(1, a.signals))
+            .slice(0, MAX_GROUP_CANDIDATES);
+
+        let best: { group: typeof candidates; score: number } | null = null;
+        for (const group of subsets(candidates, 2, MAX_GROUP_SIZE)) {
+            const soma = group.reduce((s, c) => s + saldo.get(c.doc.id)!, 0);
+            if (Math.abs(soma - tx.value) >= 0.01) continue;
+            const score = group.reduce((s, c) => s + weighted(1, c.signals), 0) / group.length;
+            if (!best || score > best.score) best = { group, score };
+        }
+        if (!best || best.score < MIN_MATCH_SCORE) continue;
+
+        best.group.forEach(c => usedDocs.add(c.doc.id));
+        matched.set(tx.id, {
+            transactionId: tx.id,
+            tipo: 'multiplo',
+            score: round2(best.score),
+            documentIds: best.group.map(c => c.doc.id),
+            alocacoes: best.group.map(c => ({ documentId: c.doc.id, valor: saldo.get(c.doc.id)! })),
+            saldoRestante: 0,
+            motivos: [`soma de ${best.group.length} documentos`, ...unique(best.group.flatMap(c => c.signals.motivos))],
+        });
+    }
+
+    // 3) Pagamento parcial: exige contraparte confirmada (CNPJ ou descrição), o valor sozinho não basta
+    for (const tx of txs.filter(t => !matched.has(t.id))) {
+        let best: { doc: AnalysisResult; score: number; signals: Signals } | null = null;
+        for (const doc of open.filter(d => !usedDocs.has(d.id))) {
+            const restante = saldo.get(doc.id)!;
+            const quitaSaldo = partiallyPaid.has(doc.id) && Math.abs(restante - tx.value) < 0.01;
+            if (!quitaSaldo && restante <= tx.value) continue;
+            const signals = compareSignals(tx, doc);
+            if (!signals || !signals.contraparteConfirmada) continue;
+            const score = weighted(NEUTRAL, signals);
+            if (score >= MIN_MATCH_SCORE && (!best || score > best.score)) best = { doc, score, signals };
+        }
+        if (!best) continue;
+
+        const restante = round2(saldo.get(best.doc.id)! - tx.value);
+        saldo.set(best.doc.id, restante);
+        partiallyPaid.add(best.doc.id);
+        if (restante <= 0.01) usedDocs.add(best.doc.id);
+        matched.set(tx.id, {
+            transactionId: tx.id,
+            tipo: 'parcial',
+            score: round2(best.score),
+            documentIds: [best.doc.id],
+            alocacoes: [{ documentId: best.doc.id, valor: tx.value }],
+            saldoRestante: Math.max(0, restante),
+            motivos: [restante <= 0.01 ? 'quita saldo remanescente' : `pagamento parcial (resta R$ ${restante.toFixed(2)})`, ...best.signals.motivos],
+        });
+    }
+
+    return txs.filter(t => matched.has(t.id)).map(t => matched.get(t.id)!);
+}
+
+export interface ReconciliationCandidate {
+    documentId: string;
+    tipo: Exclude<ReconciliationKind, 'multiplo'>;
+    score: number;
+    /** Saldo em aberto do documento */
+    saldo: number;
+    motivos: string[];
+}
+
+/**
+ * Best single-document candidates for one transaction, scored like the automatic passes
+ * but without assigning anything — what the reconciliation workbench suggests.
+ */
+export function rankCandidates(
+    tx: AnalysisResult,
+    docs: AnalysisResult[],
+    paid: Map<string, number> = new Map(),
+    limit = 3
+): ReconciliationCandidate[] {
+    const candidates: ReconciliationCandidate[] = [];
+    for (const doc of docs) {
+        const saldo = documentBalance(doc, paid);
+        if (saldo <= 0.01) continue;
+        const signals = compareSignals(tx, doc);
+        if (!signals) continue;
+        const amount = amountSignal(tx.value, saldo);
+        if (amount) {
+            candidates.push({ documentId: doc.id, tipo: 'total', score: round2(weighted(amount.score, signals)), saldo, motivos: [amount.motivo, ...signals.motivos] });
+        } else if (saldo > tx.value && signals.contraparteConfirmada) {
+            candidates.push({ documentId: doc.id, tipo: 'parcial', score: round2(weighted(NEUTRAL, signals)), saldo, motivos: ['pagamento parcial', ...signals.motivos] });
+        }
+    }
+    return candidates
+        .filter(c => c.score >= MIN_MATCH_SCORE)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+}
+
+/**
+ * Score the automatic passes would give to a chosen set of documents: the single-document
+ * candidate score, or for several documents the group score when their balances add up to the
+ * payment. Undefined when the engine would not have matched them.
+ */
+export function scoreSelection(tx: AnalysisResult, docs: AnalysisResult[], paid: Map<string, number> = new Map()): number | undefined {
+    if (docs.length === 1) return rankCandidates(tx, docs, paid, 1)[0]?.score;
+    const soma = docs.reduce((s, d) => s + documentBalance(d, paid), 0);
+    if (docs.length === 0 || Math.abs(soma - tx.value) >= 0.01) return undefined;
+    const signals = docs.map(d => compareSignals(tx, d));
+    if (signals.some(s => s === null)) return undefined;
+    const score = signals.reduce((s, sig) => s + weighted(1, sig!), 0) / docs.length;
+    return score >= MIN_MATCH_SCORE ? round2(score) : undefined;
+}
+
+// ---- Sinais ----
+
+function amountSignal(pago: number, devido: number): { score: number; motivo: string } | null {
+    const diff = Math.abs(pago - devido);
+    if (diff < 0.01) return { score: 1, motivo: 'valor exato' };
+    const tolerancia = Math.min(AMOUNT_TOLERANCE_MAX, devido * AMOUNT_TOLERANCE_PCT);
+    if (diff > tolerancia) return null;
+    return { score: 1 - 0.5 * (diff / tolerancia), motivo: `valor com diferença de R$ ${diff.toFixed(2)}` };
+}
+
+/** Date, CNPJ and description signals; null when something rules the pair out (other CNPJ, outside the window) */
+function compareSignals(tx: AnalysisResult, doc: AnalysisResult): Signals | null {
+    const motivos: string[] = [];
+
+    let data = NEUTRAL;
+    const docDate = doc.date || doc.fiscal?.dataEmissao;
+    if (tx.date && docDate) {
+        const dias = daysBetween(docDate, tx.date);
+        if (dias < -DAYS_BEFORE || dias > DAYS_AFTER) return null;
+        const limite = dias < 0 ? DAYS_BEFORE : DAYS_AFTER;
+        data = Math.abs(dias) <= DAYS_EXACT ? 1 : 1 - (Math.abs(dias) - DAYS_EXACT) / (limite - DAYS_EXACT);
+        motivos.push(dias === 0 ? 'mesma data do documento' : `${Math.abs(dias)} dia(s) ${dias > 0 ? 'após' : 'antes de'} o documento`);
+    }
+
+    let cnpj = NEUTRAL;
+    const docTx = digits(tx.cpfCnpj);
+    const contrapartes = counterpartyDocuments(tx, doc);
+    if (docTx && contrapartes.length > 0) {
+        if (!contrapartes.includes(docTx)) return null;
+        cnpj = 1;
+        motivos.push('CNPJ confere');
+    }
+
+    let descricao = NEUTRAL;
+    let descricaoConfere = false;
+    const tokensTx = tokens(tx.description);
+    const tokensDoc = tokens([doc.description, doc.fiscal?.emitenteNome, doc.fiscal?.tomadorNome, doc.classification].filter(Boolean).join(' '));
+    if (tokensTx.length > 0 && tokensDoc.length > 0) {
+        const comuns = tokensTx.filter(t => tokensDoc.includes(t));
+        descricao = comuns.length / Math.min(tokensTx.length, tokensDoc.length);
+        descricaoConfere = descricao >= 0.5;
+        if (comuns.length > 0) motivos.push(`descrição semelhante (${comuns.slice(0, 3).join(', ')})`);
+    }
+
+    return { data, cnpj, descricao, contraparteConfirmada: cnpj === 1 || descricaoConfere, motivos };
+}
+
+/** Débito paga o emitente; crédito vem do tomador. Sem sentido conhecido, aceita qualquer um dos dois. */
+function counterpartyDocuments(tx: AnalysisResult, doc: AnalysisResult): string[] {
+    const emitente = digits(doc.fiscal?.emitenteCnpj);
+    const tomador = digits(doc.fiscal?.tomadorCnpj);
+    const docs = tx.direction === 'DEBITO' ? [emitente] : tx.direction === 'CREDITO' ? [tomador] : [emitente, tomador];
+    return docs.filter(Boolean);
+}
+
+function weighted(valor: number, s: Signals): number {
+    return WEIGHTS.valor * valor + WEIGHTS.data * s.data + WEIGHTS.cnpj * s.cnpj + WEIGHTS.descricao * s.descricao;
+}
+
+// ---- Helpers ----
+
+function tokens(text?: string): string[] {
+    return extractLearningTokens((text || '').normalize('NFD').replace(/[\u0300-\u036f]/g, ''));
+}
+
+function digits(value?: string): string {
+    return (value || '').replace(/\D/g, '');
+}
+
+function daysBetween(from: string, to: string): number {
+    return Math.round((Date.parse(to.substring(0, 10) + 'T00:00:00Z') - Date.parse(from.substring(0, 10) + 'T00:00:00Z')) / 86400000);
+}
+
+function* subsets<T>(items: T[], min: number, max: number, start = 0, acc: T[] = []): Generator<T[]> {
+    if (acc.length >= min) yield acc;
+    if (acc.length === max) return;
+    for (let i = start; i < items.length; i++) {
+        yield* subsets(items, min, max, i + 1, [...acc, items[i]]);
+    }
+}
+
+function unique(values: string[]): string[] {
+    return values.filter((v, i) => values.indexOf(v) === i);
+}
+
+function round2(v: number): number {
+    return Math.round(v * 100) / 100;
+}
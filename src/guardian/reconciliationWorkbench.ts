@@ -0,0 +1,217 @@
+import { createLogger, generateId, nowISO } from '../shared/utils';
+import { GuardianAuthorization } from '../shared/types';
+import { getAllAuthorizations, updateGuardianAuth, createReconciliationDecision } from '../storage/tableClient';
+import { AnalysisResult } from './guardianAgents';
+import { documentBalance, rankCandidates, scoreSelection, ReconciliationCandidate, ReconciliationMatch, ReconciliationAllocation } from './reconciliationEngine';
+
+const logger = createLogger('ReconciliationWorkbench');
+
+export interface WorkbenchTransaction {
+    id: string;
+    descricao: string;
+    data: string;
+    valor: number;
+    direcao?: 'CREDITO' | 'DEBITO';
+    contaId?: string;
+    classificacao: string;
+    status: GuardianAuthorization['status'];
+    candidatos: ReconciliationCandidate[];
+}
+
+export interface WorkbenchDocument {
+    id: string;
+    descricao: string;
+    data: string;
+    valor: number;
+    /** Em aberto após pagamentos parciais já conciliados */
+    saldo: number;
+    emitente?: string;
+    documentoId?: string;
+}
+
+export interface WorkbenchView {
+    transacoes: WorkbenchTransaction[];
+    documentos: WorkbenchDocument[];
+}
+
+/**
+ * Documents still open for reconciliation, plus what partial payments already applied to them.
+ * Matches stored before the scored engine carry no allocations and close the document outright.
+ */
+export function openDocuments(all: GuardianAuthorization[]): { docs: AnalysisResult[]; paid: Map<string, number> } {
+    const paid = new Map<string, number>();
+    const closed = new Set<string>();
+    for (const a of all.filter(a => a.tipo === 'transaction' && a.status !== 'rejeitado' && a.match)) {
+        if (!a.conciliacao) {
+            a.match.split(',').forEach(id => closed.add(id));
+            continue;
+        }
+        for (const al of a.conciliacao.alocacoes) {
+            paid.set(al.documentId, (paid.get(al.documentId) || 0) + al.valor);
+        }
+    }
+    const docs = all
+        .filter(a => a.tipo === 'document' && a.status !== 'rejeitado' && !closed.has(a.id))
+        .map(toAnalysisResult)
+        .filter(d => documentBalance(d, paid) > 0.01);
+    return { docs, paid };
+}
+
+export function toAnalysisResult(auth: GuardianAuthorization): AnalysisResult {
+    return {
+        id: auth.id,
+        type: auth.tipo,
+        classification: auth.classificacao,
+        confidence: auth.confianca,
+        value: auth.valor,
+        needsReview: !!auth.needsReview,
+        suggestedAction: auth.sugestao,
+        documentId: auth.documentoId,
+        description: auth.descricao,
+        date: auth.tipo === 'document' ? auth.dataVencimento || auth.data : auth.data,
+        fiscal: auth.fiscal,
+        contaId: auth.contaId,
+        direction: auth.direcao,
+    };
+}
+
+/** Bank movements that can still be reconciled: not rejected, not matched, not settled by a título, not an internal transfer */
+function unmatchedTransactions(all: GuardianAuthorization[]): GuardianAuthorization[] {
+    return all.filter(a => a.tipo === 'transaction'
+        && a.status !== 'rejeitado'
+        && !a.match
+        && !a.contaPagarId && !a.contaReceberId
+        && !a.contaDestino && !a.transferenciaOrigem
+        && !a.parentId);
+}
+
+/** Unmatched transactions (with scored suggestions) and open documents, side by side */
+export async function buildWorkbench(filter: { de?: string; ate?: string } = {}): Promise<WorkbenchView> {
+    const all = await getAllAuthorizations();
+    const { docs, paid } = openDocuments(all);
+    const inPeriod = (data?: string) => (!filter.de || (data || '') >= filter.de) && (!filter.ate || (data || '') <= filter.ate);
+
+    const transacoes = unmatchedTransactions(all)
+        .filter(a => inPeriod(a.data))
+        .sort((a, b) => (b.data || '').localeCompare(a.data || ''))
+        .map(a => ({
+            id: a.id,
+            descricao: a.descricao || '',
+            data: a.data || '',
+            valor: a.valor,
+            direcao: a.direcao,
+            contaId: a.contaId,
+            classificacao: a.classificacao,
+            status: a.status,
+            candidatos: rankCandidates(toAnalysisResult(a), docs, paid),
+        }));
+
+    const documentos = docs
+        .filter(d => inPeriod(d.date))
+        .sort((a, b) => (b.date || '').localeCompare(a.date || ''))
+        .map(d => ({
+            id: d.id,
+            descricao: d.description || d.classification,
+            data: d.date || '',
+            valor: d.value,
+            saldo: documentBalance(d, paid),
+            emitente: d.fiscal?.emitenteNome,
+            documentoId: d.documentId,
+        }));
+
+    return { transacoes, documentos };
+}
+
+/**
+ * Manual match: the payment is applied to the documents in the order given (each up to its
+ * open balance), repeated ids counting once. Whatever the documents don't absorb is simply not allocated.
+ * The handler has already checked that the transaction is unmatched and the documents are open.
+ */
+export async function confirmMatch(
+    tx: GuardianAuthorization,
+    documentIds: string[],
+    open: { docs: AnalysisResult[]; paid: Map<string, number> },
+    usuario: string,
+    observacao?: string
+): Promise<ReconciliationMatch> {
+    const ids = [...new Set(documentIds)];
+    const selected = ids.map(id => open.docs.find(d => d.id === id)!);
+    const saldoDocumentos = selected.reduce((s, d) => s + documentBalance(d, open.paid), 0);
+    // Score do que o usuário escolheu (não da melhor sugestão); sem valor quando o motor não conciliaria
+    const scoreEscolha = scoreSelection(toAnalysisResult(tx), selected, open.paid);
+
+    const paid = new Map(open.paid);
+    let restante = tx.valor;
+    const alocacoes: ReconciliationAllocation[] = [];
+    for (const doc of selected) {
+        const valor = round2(Math.min(documentBalance(doc, paid), restante));
+        if (valor <= 0) break;
+        alocacoes.push({ documentId: doc.id, valor });
+        paid.set(doc.id, (paid.get(doc.id) || 0) + valor);
+        restante -= valor;
+    }
+    const saldoRestante = Math.max(0, round2(saldoDocumentos - tx.valor));
+
+    const match: ReconciliationMatch = {
+        transactionId: tx.id,
+        tipo: ids.length > 1 ? 'multiplo' : saldoRestante > 0.01 ? 'parcial' : 'total',
+        score: 1,
+        documentIds: ids,
+        alocacoes,
+        saldoRestante,
+        motivos: [`confirmado manualmente por ${usuario}`, ...(observacao ? [observacao] : [])],
+    };
+
+    await updateGuardianAuth(tx.id, {
+        match: ids.join(','),
+        conciliacaoJson: JSON.stringify(match),
+        conciliacao: match,
+        sugestao: 'archive',
+    });
+    await createReconciliationDecision({
+        id: generateId('CONC'),
+        acao: 'confirmar',
+        transacaoId: tx.id,
+        documentos: ids.join(','),
+        usuario,
+        registradoEm: nowISO(),
+        score: scoreEscolha,
+        observacao,
+    });
+    logger.info(`Conciliação manual: ${tx.id} → ${ids.join(',')} (${match.tipo}) por ${usuario}`);
+    return match;
+}
+
+/** Undoes a match (automatic or manual) and sends the transaction and its documents back to review */
+export async function undoMatch(tx: GuardianAuthorization, all: GuardianAuthorization[], usuario: string, observacao?: string): Promise<string[]> {
+    const { match, conciliacao } = tx;
+    const documentIds = match.split(',').filter(id => all.some(a => a.id === id));
+    // '' em vez de undefined: o merge do Table Storage ignora propriedades ausentes
+    await updateGuardianAuth(tx.id, {
+        match: '',
+        conciliacaoJson: '',
+        conciliacao: undefined,
+        status: 'pendente',
+        needsReview: true,
+        sugestao: 'investigate',
+    });
+    for (const id of documentIds) {
+        await updateGuardianAuth(id, { status: 'pendente', needsReview: true });
+    }
+    await createReconciliationDecision({
+        id: generateId('CONC'),
+        acao: 'desfazer',
+        transacaoId: tx.id,
+        documentos: match,
+        usuario,
+        registradoEm: nowISO(),
+        score: conciliacao?.score,
+        observacao,
+    });
+    logger.info(`Conciliação desfeita: ${tx.id} ↛ ${match} por ${usuario}`);
+    return documentIds;
+}
+
+function round2(v: number): number {
+    return Math.round(v * 100) / 100;
+}
@@ -0,0 +1,102 @@
+import { GuardianAuthorization } from '../shared/types';
+import { nowISO } from '../shared/utils';
+
+/**
+ * Regime contábil dos relatórios:
+ *   competencia — lançamento entra no mês a que se refere (visão do contador)
+ *   caixa       — lançamento entra na data em que o dinheiro se moveu (visão dos sócios)
+ */
+export type Regime = 'competencia' | 'caixa';
+
+export const REGIMES: Regime[] = ['competencia', 'caixa'];
+
+export interface ReportPeriod {
+    de: string | null;
+    ate: string | null;
+    /** null = padrão: DRE por competência, DFC por caixa */
+    regime: Regime | null;
+}
+
+/** Reads ?de=YYYY-MM-DD&ate=YYYY-MM-DD&regime=competencia|caixa — returns an error message when invalid */
+export function parseReportPeriod(query: { get(name: string): string | null }): ReportPeriod | string {
+    const de = query.get('de') || null;
+    const ate = query.get('ate') || null;
+    const regime = query.get('regime') || null;
+    for (const [name, value] of [['de', de], ['ate', ate]] as const) {
+        if (value && !/^\d{4}-\d{2}-\d{2}$/.test(value)) return `Parâmetro "${name}" deve estar no formato YYYY-MM-DD.`;
+    }
+    if (de && ate && de > ate) return 'Parâmetro "de" deve ser anterior ou igual a "ate".';
+    if (regime && !REGIMES.includes(regime as Regime)) return `Regime inválido. Use: ${REGIMES.join(', ')}`;
+    return { de, ate, regime: regime as Regime | null };
+}
+
+export function isPeriodo(value: unknown): value is string {
+    return typeof value === 'string' && /^\d{4}-(0[1-9]|1[0-2])$/.test(value);
+}
+
+/** Última competência encerrada por calendário ('YYYY-MM' do mês anterior ao de hoje) */
+export function previousPeriodo(hoje: string = nowISO()): string {
+    let [y, m] = hoje.substring(0, 7).split('-').map(Number);
+    if (--m < 1) { m = 12; y--; }
+    return `${y}-${String(m).padStart(2, '0')}`;
+}
+
+/** First and last day of a 'YYYY-MM' period */
+export function monthRange(periodo: string): { inicio: string; fim: string } {
+    const [y, m] = periodo.split('-').map(Number);
+    const fim = new Date(Date.UTC(y, m, 0)).toISOString().substring(0, 10);
+    return { inicio: `${periodo}-01`, fim };
+}
+
+export function competenciaDate(i: GuardianAuthorization): string {
+    return (i.dataCompetencia || i.data || i.criadoEm || '').substring(0, 10);
+}
+
+export function caixaDate(i: GuardianAuthorization): string {
+    return (i.dataPagamento || i.data || i.criadoEm || '').substring(0, 10);
+}
+
+/**
+ * Items inside the period under the given regime. Competência is monthly, so a
+ * competência month counts when it overlaps the period (de=15/10 still includes outubro).
+ */
+export function filterByRegime(items: GuardianAuthorization[], period: ReportPeriod, regime: Regime): GuardianAuthorization[] {
+    if (!period.de && !period.ate) return items;
+    if (regime === 'competencia') {
+        const de = period.de?.substring(0, 7);
+        const ate = period.ate?.substring(0, 7);
+        return items.filter(i => {
+            const mes = competenciaDate(i).substring(0, 7);
+            return (!de || mes >= de) && (!ate || mes <= ate);
+        });
+    }
+    return items.filter(i => {
+        const d = caixaDate(i);
+        return (!period.de || d >= period.de) && (!period.ate || d <= period.ate);
+    });
+}
+
+/** DRE and DFC item sets for the period: each follows its natural regime unless one was chosen */
+export function statementItems(items: GuardianAuthorization[], period: ReportPeriod): { dre: GuardianAuthorization[]; dfc: GuardianAuthorization[]; regimeDRE: Regime; regimeDFC: Regime } {
+    const regimeDRE = period.regime || 'competencia';
+    const regimeDFC = period.regime || 'caixa';
+    return {
+        dre: filterByRegime(items, period, regimeDRE),
+        dfc: filterByRegime(items, period, regimeDFC),
+        regimeDRE,
+        regimeDFC,
+    };
+}
+
+/** Movements paid after the period end — used to roll the current cash balance back to `ate` */
+export function paidAfter(items: GuardianAuthorization[], ate: string | null): GuardianAuthorization[] {
+    return ate ? items.filter(i => caixaDate(i) > ate) : [];
+}
+
+/**
+ * Movements already reflected in the bank balance: approved items plus bank transactions
+ * still pending approval (documents only move cash once a transaction settles them).
+ */
+export function balanceMovements(approved: GuardianAuthorization[], pending: GuardianAuthorization[]): GuardianAuthorization[] {
+    return [...approved, ...pending.filter(i => i.tipo === 'transaction' && !i.dividida)];
+}
@@ -0,0 +1,99 @@
+import { createLogger, nowISO } from '../shared/utils';
+import { GuardianAuthorization } from '../shared/types';
+import { createGuardianAuth, updateGuardianAuth, getAllAuthorizations } from '../storage/tableClient';
+
+const logger = createLogger('SplitTransactions');
+
+/** Uma parte do rateio: categoria, valor e competência próprios */
+export interface SplitPart {
+    classificacao: string;
+    valor: number;
+    /** YYYY-MM-DD — padrão: competência do lançamento original */
+    dataCompetencia?: string;
+    descricao?: string;
+}
+
+/** Id determinístico da parte — refazer o rateio sobrescreve em vez de duplicar */
+export function splitLineId(parentId: string, index: number): string {
+    return `${parentId}_S${index + 1}`;
+}
+
+export function validateSplit(parent: GuardianAuthorization, partes: SplitPart[]): string | null {
+    if (parent.tipo !== 'transaction') return 'Só transações podem ser divididas.';
+    if (parent.parentId) return 'Uma parte de rateio não pode ser dividida de novo.';
+    if (parent.contaDestino || parent.transferenciaOrigem) return 'Transferências entre contas não podem ser divididas.';
+    if (!Array.isArray(partes) || partes.length < 2) return 'Campo "partes" deve ter ao menos 2 itens.';
+    for (const [i, p] of partes.entries()) {
+        if (!p || !p.classificacao) return `Parte ${i + 1}: campo "classificacao" é obrigatório.`;
+        if (typeof p.valor !== 'number' || !(p.valor > 0)) return `Parte ${i + 1}: campo "valor" deve ser um número positivo.`;
+        if (p.dataCompetencia && !/^\d{4}-\d{2}-\d{2}$/.test(p.dataCompetencia)) return `Parte ${i + 1}: "dataCompetencia" deve estar no formato YYYY-MM-DD.`;
+    }
+    const soma = Math.round(partes.reduce((s, p) => s + p.valor, 0) * 100) / 100;
+    if (Math.abs(soma - parent.valor) >= 0.01) {
+        return `A soma das partes (R$ ${soma.toFixed(2)}) difere do valor da transação (R$ ${parent.valor.toFixed(2)}).`;
+    }
+    return null;
+}
+
+/**
+ * Approves the parent and books one approved child line per part. The parent keeps moving the
+ * account balance (it is what the bank saw); DRE/DFC read the children instead (see reportingItems).
+ * Re-splitting overwrites the lines by id and rejects leftovers from a previous, longer split.
+ */
+export async function applySplit(parent: GuardianAuthorization, partes: SplitPart[]): Promise<GuardianAuthorization[]> {
+    const lines: GuardianAuthorization[] = partes.map((p, i) => ({
+        id: splitLineId(parent.id, i),
+        tipo: 'transaction',
+        classificacao: p.classificacao,
+        valor: p.valor,
+        confianca: 1.0,
+        match: '',
+        status: 'aprovado',
+        criadoEm: nowISO(),
+        sugestao: 'approve',
+        origem: 'rateio',
+        descricao: p.descricao || `${parent.descricao || parent.classificacao} (${i + 1}/${partes.length})`,
+        data: parent.data,
+        dataCompetencia: p.dataCompetencia || parent.dataCompetencia,
+        dataVencimento: parent.dataVencimento,
+        dataInclusao: nowISO().split('T')[0],
+        dataPagamento: parent.dataPagamento || parent.data,
+        contaId: parent.contaId,
+        direcao: parent.direcao,
+        parentId: parent.id,
+        needsReview: false,
+    }));
+
+    const existing = (await getAllAuthorizations()).filter(a => a.parentId === parent.id);
+    for (const line of lines) {
+        if (existing.some(e => e.id === line.id)) {
+            const { criadoEm, dataInclusao, origem, ...changes } = line;
+            await updateGuardianAuth(line.id, changes);
+        } else {
+            await createGuardianAuth(line);
+        }
+    }
+    for (const stale of existing.filter(e => !lines.some(l => l.id === e.id) && e.status !== 'rejeitado')) {
+        await updateGuardianAuth(stale.id, { status: 'rejeitado', needsReview: false });
+    }
+
+    await updateGuardianAuth(parent.id, { status: 'aprovado', needsReview: false, dividida: true });
+    logger.info(`Transação ${parent.id} dividida em ${lines.length} partes`);
+    return lines;
+}
+
+/** Rejecting a split parent takes its lines out of the reports too */
+export async function cancelSplit(parent: GuardianAuthorization): Promise<void> {
+    if (!parent.dividida) return;
+    const lines = (await getAllAuthorizations()).filter(a => a.parentId === parent.id && a.status !== 'rejeitado');
+    for (const line of lines) {
+        await updateGuardianAuth(line.id, { status: 'rejeitado', needsReview: false });
+    }
+    await updateGuardianAuth(parent.id, { dividida: false });
+    logger.info(`Rateio de ${parent.id} cancelado (${lines.length} partes)`);
+}
+
+/** What the financial statements consume: split parents are replaced by their child lines */
+export function reportingItems(items: GuardianAuthorization[]): GuardianAuthorization[] {
+    return items.filter(i => !i.dividida);
+}
@@ -0,0 +1,103 @@
+import { createLogger } from '../shared/utils';
+import { DocType } from '../shared/types';
+import { getCsvProfile } from '../storage/areaTableClient';
+import { GuardianAgents, AnalysisResult } from './guardianAgents';
+import { parseOFX, decodeOFX, isOFX } from './ofxParser';
+import { parseCsvStatement } from './csvStatementParser';
+import { cardPurchases, parseCardInvoiceText, CardInvoice } from './cardInvoice';
+import { InterTransaction } from './interConnector';
+import { processTransactions } from './transactionPipeline';
+
+const logger = createLogger('StatementImport');
+
+export type StatementType = 'ofx' | 'csv' | 'txt';
+
+/** Bank statement (OFX/CSV) or card invoice text — everything else is a document for extraction */
+export function isStatementType(docType: DocType): docType is StatementType {
+    return docType === 'ofx' || docType === 'csv' || docType === 'txt';
+}
+
+export interface StatementImportInput {
+    docType: StatementType;
+    bytes: Buffer;
+    /** Nome do arquivo (ou URL) para o log */
+    nome: string;
+    /** 'upload' | 'import_manual' */
+    origem: string;
+    /** Arquivo já guardado no document store */
+    documentId: string;
+    contaId?: string;
+    /** Conta cartão: o arquivo é uma fatura — compras itemizadas, pagamento da fatura descartado */
+    isCard: boolean;
+    /** Vencimento da fatura (contas cartão) — sobrepõe o lido do arquivo */
+    vencimento?: string;
+    /** Perfil de mapeamento obrigatório para extratos CSV */
+    profileId?: string;
+}
+
+export interface StatementImportResult {
+    results: AnalysisResult[];
+    fatura?: CardInvoice;
+}
+
+/** Client error of an import (invalid file, missing/unknown CSV profile) with its HTTP status */
+export interface StatementImportError {
+    status: 400 | 404;
+    error: string;
+}
+
+/**
+ * Shared by upload and import: parses the statement, then fingerprints, classifies and
+ * stores its transactions through the pipeline.
+ */
+export async function importStatement(
+    agents: GuardianAgents,
+    input: StatementImportInput
+): Promise<StatementImportResult | StatementImportError> {
+    const vencimento = input.isCard ? input.vencimento : undefined;
+    let transactions: InterTransaction[];
+    let fatura: CardInvoice | undefined;
+
+    if (input.docType === 'ofx') {
+        // Extrato bancário: cada STMTTRN vira uma transação na fila de aprovação
+        const content = decodeOFX(input.bytes);
+        if (!isOFX(content)) {
+            return { status: 400, error: 'Arquivo OFX inválido.' };
+        }
+        const statement = parseOFX(content);
+        logger.info(`Processando extrato OFX: ${input.nome} (${statement.transactions.length} transações)`);
+        transactions = input.isCard ? cardPurchases(statement.transactions) : statement.transactions;
+    } else if (input.docType === 'csv') {
+        // Extrato CSV: colunas mapeadas por um perfil salvo (delimitador, datas, decimais)
+        if (!input.profileId) {
+            return { status: 400, error: 'Campo "profileId" é obrigatório para extratos CSV.' };
+        }
+        const profile = await getCsvProfile(input.profileId);
+        if (!profile) {
+            return { status: 404, error: `Perfil CSV "${input.profileId}" não encontrado.` };
+        }
+        const parsed = parseCsvStatement(input.bytes.toString(profile.encoding || 'utf8'), profile);
+        if (typeof parsed === 'string') {
+            return { status: 400, error: parsed };
+        }
+        transactions = input.isCard ? cardPurchases(parsed.transactions) : parsed.transactions;
+        logger.info(`Processando extrato CSV: ${input.nome} (${transactions.length} transações, ${parsed.skipped} linhas ignoradas)`);
+    } else {
+        // Fatura de cartão em texto (copiado/exportado do PDF)
+        fatura = parseCardInvoiceText(input.bytes.toString('utf8'));
+        logger.info(`Processando fatura de cartão: ${input.nome} (${fatura.transactions.length} lançamentos)`);
+        transactions = fatura.transactions;
+    }
+
+    const { txResults } = await processTransactions(agents, transactions, {
+        origem: input.origem,
+        documentId: input.documentId,
+        contaId: input.contaId,
+        vencimento: vencimento || fatura?.vencimento,
+    });
+    return { results: txResults, fatura };
+}
+
+export function isImportError(result: StatementImportResult | StatementImportError): result is StatementImportError {
+    return 'error' in result;
+}
@@ -0,0 +1,220 @@
+import { createLogger, nowISO, generateId } from '../shared/utils';
+import { SyncRun, SyncSourceName, SyncSourceStats } from '../shared/types';
+import { getSyncCursor, setSyncCursor, accountSyncSource } from '../storage/areaTableClient';
+import { createSyncRun } from '../storage/tableClient';
+import { InterTransaction } from './interConnector';
+import { getBoundAccounts, BoundAccount, LEGACY_INTER_ACCOUNT_ID } from './bankConnector';
+import { EmailListener } from './emailListener';
+import { GuardianAgents, ClassifierLayer } from './guardianAgents';
+import { processTransactions } from './transactionPipeline';
+
+const logger = createLogger('SyncRunner');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Janela padrão quando não há cursor (primeira execução) ou no sync manual */
+const DEFAULT_WINDOW_DAYS = 30;
+/** Lançamentos retroativos do banco: o incremental sempre relê os últimos N dias */
+const OVERLAP_DAYS = parseInt(process.env.GUARDIAN_SYNC_OVERLAP_DAYS || '3', 10);
+/** Tolerância de relógio entre Graph e o cursor gravado */
+const MAILBOX_OVERLAP_MINUTES = 10;
+
+export type SyncTrigger = 'manual' | 'timer';
+
+export interface SyncOptions {
+    trigger: SyncTrigger;
+    /** Explicit period (manual only) — overrides cursors */
+    startDate?: string;
+    endDate?: string;
+    /** Fetch only what is new since the stored cursors (timer runs) */
+    incremental?: boolean;
+}
+
+export interface AccountSyncSummary {
+    contaId: string;
+    nome: string;
+    de: string;
+    saldo: number | null;
+    transacoes: number;
+}
+
+export interface SyncSummary {
+    runId: string;
+    periodo: { de: string; ate: string };
+    /** Soma dos saldos das contas que responderam */
+    balance: number;
+    contas: AccountSyncSummary[];
+    transactions: number;
+    new: number;
+    updated: number;
+    unchanged: number;
+    documents: number;
+    automated: number;
+}
+
+/**
+ * Core do sync (contas vinculadas + caixa de email → pipeline), compartilhado pelo botão da UI
+ * e pelo timer. Fontes indisponíveis degradam sem abortar o ciclo; o cursor de uma
+ * fonte só avança quando ela respondeu. Toda execução fica registrada em GuardianSyncRuns.
+ */
+export async function runSync(options: SyncOptions): Promise<SyncSummary> {
+    const run: SyncRun = {
+        id: generateId('RUN'),
+        trigger: options.trigger,
+        status: 'sucesso',
+        iniciadoEm: nowISO(),
+        finalizadoEm: '',
+        periodoDe: '',
+        periodoAte: '',
+        novas: 0,
+        atualizadas: 0,
+        inalteradas: 0,
+        documentos: 0,
+        alertasOrcamento: 0,
+        alertasCriticos: 0,
+        fontesJson: '{}',
+        classificacoesJson: '{}',
+    };
+
+    try {
+        const summary = await executeSync(options, run);
+        await finishRun(run);
+        return summary;
+    } catch (error: unknown) {
+        run.status = 'falhou';
+        run.erro = errorText(error);
+        await finishRun(run);
+        throw error;
+    }
+}
+
+async function executeSync(options: SyncOptions, run: SyncRun): Promise<SyncSummary> {
+    const email = new EmailListener();
+    const agents = new GuardianAgents();
+
+    const today = nowISO().split('T')[0];
+    const endDate = options.endDate || today;
+    const mailboxCursor = options.incremental ? await getSyncCursor('MAILBOX') : null;
+    const mailboxSince = mailboxCursor
+        ? new Date(new Date(mailboxCursor).getTime() - MAILBOX_OVERLAP_MINUTES * 60 * 1000).toISOString()
+        : undefined;
+
+    const accounts = await getBoundAccounts();
+    const starts = await Promise.all(accounts.map(async a => {
+        const cursor = options.incremental ? await getSyncCursor(accountSyncSource(a.contaId)) : null;
+        return options.startDate || (cursor ? shiftDate(cursor, -OVERLAP_DAYS) : shiftDate(today, -DEFAULT_WINDOW_DAYS));
+    }));
+    const startDate = options.startDate || (starts.length > 0 ? [...starts].sort()[0] : shiftDate(today, -DEFAULT_WINDOW_DAYS));
+    run.periodoDe = startDate;
+    run.periodoAte = endDate;
+    logger.info(`Sync ${options.trigger}: ${accounts.length} conta(s) até ${endDate}${mailboxSince ? `, emails desde ${mailboxSince}` : ''}`);
+
+    const [accountResults, docs] = await Promise.all([
+        Promise.all(accounts.map((a, i) => fetchAccount(a, starts[i], endDate))),
+        Promise.allSettled([email.processIncomingEmails(mailboxSince)]).then(r => r[0]),
+    ]);
+
+    const documents = docs.status === 'fulfilled' ? docs.value : [];
+    if (docs.status === 'rejected') logger.warn('Graph emails indisponível (degraded): ' + String(docs.reason));
+
+    const fontes: Partial<Record<SyncSourceName, SyncSourceStats>> = {
+        email: sourceStats(docs, email.isConfigured(), documents.length),
+    };
+    const transactions: InterTransaction[] = [];
+    accountResults.forEach(({ account, balance, txs }) => {
+        const configured = account.connector.isConfigured();
+        const received = txs.status === 'fulfilled' ? txs.value : [];
+        fontes[`saldo:${account.contaId}`] = sourceStats(balance, configured, 1);
+        fontes[`extrato:${account.contaId}`] = sourceStats(txs, configured, received.length);
+        transactions.push(...received);
+    });
+    run.fontesJson = JSON.stringify(fontes);
+    if (Object.values(fontes).some(f => f?.status === 'degradado')) run.status = 'degradado';
+
+    const docResults = (await Promise.all(documents.map(d => agents.extractData(d)))).flat();
+    const { txResults, summary } = await processTransactions(agents, transactions, { documents: docResults });
+
+    // Cursores só avançam depois de persistir
+    if (options.incremental) {
+        for (const { account, txs } of accountResults) {
+            if (txs.status === 'fulfilled' && account.connector.isConfigured()) {
+                await setSyncCursor(accountSyncSource(account.contaId), endDate);
+            }
+        }
+        if (docs.status === 'fulfilled' && email.lastProcessedAt) {
+            await setSyncCursor('MAILBOX', email.lastProcessedAt);
+        }
+    }
+
+    const classificacoes: Record<ClassifierLayer, number> = { learned: 0, rules: 0, kimi: 0 };
+    txResults.forEach(t => { if (t.classifier) classificacoes[t.classifier]++; });
+    run.classificacoesJson = JSON.stringify(classificacoes);
+    run.novas = summary.new;
+    run.atualizadas = summary.updated;
+    run.inalteradas = summary.unchanged;
+    run.documentos = docResults.length;
+    const alertas = [...txResults, ...docResults].filter(r => r.audit && r.audit.alert !== 'none');
+    run.alertasOrcamento = alertas.length;
+    run.alertasCriticos = alertas.filter(r => r.audit?.alert === 'critical').length;
+
+    const contas: AccountSyncSummary[] = accountResults.map(({ account, balance, txs }, i) => ({
+        contaId: account.contaId,
+        nome: account.nome,
+        de: starts[i],
+        saldo: balance.status === 'fulfilled' ? balance.value.total : null,
+        transacoes: txs.status === 'fulfilled' ? txs.value.length : 0,
+    }));
+
+    return {
+        runId: run.id,
+        periodo: { de: startDate, ate: endDate },
+        balance: contas.reduce((sum, c) => sum + (c.saldo || 0), 0),
+        contas,
+        transactions: txResults.length,
+        new: summary.new,
+        updated: summary.updated,
+        unchanged: summary.unchanged,
+        documents: docResults.length,
+        automated: txResults.filter(t => t.confidence > 0.90).length,
+    };
+}
+
+/** Balance + statement of one account; failures degrade only that account */
+async function fetchAccount(account: BoundAccount, startDate: string, endDate: string) {
+    const [balance, txs] = await Promise.allSettled([
+        account.connector.getBalance(),
+        account.connector.syncStatement(startDate, endDate),
+    ]);
+    if (balance.status === 'rejected') logger.warn(`Saldo indisponível (${account.nome}): ${String(balance.reason)}`);
+    if (txs.status === 'rejected') logger.warn(`Extrato indisponível (${account.nome}) (degraded): ${String(txs.reason)}`);
+
+    // Conta legada (Inter só via ambiente) não tem ContaCorrente a referenciar
+    if (txs.status === 'fulfilled' && account.contaId !== LEGACY_INTER_ACCOUNT_ID) {
+        txs.value.forEach(t => { t.contaId = account.contaId; });
+    }
+    return { account, balance, txs };
+}
+
+function sourceStats(result: PromiseSettledResult<unknown>, configured: boolean, itens: number): SyncSourceStats {
+    if (!configured) return { status: 'nao_configurado', itens: 0 };
+    if (result.status === 'rejected') return { status: 'degradado', itens: 0, erro: errorText(result.reason) };
+    return { status: 'ok', itens };
+}
+
+/** Full message for the journal (internal endpoint — unlike safeErrorMessage, not masked in production) */
+function errorText(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
+
+/** Journal failures must never break the sync itself */
+async function finishRun(run: SyncRun): Promise<void> {
+    run.finalizadoEm = nowISO();
+    try {
+        await createSyncRun(run);
+    } catch (error) {
+        logger.error(`Falha ao registrar sync run ${run.id}`, error);
+    }
+}
+
+function shiftDate(isoDate: string, days: number): string {
+    return new Date(new Date(isoDate.substring(0, 10) + 'T00:00:00Z').getTime() + days * DAY_MS).toISOString().split('T')[0];
+}
@@ -0,0 +1,176 @@
+import { createLogger, nowISO } from '../shared/utils';
+import { AjusteDiaUtil, ContaPagar, ObrigacaoBase, ObrigacaoFiscal } from '../shared/types';
+import { Categoria } from '../shared/areas';
+import { getApprovedAuthorizations } from '../storage/tableClient';
+import { getCadastroRecords, getObrigacoesFiscais } from '../storage/areaTableClient';
+import { reportingItems } from './splitTransactions';
+import { competenciaDate } from './reportPeriod';
+import { TaxConfig, getTaxConfig, monthlyGrossRevenue } from './taxRegime';
+import { dasPayable, dasPayableId, estimateDAS } from './dasEstimator';
+import { addMonths, isOpen, shiftBusinessDay, upsertExpectedPayables } from './payables';
+
+const logger = createLogger('TaxCalendar');
+
+export const OBRIGACAO_BASES: ObrigacaoBase[] = ['receita_bruta', 'categorias', 'valor_fixo', 'simples_das'];
+export const AJUSTES_DIA_UTIL: AjusteDiaUtil[] = ['antecipar', 'postergar', 'nenhum'];
+
+/** Apuração de uma obrigação numa competência — a memória de cálculo do título previsto */
+export interface ObrigacaoCalculo {
+    obrigacaoId: string;
+    nome: string;
+    periodo: string;
+    base: ObrigacaoBase;
+    /** Valor sobre o qual a alíquota incide (receita, folha...) */
+    baseCalculo: number;
+    aliquota?: number;
+    valor: number;
+    vencimento: string;
+    /** Motivo de não gerar título (ex.: DAS fora do Simples) */
+    aviso?: string;
+}
+
+/** What the calculation needs from the books: revenue history and the month's actual per category */
+export interface TaxCalendarContext {
+    config: TaxConfig;
+    receitaMensal: Map<string, number>;
+    realizadoPorCategoria: Map<string, number>;
+}
+
+export function validateObrigacao(o: Partial<ObrigacaoFiscal>): string | null {
+    if (!o.id || !/^[A-Za-z0-9_-]+$/.test(o.id)) return 'Campo "id" é obrigatório (letras, números, _ ou -).';
+    if (!o.nome) return 'Campo "nome" é obrigatório.';
+    if (!o.base || !OBRIGACAO_BASES.includes(o.base)) return `Base inválida. Use: ${OBRIGACAO_BASES.join(', ')}`;
+    if ((o.base === 'receita_bruta' || o.base === 'categorias') && !(typeof o.aliquota === 'number' && o.aliquota > 0 && o.aliquota <= 100)) {
+        return 'Campo "aliquota" deve ser um percentual entre 0 e 100.';
+    }
+    if (o.base === 'categorias' && (!Array.isArray(o.categoriasBase) || o.categoriasBase.length === 0)) {
+        return 'Campo "categoriasBase" deve listar ao menos uma categoria.';
+    }
+    if (o.base === 'valor_fixo' && !(typeof o.valorFixo === 'number' && o.valorFixo > 0)) return 'Campo "valorFixo" deve ser um número positivo.';
+    if (!Number.isInteger(o.diaVencimento) || o.diaVencimento! < 1 || o.diaVencimento! > 31) return 'Campo "diaVencimento" deve ser de 1 a 31.';
+    if (o.mesesApos !== undefined && !(Number.isInteger(o.mesesApos) && o.mesesApos >= 0 && o.mesesApos <= 12)) return 'Campo "mesesApos" deve ser de 0 a 12.';
+    if (!o.ajusteDiaUtil || !AJUSTES_DIA_UTIL.includes(o.ajusteDiaUtil)) return `Ajuste de dia útil inválido. Use: ${AJUSTES_DIA_UTIL.join(', ')}`;
+    if (!o.categoria || !o.fornecedor) return 'Campos "categoria" e "fornecedor" são obrigatórios.';
+    return null;
+}
+
+/** DAS keeps the id shared with the DAS endpoint; the rest is one title per obligation and month */
+export function obligationPayableId(o: ObrigacaoFiscal, periodo: string): string {
+    return o.base === 'simples_das' ? dasPayableId(periodo) : `OBR_${o.id}_${periodo}`;
+}
+
+/** `diaVencimento` of the month `mesesApos` after the competência (last day when shorter), shifted off weekends */
+export function obligationDueDate(o: Pick<ObrigacaoFiscal, 'diaVencimento' | 'mesesApos' | 'ajusteDiaUtil'>, periodo: string): string {
+    const mes = addMonths(`${periodo}-01`, o.mesesApos ?? 1).substring(0, 7);
+    const ultimoDia = new Date(Date.UTC(Number(mes.substring(0, 4)), Number(mes.substring(5, 7)), 0)).getUTCDate();
+    const dia = String(Math.min(o.diaVencimento, ultimoDia)).padStart(2, '0');
+    return shiftBusinessDay(`${mes}-${dia}`, o.ajusteDiaUtil);
+}
+
+export function calculateObligation(o: ObrigacaoFiscal, periodo: string, ctx: TaxCalendarContext): ObrigacaoCalculo {
+    const calculo: ObrigacaoCalculo = {
+        obrigacaoId: o.id, nome: o.nome, periodo, base: o.base, baseCalculo: 0, valor: 0, vencimento: obligationDueDate(o, periodo),
+    };
+    switch (o.base) {
+        case 'valor_fixo':
+            return { ...calculo, valor: o.valorFixo || 0 };
+        case 'receita_bruta': {
+            const base = round2(ctx.receitaMensal.get(periodo) || 0);
+            return { ...calculo, baseCalculo: base, aliquota: o.aliquota, valor: round2(base * (o.aliquota || 0) / 100) };
+        }
+        case 'categorias': {
+            const base = round2((o.categoriasBase || []).reduce((s, c) => s + (ctx.realizadoPorCategoria.get(c) || 0), 0));
+            return { ...calculo, baseCalculo: base, aliquota: o.aliquota, valor: round2(base * (o.aliquota || 0) / 100) };
+        }
+        case 'simples_das': {
+            if (ctx.config.regime !== 'simples') {
+                return { ...calculo, aviso: `Regime tributário "${ctx.config.regime}" — DAS só se aplica ao Simples Nacional.` };
+            }
+            // O vencimento do DAS é legal (dia 20, posterga fins de semana): prevalece sobre o dia cadastrado
+            const das = estimateDAS(ctx.receitaMensal, periodo, ctx.config.anexo);
+            return {
+                ...calculo, baseCalculo: das.receitaBruta, aliquota: Math.round(das.aliquotaEfetiva * 1e6) / 1e4, valor: das.valorDAS, vencimento: das.vencimento,
+            };
+        }
+    }
+}
+
+/** Expected payable of a calculation; nothing when there is nothing to pay */
+export function obligationPayable(o: ObrigacaoFiscal, calculo: ObrigacaoCalculo, ctx: TaxCalendarContext): ContaPagar | null {
+    if (calculo.aviso || calculo.valor <= 0) return null;
+    const base: ContaPagar = o.base === 'simples_das'
+        ? dasPayable(estimateDAS(ctx.receitaMensal, calculo.periodo, ctx.config.anexo))
+        : {
+            id: obligationPayableId(o, calculo.periodo),
+            fornecedor: o.fornecedor,
+            categoria: o.categoria,
+            descricao: `${o.nome} ${calculo.periodo}${calculo.aliquota ? ` — ${calculo.aliquota}% s/ ${calculo.baseCalculo.toFixed(2)}` : ''}`,
+            valor: calculo.valor,
+            dataCompetencia: `${calculo.periodo}-01`,
+            dataVencimento: calculo.vencimento,
+            status: 'aberto',
+            recorrencia: 'nenhuma',
+            criadoEm: nowISO(),
+        };
+    return {
+        ...base,
+        fornecedor: o.fornecedor,
+        fornecedorCnpj: o.fornecedorCnpj,
+        categoria: o.categoria,
+        dataVencimento: calculo.vencimento,
+        obrigacaoId: o.id,
+        // Valor fixo é conhecido: a baixa exige o valor exato
+        estimado: o.base !== 'valor_fixo',
+        palavraChave: o.palavraChave || base.palavraChave,
+    };
+}
+
+export async function loadCalendarContext(periodo: string): Promise<TaxCalendarContext> {
+    const [approvedItems, categorias, config] = await Promise.all([
+        getApprovedAuthorizations(),
+        getCadastroRecords<Categoria>('categorias'),
+        getTaxConfig(),
+    ]);
+    const items = reportingItems(approvedItems);
+    const catMap = new Map(categorias.map(c => [c.nome, { tipo: c.tipo, grupo: c.grupo }]));
+    const realizadoPorCategoria = new Map<string, number>();
+    for (const i of items) {
+        if (competenciaDate(i).substring(0, 7) !== periodo) continue;
+        realizadoPorCategoria.set(i.classificacao, (realizadoPorCategoria.get(i.classificacao) || 0) + i.valor);
+    }
+    return { config, receitaMensal: monthlyGrossRevenue(items, catMap), realizadoPorCategoria };
+}
+
+/**
+ * Calculates every active obligation for the competência and creates (or refreshes) its expected
+ * payable. Paid and cancelled titles are kept as they are.
+ */
+export async function generateObligationPayables(periodo: string): Promise<{ calendario: ObrigacaoCalculo[]; criados: number; atualizados: number; ignorados: number }> {
+    const [obrigacoes, ctx] = await Promise.all([getObrigacoesFiscais(), loadCalendarContext(periodo)]);
+    const ativas = obrigacoes.filter(o => o.ativa);
+    const calendario = ativas.map(o => calculateObligation(o, periodo, ctx));
+    const titulos = ativas
+        .map((o, i) => obligationPayable(o, calendario[i], ctx))
+        .filter((t): t is ContaPagar => t !== null);
+
+    const result = await upsertExpectedPayables(titulos);
+    result.ignorados += ativas.length - titulos.length;
+    logger.info(`Calendário fiscal ${periodo}: ${result.criados} título(s) criado(s), ${result.atualizados} atualizado(s)`);
+    return { calendario, ...result };
+}
+
+/** Open tax titles (DAS and calendar obligations) per due month; overdue ones count in the current month */
+export function taxDueByMonth(payables: ContaPagar[], dataBase: string): Map<string, number> {
+    const mesAtual = dataBase.substring(0, 7);
+    const porMes = new Map<string, number>();
+    for (const p of payables) {
+        if (!p.obrigacaoId || !isOpen(p)) continue;
+        const mes = p.dataVencimento.substring(0, 7) < mesAtual ? mesAtual : p.dataVencimento.substring(0, 7);
+        porMes.set(mes, (porMes.get(mes) || 0) + p.valor);
+    }
+    return porMes;
+}
+
+function round2(v: number): number {
+    return Math.round(v * 100) / 100;
+}
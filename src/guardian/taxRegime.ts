@@ -0,0 +1,311 @@
+import { createLogger } from '../shared/utils';
+import { GuardianAuthorization } from '../shared/types';
+import { getConfig } from '../storage/areaTableClient';
+import { competenciaDate } from './reportPeriod';
+
+const logger = createLogger('TaxRegime');
+
+/**
+ * Regime tributário da empresa (config REGIME_TRIBUTARIO):
+ *   simples   — DAS sobre a receita bruta, alíquota efetiva pela faixa do RBT12 (inclui IRPJ/CSLL)
+ *   presumido — PIS/COFINS cumulativos; IRPJ/CSLL sobre base presumida da receita
+ *   real      — PIS/COFINS não cumulativos; IRPJ/CSLL sobre o lucro apurado
+ */
+export type RegimeTributario = 'simples' | 'presumido' | 'real';
+export type SimplesAnexo = 'I' | 'II' | 'III' | 'IV' | 'V';
+/** Presunção do Lucro Presumido: serviços 32%/32%, comércio e indústria 8%/12% (IRPJ/CSLL) */
+export type AtividadePresumido = 'servicos' | 'comercio';
+
+export const REGIMES_TRIBUTARIOS: RegimeTributario[] = ['simples', 'presumido', 'real'];
+export const SIMPLES_ANEXOS: SimplesAnexo[] = ['I', 'II', 'III', 'IV', 'V'];
+
+export interface TaxConfig {
+    regime: RegimeTributario;
+    /** Simples Nacional */
+    anexo: SimplesAnexo;
+    /** Lucro Presumido */
+    atividade: AtividadePresumido;
+    /** Valores cadastrados inválidos que caíram no padrão — exibido na DRE */
+    aviso?: string;
+}
+
+export const DEFAULT_TAX_CONFIG: TaxConfig = { regime: 'real', anexo: 'III', atividade: 'servicos' };
+
+/** Faixa do Simples (LC 123/2006, redação da LC 155/2016): RBT12 até `ate`, alíquota nominal e parcela a deduzir */
+interface SimplesFaixa {
+    ate: number;
+    aliquota: number;
+    deduzir: number;
+}
+
+const SIMPLES_TABELAS: Record<SimplesAnexo, SimplesFaixa[]> = {
+    I: [
+        { ate: 180000, aliquota: 0.04, deduzir: 0 },
+        { ate: 360000, aliquota: 0.073, deduzir: 5940 },
+        { ate: 720000, aliquota: 0.095, deduzir: 13860 },
+        { ate: 1800000, aliquota: 0.107, deduzir: 22500 },
+        { ate: 3600000, aliquota: 0.143, deduzir: 87300 },
+        { ate: 4800000, aliquota: 0.19, deduzir: 378000 },
+    ],
+    II: [
+        { ate: 180000, aliquota: 0.045, deduzir: 0 },
+        { ate: 360000, aliquota: 0.078, deduzir: 5940 },
+        { ate: 720000, aliquota: 0.10, deduzir: 13860 },
+        { ate: 1800000, aliquota: 0.112, deduzir: 22500 },
+        { ate: 3600000, aliquota: 0.147, deduzir: 85500 },
+        { ate: 4800000, aliquota: 0.30, deduzir: 720000 },
+    ],
+    III: [
+        { ate: 180000, aliquota: 0.06, deduzir: 0 },
+        { ate: 360000, aliquota: 0.112, deduzir: 9360 },
+        { ate: 720000, aliquota: 0.135, deduzir: 17640 },
+        { ate: 1800000, aliquota: 0.16, deduzir: 35640 },
+        { ate: 3600000, aliquota: 0.21, deduzir: 125640 },
+        { ate: 4800000, aliquota: 0.33, deduzir: 648000 },
+    ],
+    IV: [
+        { ate: 180000, aliquota: 0.045, deduzir: 0 },
+        { ate: 360000, aliquota: 0.09, deduzir: 8100 },
+        { ate: 720000, aliquota: 0.102, deduzir: 12420 },
+        { ate: 1800000, aliquota: 0.14, deduzir: 39780 },
+        { ate: 3600000, aliquota: 0.22, deduzir: 183780 },
+        { ate: 4800000, aliquota: 0.33, deduzir: 828000 },
+    ],
+    V: [
+        { ate: 180000, aliquota: 0.155, deduzir: 0 },
+        { ate: 360000, aliquota: 0.18, deduzir: 4500 },
+        { ate: 720000, aliquota: 0.195, deduzir: 9900 },
+        { ate: 1800000, aliquota: 0.205, deduzir: 17100 },
+        { ate: 3600000, aliquota: 0.23, deduzir: 62100 },
+        { ate: 4800000, aliquota: 0.305, deduzir: 540000 },
+    ],
+};
+
+/** PIS + COFINS sobre a receita bruta */
+const PIS_COFINS: Record<Exclude<RegimeTributario, 'simples'>, { pis: number; cofins: number }> = {
+    presumido: { pis: 0.0065, cofins: 0.03 },
+    real: { pis: 0.0165, cofins: 0.076 },
+};
+
+const PRESUNCAO: Record<AtividadePresumido, { irpj: number; csll: number }> = {
+    servicos: { irpj: 0.32, csll: 0.32 },
+    comercio: { irpj: 0.08, csll: 0.12 },
+};
+
+const IRPJ_ALIQUOTA = 0.15;
+const IRPJ_ADICIONAL = 0.10;
+/** Adicional de IRPJ incide sobre a base que excede R$ 20.000 por mês do período */
+const IRPJ_ADICIONAL_LIMITE_MENSAL = 20000;
+const CSLL_ALIQUOTA = 0.09;
+
+/** Config keys that drive the regime, with the values each accepts */
+const TAX_CONFIG_VALUES: Record<string, string[]> = {
+    REGIME_TRIBUTARIO: REGIMES_TRIBUTARIOS,
+    SIMPLES_ANEXO: SIMPLES_ANEXOS,
+    PRESUMIDO_ATIVIDADE: Object.keys(PRESUNCAO),
+};
+
+/** Validates a config write for the tax keys (case-insensitive, as parseTaxConfig reads them; empty resets to the default) */
+export function validateTaxConfigEntry(key: string, value: string): string | null {
+    const aceitos = TAX_CONFIG_VALUES[key];
+    if (!aceitos || !value.trim() || aceitos.some(v => v.toLowerCase() === value.trim().toLowerCase())) return null;
+    return `Valor inválido para ${key}: "${value}". Use: ${aceitos.join(', ')}`;
+}
+
+/** Reads REGIME_TRIBUTARIO / SIMPLES_ANEXO / PRESUMIDO_ATIVIDADE; invalid values fall back to the default and are flagged in `aviso` */
+export function parseTaxConfig(values: { regime?: string | null; anexo?: string | null; atividade?: string | null }): TaxConfig {
+    const regime = (values.regime || '').toLowerCase() as RegimeTributario;
+    const anexo = (values.anexo || '').toUpperCase() as SimplesAnexo;
+    const atividade = (values.atividade || '').toLowerCase() as AtividadePresumido;
+    const config: TaxConfig = {
+        regime: REGIMES_TRIBUTARIOS.includes(regime) ? regime : DEFAULT_TAX_CONFIG.regime,
+        anexo: SIMPLES_ANEXOS.includes(anexo) ? anexo : DEFAULT_TAX_CONFIG.anexo,
+        atividade: atividade in PRESUNCAO ? atividade : DEFAULT_TAX_CONFIG.atividade,
+    };
+    const invalidos = ([
+        ['REGIME_TRIBUTARIO', values.regime, config.regime],
+        ['SIMPLES_ANEXO', values.anexo, config.anexo],
+        ['PRESUMIDO_ATIVIDADE', values.atividade, config.atividade],
+    ] as const).filter(([key, value]) => value && validateTaxConfigEntry(key, value));
+    if (invalidos.length > 0) {
+        config.aviso = invalidos.map(([key, value, usado]) => `${key} inválido ("${value}") — usando ${usado}`).join('; ');
+        logger.warn(config.aviso);
+    }
+    return config;
+}
+
+export async function getTaxConfig(): Promise<TaxConfig> {
+    const [regime, anexo, atividade] = await Promise.all([
+        getConfig('REGIME_TRIBUTARIO'),
+        getConfig('SIMPLES_ANEXO'),
+        getConfig('PRESUMIDO_ATIVIDADE'),
+    ]);
+    return parseTaxConfig({ regime, anexo, atividade });
+}
+
+/** Gross revenue (RECEITA_DIRETA) per competência month — the history RBT12 is computed from */
+export function monthlyGrossRevenue(items: GuardianAuthorization[], catMap: Map<string, { tipo: string; grupo: string }>): Map<string, number> {
+    const receita = new Map<string, number>();
+    for (const i of items) {
+        if (catMap.get(i.classificacao)?.tipo !== 'RECEITA_DIRETA') continue;
+        const mes = competenciaDate(i).substring(0, 7);
+        receita.set(mes, (receita.get(mes) || 0) + i.valor);
+    }
+    return receita;
+}
+
+/**
+ * Receita bruta dos 12 meses anteriores ao período de apuração. Com histórico mais curto
+ * (início de atividade), anualiza a média dos meses disponíveis (LC 123, art. 18, §2º).
+ */
+export function rbt12(receitaMensal: Map<string, number>, periodo: string): number {
+    const primeiro = [...receitaMensal.keys()].sort()[0];
+    let [y, m] = periodo.split('-').map(Number);
+    let total = 0;
+    let meses = 0;
+    for (let i = 0; i < 12; i++) {
+        if (--m < 1) { m = 12; y--; }
+        const mes = `${y}-${String(m).padStart(2, '0')}`;
+        if (!primeiro || mes < primeiro) continue;
+        total += receitaMensal.get(mes) || 0;
+        meses++;
+    }
+    return meses > 0 && meses < 12 ? (total / meses) * 12 : total;
+}
+
+/**
+ * Alíquota efetiva do Simples: (RBT12 × nominal − parcela a deduzir) / RBT12.
+ * Sem histórico (início de atividade), aplica a nominal da 1ª faixa.
+ */
+export function simplesRate(anexo: SimplesAnexo, receita12: number): { faixa: number; aliquotaNominal: number; parcelaDeduzir: number; aliquotaEfetiva: number } {
+    const tabela = SIMPLES_TABELAS[anexo];
+    const idx = receita12 > 0 ? tabela.findIndex(f => receita12 <= f.ate) : 0;
+    const faixa = idx >= 0 ? idx : tabela.length - 1;
+    const { aliquota, deduzir } = tabela[faixa];
+    const aliquotaEfetiva = receita12 > 0 ? (receita12 * aliquota - deduzir) / receita12 : aliquota;
+    return { faixa: faixa + 1, aliquotaNominal: aliquota, parcelaDeduzir: deduzir, aliquotaEfetiva };
+}
+
+/** Deduções da receita bruta (impostos sobre faturamento) */
+export interface RevenueDeductions {
+    total: number;
+    /** total / receita bruta */
+    aliquotaEfetiva: number;
+    composicao: Record<string, number>;
+    /** Simples: alíquota aplicada em cada mês de competência */
+    meses?: Array<{ periodo: string; receita: number; rbt12: number; faixa: number; aliquotaEfetiva: number; das: number }>;
+}
+
+/** Deductions for the DRE's revenue, month by month (Simples depends on each month's RBT12) */
+export function revenueDeductions(config: TaxConfig, receitaPeriodo: Map<string, number>, receitaHistorica: Map<string, number>): RevenueDeductions {
+    const receitaBruta = [...receitaPeriodo.values()].reduce((s, v) => s + v, 0);
+
+    if (config.regime === 'simples') {
+        const meses = [...receitaPeriodo.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([periodo, receita]) => {
+            const r12 = rbt12(receitaHistorica, periodo);
+            const { faixa, aliquotaEfetiva } = simplesRate(config.anexo, r12);
+            return { periodo, receita, rbt12: r12, faixa, aliquotaEfetiva, das: receita * aliquotaEfetiva };
+        });
+        const total = meses.reduce((s, m) => s + m.das, 0);
+        return { total, aliquotaEfetiva: receitaBruta > 0 ? total / receitaBruta : 0, composicao: { DAS: total }, meses };
+    }
+
+    const { pis, cofins } = PIS_COFINS[config.regime];
+    return {
+        total: receitaBruta * (pis + cofins),
+        aliquotaEfetiva: pis + cofins,
+        composicao: { PIS: receitaBruta * pis, COFINS: receitaBruta * cofins },
+    };
+}
+
+export interface IncomeTaxes {
+    baseIRPJ: number;
+    baseCSLL: number;
+    irpj: number;
+    adicionalIRPJ: number;
+    csll: number;
+    total: number;
+}
+
+/**
+ * IRPJ + adicional + CSLL. Presumido: base = receita bruta × presunção + receitas financeiras;
+ * Real: base = resultado antes do IR. Simples: already inside the DAS, so zero here.
+ * `meses` = months in the period, for the adicional's R$ 20k/month allowance.
+ */
+export function incomeTaxes(
+    config: TaxConfig,
+    input: { receitaBruta: number; receitasFinanceiras: number; resultadoAntesIR: number; meses: number }
+): IncomeTaxes {
+    if (config.regime === 'simples') {
+        return { baseIRPJ: 0, baseCSLL: 0, irpj: 0, adicionalIRPJ: 0, csll: 0, total: 0 };
+    }
+    let baseIRPJ: number;
+    let baseCSLL: number;
+    if (config.regime === 'presumido') {
+        const presuncao = PRESUNCAO[config.atividade];
+        baseIRPJ = input.receitaBruta * presuncao.irpj + input.receitasFinanceiras;
+        baseCSLL = input.receitaBruta * presuncao.csll + input.receitasFinanceiras;
+    } else {
+        baseIRPJ = Math.max(input.resultadoAntesIR, 0);
+        baseCSLL = baseIRPJ;
+    }
+    const irpj = baseIRPJ * IRPJ_ALIQUOTA;
+    const adicionalIRPJ = Math.max(baseIRPJ - IRPJ_ADICIONAL_LIMITE_MENSAL * Math.max(input.meses, 1), 0) * IRPJ_ADICIONAL;
+    const csll = baseCSLL * CSLL_ALIQUOTA;
+    return { baseIRPJ, baseCSLL, irpj, adicionalIRPJ, csll, total: irpj + adicionalIRPJ + csll };
+}
+
+/** What the DRE shows about the taxes it applied */
+export function taxSummary(config: TaxConfig, deducoes: RevenueDeductions, ir: IncomeTaxes) {
+    const descricao = config.regime === 'simples'
+        ? `Simples Nacional — Anexo ${config.anexo}`
+        : config.regime === 'presumido'
+            ? `Lucro Presumido — ${config.atividade === 'servicos' ? 'serviços (32%/32%)' : 'comércio/indústria (8%/12%)'}`
+            : 'Lucro Real';
+    return {
+        regime: config.regime,
+        descricao,
+        aviso: config.aviso,
+        anexo: config.regime === 'simples' ? config.anexo : undefined,
+        deducoes: {
+            aliquotaEfetiva: deducoes.aliquotaEfetiva,
+            composicao: deducoes.composicao,
+            meses: deducoes.meses,
+        },
+        impostoRenda: config.regime === 'simples'
+            ? { incluidoNoDAS: true }
+            : {
+                baseIRPJ: ir.baseIRPJ,
+                aliquotaIRPJ: IRPJ_ALIQUOTA,
+                irpj: ir.irpj,
+                aliquotaAdicional: IRPJ_ADICIONAL,
+                adicionalIRPJ: ir.adicionalIRPJ,
+                baseCSLL: ir.baseCSLL,
+                aliquotaCSLL: CSLL_ALIQUOTA,
+                csll: ir.csll,
+            },
+    };
+}
+
+/** Everything buildDRE needs to apply the regime: config plus revenue by competência month */
+export interface TaxContext {
+    config: TaxConfig;
+    /** Receita bruta histórica (todos os lançamentos aprovados) — base do RBT12 */
+    receitaMensal: Map<string, number>;
+    /** Período pedido na DRE — define os meses do limite do adicional de IRPJ */
+    periodo?: { de: string | null; ate: string | null };
+}
+
+/**
+ * Months of the DRE period (at least 1) — scales the IRPJ adicional allowance. Counts every month
+ * from `de` to `ate`, with or without items; an open bound falls back to the items' first/last competência.
+ */
+export function periodMonths(items: GuardianAuthorization[], periodo: { de: string | null; ate: string | null } = { de: null, ate: null }): number {
+    const meses = items.map(i => competenciaDate(i).substring(0, 7)).filter(Boolean).sort();
+    const de = periodo.de?.substring(0, 7) || meses[0];
+    const ate = periodo.ate?.substring(0, 7) || meses[meses.length - 1];
+    if (!de || !ate) return 1;
+    const [y1, m1] = de.split('-').map(Number);
+    const [y2, m2] = ate.split('-').map(Number);
+    return Math.max((y2 - y1) * 12 + (m2 - m1) + 1, 1);
+}
@@ -0,0 +1,44 @@
+import { createHash } from 'crypto';
+import { InterTransaction } from './interConnector';
+
+/**
+ * Deterministic identity of a bank transaction, stable across syncs.
+ * Uses the bank's own id when available; otherwise hashes date, amount, direction,
+ * normalized description and counterparty document — scoped by account when known.
+ * Rows stored before their account existed keep the unscoped id (see processTransactions).
+ */
+export function transactionFingerprint(tx: InterTransaction): string {
+    const base = tx.idExterno
+        ? `ext|${tx.idExterno}`
+        : [
+            tx.data.substring(0, 10),
+            tx.valor.toFixed(2),
+            tx.tipo,
+            normalizeDescription(tx.descricao),
+            (tx.cpfCnpjBeneficiario || '').replace(/\D/g, ''),
+        ].join('|');
+    // Ids do banco e linhas idênticas só são únicos dentro da mesma conta
+    const key = tx.contaId ? `${tx.contaId}|${base}` : base;
+    return 'TX_' + createHash('sha256').update(key).digest('hex').substring(0, 32);
+}
+
+/**
+ * Replaces each transaction id with its fingerprint.
+ * Identical rows in the same batch (ex: two equal fees on the same day) get an
+ * occurrence suffix so they stay distinct — and keep the same ids on every re-sync.
+ * A repeated bank id is the same transaction read twice, never a second occurrence.
+ */
+export function assignFingerprints(transactions: InterTransaction[]): InterTransaction[] {
+    const seen = new Map<string, number>();
+    return transactions.map(tx => {
+        const fp = transactionFingerprint(tx);
+        if (tx.idExterno) return { ...tx, id: fp };
+        const n = seen.get(fp) || 0;
+        seen.set(fp, n + 1);
+        return { ...tx, id: n === 0 ? fp : `${fp}_${n}` };
+    });
+}
+
+function normalizeDescription(value: string): string {
+    return (value || '').normalize('NFD').replace(/[\u0300-\u036f]/g, '').toUpperCase().replace(/\s+/g, ' ').trim();
+}
@@ -0,0 +1,178 @@
+import { createLogger, nowISO } from '../shared/utils';
+import { toGuardianAuth, GuardianAuthorization } from '../shared/types';
+import { createGuardianAuth, updateGuardianAuth, getAllAuthorizations } from '../storage/tableClient';
+import { GuardianAgents, AnalysisResult } from './guardianAgents';
+import { openDocuments } from './reconciliationWorkbench';
+import { InterTransaction } from './interConnector';
+import { assignFingerprints } from './transactionFingerprint';
+import { settlePayablesFromDebits } from './payables';
+import { settleReceivablesFromCredits } from './receivables';
+
+const logger = createLogger('TransactionPipeline');
+
+export interface PipelineOptions {
+    /** Documentos novos do mesmo ciclo (ex: anexos de email) — conciliados e persistidos junto */
+    documents?: AnalysisResult[];
+    /** Origem gravada nas autorizações (ex: 'upload', 'import_manual') */
+    origem?: string;
+    /** Extrato de origem no document store — referenciado em cada transação */
+    documentId?: string;
+    /** ContaCorrente do extrato importado — atribuída às transações sem conta */
+    contaId?: string;
+    /** Fatura de cartão: compras ficam na competência da compra e saem do caixa no vencimento */
+    vencimento?: string;
+}
+
+/** Contagem do upsert por fingerprint */
+export interface UpsertSummary {
+    new: number;
+    updated: number;
+    unchanged: number;
+}
+
+export interface PipelineResult {
+    /** Only transactions classified in this run (new or updated) */
+    txResults: AnalysisResult[];
+    docResults: AnalysisResult[];
+    summary: UpsertSummary;
+    /** Títulos a pagar quitados por débitos novos deste lote */
+    payablesSettled: number;
+    /** Títulos a receber quitados por créditos novos deste lote */
+    receivablesSettled: number;
+}
+
+/**
+ * Classificação → auditoria → conciliação → persistência.
+ * Caminho único para o extrato Inter (guardianSync) e para extratos importados (OFX/CSV),
+ * garantindo que toda transação bancária chegue à fila de aprovação da mesma forma.
+ *
+ * Idempotente: cada transação é identificada pelo seu fingerprint. Itens já aprovados
+ * ou rejeitados nunca são tocados; pendentes só são reprocessados se o banco alterou os dados.
+ */
+export async function processTransactions(
+    agents: GuardianAgents,
+    transactions: InterTransaction[],
+    options: PipelineOptions = {}
+): Promise<PipelineResult> {
+    const all = await getAllAuthorizations();
+    const existingById = new Map(all.map(a => [a.id, a]));
+
+    // Mesmo arquivo (SHA-256) já na fila — ex: email relido na janela de sobreposição
+    const knownDocuments = new Set(all.filter(a => a.tipo === 'document' && a.documentoId).map(a => a.documentoId));
+    const docResults = (options.documents || []).filter(d => !d.documentId || !knownDocuments.has(d.documentId));
+
+    const summary: UpsertSummary = { new: 0, updated: 0, unchanged: 0 };
+    const toProcess: InterTransaction[] = [];
+    const updatedIds = new Set<string>();
+
+    const scoped = options.contaId ? transactions.map(t => ({ ...t, contaId: t.contaId || options.contaId })) : transactions;
+    const unscoped = assignFingerprints(scoped.map(t => ({ ...t, contaId: undefined })));
+    const batchIds = new Set<string>();
+    for (const [i, fingerprinted] of assignFingerprints(scoped).entries()) {
+        // Mesmo id do banco repetido no lote (arquivos sobrepostos): só a primeira leitura conta
+        if (batchIds.has(fingerprinted.id)) continue;
+        batchIds.add(fingerprinted.id);
+        // Linhas gravadas antes de a conta existir (Inter legado via ambiente) têm o id sem conta:
+        // mantém esse id e atribui a conta, para que a mesma linha em outra conta não a reaproveite
+        const legacy = existingById.get('CLASS_' + unscoped[i].id);
+        const tx = fingerprinted.contaId && !existingById.has('CLASS_' + fingerprinted.id) && legacy && !legacy.contaId
+            ? { ...fingerprinted, id: unscoped[i].id }
+            : fingerprinted;
+        if (legacy && tx.id === unscoped[i].id && tx.contaId) {
+            await updateGuardianAuth(legacy.id, { contaId: tx.contaId });
+            legacy.contaId = tx.contaId;
+        }
+        const existing = existingById.get('CLASS_' + tx.id);
+        if (!existing) {
+            summary.new++;
+            toProcess.push(tx);
+        } else if (existing.status !== 'pendente' || !hasChanged(existing, tx)) {
+            summary.unchanged++;
+        } else {
+            summary.updated++;
+            updatedIds.add('CLASS_' + tx.id);
+            toProcess.push(tx);
+        }
+    }
+
+    const txResults = await Promise.all(toProcess.map(t => agents.classifyTransaction(t)));
+    txResults.forEach((r, i) => {
+        r.contaId = toProcess[i].contaId;
+        r.direction = toProcess[i].tipo;
+        r.date = toProcess[i].data;
+        r.description = toProcess[i].descricao;
+        r.cpfCnpj = toProcess[i].cpfCnpjBeneficiario;
+        if (options.documentId) r.documentId = options.documentId;
+    });
+
+    // Baixa automática de títulos: só movimentos novos (um reprocessamento não quita de novo)
+    const movements = toProcess
+        .map((tx, i) => ({ tx, res: txResults[i] }))
+        .filter(({ res }) => !updatedIds.has(res.id))
+        .map(({ tx, res }) => ({ tipo: tx.tipo, authId: res.id, data: tx.data, valor: tx.valor, descricao: tx.descricao, cpfCnpj: tx.cpfCnpjBeneficiario, contaId: tx.contaId }));
+    const settled = await settlePayablesFromDebits(movements.filter(m => m.tipo === 'DEBITO'));
+    const received = await settleReceivablesFromCredits(movements.filter(m => m.tipo === 'CREDITO'));
+
+    const resultsById = new Map(txResults.map(r => [r.id, r]));
+    for (const { payable, debit } of settled) {
+        const res = resultsById.get(debit.authId)!;
+        res.contaPagarId = payable.id;
+        applyTitleCategory(res, payable.categoria);
+    }
+    for (const { receivable, credit } of received) {
+        const res = resultsById.get(credit.authId)!;
+        res.contaReceberId = receivable.id;
+        applyTitleCategory(res, receivable.categoria);
+    }
+
+    // Build description map from original transactions
+    const txDescMap = new Map<string, { descricao: string; data: string }>();
+    for (const tx of toProcess) {
+        txDescMap.set('CLASS_' + tx.id, { descricao: tx.descricao, data: tx.data });
+    }
+
+    // Auditoria e Reconciliação
+    const allResults = [...txResults, ...docResults];
+    for (const res of allResults) {
+        await agents.audit(res);
+    }
+    // Itens reprocessados não contam a própria conciliação anterior
+    const { docs: storedDocs, paid } = txResults.length > 0
+        ? openDocuments(all.filter(a => !updatedIds.has(a.id)))
+        : { docs: [], paid: new Map<string, number>() };
+    await agents.reconcile(txResults, [...docResults, ...storedDocs], paid);
+
+    // Persist with full data (audit + needsReview + description included)
+    for (const res of allResults) {
+        const txInfo = txDescMap.get(res.id);
+        const auth = toGuardianAuth(res, nowISO(), options.origem, txInfo?.descricao, txInfo?.data);
+        if (options.vencimento && res.type === 'transaction') {
+            auth.dataVencimento = options.vencimento;
+            auth.dataPagamento = options.vencimento;
+        }
+        if (updatedIds.has(res.id)) {
+            // Mantém quando/como o item entrou na fila
+            const { criadoEm, dataInclusao, origem, ...changes } = auth;
+            await updateGuardianAuth(res.id, changes);
+        } else {
+            await createGuardianAuth(auth);
+        }
+    }
+
+    logger.info(`Pipeline concluído: ${summary.new} novas, ${summary.updated} atualizadas, ${summary.unchanged} inalteradas, ${docResults.length} documentos, ${settled.length + received.length} títulos quitados`);
+    return { txResults, docResults, summary, payablesSettled: settled.length, receivablesSettled: received.length };
+}
+
+/** O título quitado já diz o que é o movimento — usa a categoria dele com confiança alta */
+function applyTitleCategory(res: AnalysisResult, categoria: string): void {
+    res.classification = categoria;
+    res.confidence = Math.max(res.confidence, 0.97);
+    res.suggestedAction = 'approve';
+}
+
+/** A pending item is re-classified only when the bank changed what the user sees */
+function hasChanged(existing: GuardianAuthorization, tx: InterTransaction): boolean {
+    return existing.valor !== tx.valor
+        || (existing.descricao || '') !== tx.descricao
+        || (existing.data || '') !== tx.data;
+}
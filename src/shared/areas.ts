@@ -157,6 +157,7 @@ export type CategoriaGrupo =
     | 'Marketing Performance'
     | 'Impostos Variaveis'
     | 'Insumos e Materiais'
+    | 'Viagens'
     // Custos/Despesas Fixos
     | 'Pessoal'
     | 'Ocupacao'
@@ -183,6 +184,9 @@ export interface Categoria {
 
 export type ContaTipo = 'corrente' | 'poupanca' | 'investimento' | 'cartao' | 'caixa';
 
+/** Fonte automática de saldo/extrato: 'inter' (API inter-ops) ou 'ofx_drop' (arquivos OFX depositados) */
+export type ConectorTipo = 'inter' | 'ofx_drop';
+
 export interface ContaCorrente {
     id: string;
     nome: string;
@@ -191,8 +195,12 @@ export interface ContaCorrente {
     agencia?: string;
     conta?: string;
     saldoInicial: number;
+    /** Data a que o saldo inicial se refere (YYYY-MM-DD); sem ela vale CC_DATA_REFERENCIA */
+    dataSaldoInicial?: string;
     ativa: boolean;
     criadoEm: string;
+    /** Sem conector a conta só recebe lançamentos importados manualmente */
+    conector?: ConectorTipo;
 }
 
 export type CadastroType = 'categorias' | 'contas' | 'clientes' | 'fornecedores';
@@ -3,7 +3,9 @@
  * Eliminates `any` usage across the codebase.
  */
 
-import { AnalysisResult } from '../guardian/guardianAgents';
+import { AnalysisResult, ClassifierLayer } from '../guardian/guardianAgents';
+import { FiscalDocumentInfo } from '../guardian/fiscalXmlParser';
+import { ReconciliationMatch } from '../guardian/reconciliationEngine';
 
 /** Audit result shape (used in-memory and after deserialization) */
 export interface AuditInfo {
@@ -11,6 +13,13 @@ export interface AuditInfo {
     budgetLimit?: number;
     variation?: number;
     alert: 'none' | 'warning' | 'critical';
+    /** Competência auditada (YYYY-MM) */
+    period?: string;
+    /** Gasto aprovado + pendente da categoria no mês, incluindo o lançamento */
+    accumulated?: number;
+    /** accumulated / budgetLimit (%) */
+    usagePct?: number;
+    warningPct?: number;
 }
 
 /** Entity stored in Azure Table Storage / in-memory.
@@ -42,6 +51,36 @@ export interface GuardianAuthorization {
     auditJson?: string;
     /** Transient — populated after parsing auditJson */
     audit?: AuditInfo;
+    /** NF-e/NFS-e data (emitente, tomador, retenções) stored as JSON string */
+    fiscalJson?: string;
+    /** Transient — populated after parsing fiscalJson */
+    fiscal?: FiscalDocumentInfo;
+    /** Conciliação (tipo, score, documentos, motivos) stored as JSON string; `match` lists the document ids */
+    conciliacaoJson?: string;
+    /** Transient — populated after parsing conciliacaoJson */
+    conciliacao?: ReconciliationMatch;
+    /** Arquivo de origem no document store (GET /api/guardianDocuments/{id}) */
+    documentoId?: string;
+    /** ContaCorrente onde o lançamento ocorreu (sync/import, editável na aprovação) */
+    contaId?: string;
+    /** Sentido no extrato — valor é sempre positivo */
+    direcao?: 'CREDITO' | 'DEBITO';
+    /** Transferência interna: conta que recebeu a contrapartida */
+    contaDestino?: string;
+    /** Contrapartida: id do lançamento que originou a transferência */
+    transferenciaOrigem?: string;
+    /** Título a pagar quitado por este débito */
+    contaPagarId?: string;
+    /** Título a receber quitado por este crédito */
+    contaReceberId?: string;
+    /** Rateio: a transação foi dividida — DRE/DFC usam as partes, não ela */
+    dividida?: boolean;
+    /** Rateio: id da transação original desta parte */
+    parentId?: string;
+    // Email de origem (documentos recebidos na caixa do financeiro)
+    emailRemetente?: string;
+    emailAssunto?: string;
+    emailRecebidoEm?: string;
     needsReview?: boolean;
     // Azure Table Storage keys
     partitionKey?: string;
@@ -51,9 +90,15 @@ export interface GuardianAuthorization {
 /** Body accepted by POST /api/guardianImport */
 export interface ImportRequestBody {
     name?: string;
-    type?: 'pdf' | 'xml' | 'ofx' | 'csv';
+    type?: DocType;
     url: string;
     size?: number;
+    /** ContaCorrente do extrato (OFX/CSV) */
+    contaId?: string;
+    /** Perfil de mapeamento obrigatório para extratos CSV */
+    profileId?: string;
+    /** Vencimento da fatura (contas cartão) — sobrepõe o lido do arquivo */
+    vencimento?: string;
 }
 
 /** KPI output from GuardianAgents.calculateKPIs */
@@ -74,7 +119,7 @@ export function toGuardianAuth(
     descricao?: string,
     data?: string
 ): GuardianAuthorization {
-    const dataTransacao = data || criadoEm.split('T')[0];
+    const dataTransacao = data || res.date || criadoEm.split('T')[0];
     const hoje = criadoEm.split('T')[0];
 
     return {
@@ -88,7 +133,7 @@ export function toGuardianAuth(
         criadoEm,
         sugestao: res.suggestedAction,
         origem: origem || '',
-        descricao: descricao || '',
+        descricao: descricao || res.description || res.email?.assunto || '',
         data: dataTransacao,
 
         // Datas financeiras
@@ -104,9 +149,19 @@ export function toGuardianAuth(
             res.suggestedAction === 'approve' ? 'Recomendação: aprovar automaticamente.' :
             res.suggestedAction === 'investigate' ? 'Recomendação: revisar antes de aprovar.' :
             'Recomendação: arquivar (conciliado com documento).'
-        }`,
+        }${res.reconciliation ? ` Conciliação ${res.reconciliation.tipo} (score ${(res.reconciliation.score * 100).toFixed(0)}%): ${res.reconciliation.motivos.join('; ')}.` : ''}`,
 
         auditJson: res.audit ? JSON.stringify(res.audit) : undefined,
+        fiscalJson: res.fiscal ? JSON.stringify(res.fiscal) : undefined,
+        conciliacaoJson: res.reconciliation ? JSON.stringify(res.reconciliation) : undefined,
+        documentoId: res.documentId,
+        contaId: res.contaId,
+        direcao: res.direction,
+        contaPagarId: res.contaPagarId,
+        contaReceberId: res.contaReceberId,
+        emailRemetente: res.email?.remetente,
+        emailAssunto: res.email?.assunto,
+        emailRecebidoEm: res.email?.recebidoEm,
         needsReview: true, // Todas as transações precisam de aprovação do usuário
     };
 }
@@ -118,6 +173,16 @@ export function hydrateAuth(auth: GuardianAuthorization): GuardianAuthorization
             auth.audit = JSON.parse(auth.auditJson) as AuditInfo;
         } catch { /* ignore parse errors */ }
     }
+    if (auth.fiscalJson && !auth.fiscal) {
+        try {
+            auth.fiscal = JSON.parse(auth.fiscalJson) as FiscalDocumentInfo;
+        } catch { /* ignore parse errors */ }
+    }
+    if (auth.conciliacaoJson && !auth.conciliacao) {
+        try {
+            auth.conciliacao = JSON.parse(auth.conciliacaoJson) as ReconciliationMatch;
+        } catch { /* ignore parse errors */ }
+    }
     return auth;
 }
 
@@ -177,6 +242,319 @@ export function hydrateLearningRule(rule: LearningRule): LearningRule {
     return rule;
 }
 
-/** Valid document types for import */
-export const VALID_DOC_TYPES = ['pdf', 'xml', 'ofx', 'csv'] as const;
+/** ============ CONCILIAÇÃO ============ */
+
+/** Decisão manual na bancada de conciliação, gravada na tabela GuardianConciliacaoLog */
+export interface ReconciliationDecision {
+    id: string;
+    acao: 'confirmar' | 'desfazer';
+    transacaoId: string;
+    /** Ids dos documentos envolvidos, separados por vírgula */
+    documentos: string;
+    usuario: string;
+    registradoEm: string;
+    /** Confirmar: score dos documentos escolhidos (ausente se o motor não os conciliaria); desfazer: score da conciliação desfeita */
+    score?: number;
+    observacao?: string;
+}
+
+/** ============ FECHAMENTO MENSAL ============ */
+
+/** Resultado de uma verificação pré-fechamento */
+export interface FechamentoCheck {
+    codigo: 'pendentes' | 'documentos_sem_conciliacao' | 'nao_classificados';
+    descricao: string;
+    /** Bloqueante impede o fechamento; aviso só é registrado */
+    severidade: 'bloqueante' | 'aviso';
+    quantidade: number;
+    /** Até 20 ids para o usuário localizar os itens */
+    itens: string[];
+}
+
+/** Mês fechado (id = 'YYYY-MM'), gravado na tabela GuardianFechamentos */
+export interface Fechamento {
+    id: string;
+    status: 'fechado' | 'reaberto';
+    fechadoEm: string;
+    fechadoPor: string;
+    reabertoEm?: string;
+    reabertoPor?: string;
+    /** DRE/DFC/saldos congelados no fechamento, stored as JSON string */
+    snapshotJson: string;
+    /** Transient — populated after parsing snapshotJson */
+    snapshot?: Record<string, unknown>;
+    /** Avisos aceitos no fechamento, stored as JSON string */
+    checksJson?: string;
+    checks?: FechamentoCheck[];
+}
+
+/** Fechamento/reabertura registrados na tabela GuardianFechamentosLog */
+export interface FechamentoEvento {
+    id: string;
+    periodo: string;
+    acao: 'fechar' | 'reabrir';
+    usuario: string;
+    registradoEm: string;
+    motivo?: string;
+}
+
+export function hydrateFechamento(f: Fechamento): Fechamento {
+    try {
+        if (f.snapshotJson && !f.snapshot) f.snapshot = JSON.parse(f.snapshotJson);
+        if (f.checksJson && !f.checks) f.checks = JSON.parse(f.checksJson);
+    } catch { /* ignore parse errors */ }
+    return f;
+}
+
+/** ============ RAZÃO (PARTIDAS DOBRADAS) ============ */
+
+/** O que levou ao lançamento contábil */
+export type LedgerEvento = 'aprovacao' | 'reclassificacao' | 'rateio' | 'transferencia' | 'rejeicao' | 'conciliacao' | 'reprocessamento';
+
+/**
+ * Partida dobrada: um débito e um crédito do mesmo valor — cada registro fecha sozinho.
+ * Append-only: correções estornam (contas invertidas, `estornoDe`) e lançam de novo.
+ */
+export interface LedgerEntry {
+    id: string;
+    /** Registros gravados juntos para a mesma origem */
+    loteId: string;
+    /** Autorização (transação/documento/parte de rateio) que originou o lançamento */
+    origemId: string;
+    evento: LedgerEvento;
+    /** YYYY-MM-DD */
+    dataCompetencia: string;
+    contaDebito: string;
+    contaCredito: string;
+    valor: number;
+    historico: string;
+    /** Estorno: id do lançamento estornado */
+    estornoDe?: string;
+    registradoEm: string;
+}
+
+/** ============ PLANEJAMENTO ORÇAMENTÁRIO ============ */
+
+/**
+ * Versão nomeada do orçamento de um ano fiscal ('Original', 'Revisado Q2', ...).
+ * Valores por categoria: 12 posições, janeiro a dezembro.
+ */
+export interface OrcamentoVersao {
+    id: string;
+    ano: number;
+    nome: string;
+    /** Só uma versão ativa por ano — é a usada no orçado x realizado e na auditoria */
+    ativa: boolean;
+    criadoEm: string;
+    atualizadoEm?: string;
+    /** Cópia: versão de origem e ajuste aplicado (%) */
+    origemVersaoId?: string;
+    ajustePct?: number;
+    /** Record<categoria, number[12]>, stored as JSON string */
+    valoresJson: string;
+    /** Transient — populated after parsing valoresJson */
+    valores?: Record<string, number[]>;
+}
+
+export function hydrateOrcamentoVersao(v: OrcamentoVersao): OrcamentoVersao {
+    try {
+        if (v.valoresJson && !v.valores) v.valores = JSON.parse(v.valoresJson);
+    } catch { /* ignore parse errors */ }
+    if (!v.valores) v.valores = {};
+    return v;
+}
+
+/** ============ SYNC RUN JOURNAL ============ */
+
+/** 'email' or per bound account: `saldo:<contaId>`, `extrato:<contaId>` */
+export type SyncSourceName = 'email' | `saldo:${string}` | `extrato:${string}`;
+
+export interface SyncSourceStats {
+    status: 'ok' | 'degradado' | 'nao_configurado';
+    /** Itens recebidos da fonte (transações, documentos) */
+    itens: number;
+    erro?: string;
+}
+
+/** Uma execução do sync (manual ou timer), gravada na tabela GuardianSyncRuns */
+export interface SyncRun {
+    id: string;
+    trigger: 'manual' | 'timer';
+    status: 'sucesso' | 'degradado' | 'falhou';
+    iniciadoEm: string;
+    finalizadoEm: string;
+    periodoDe: string;
+    periodoAte: string;
+    novas: number;
+    atualizadas: number;
+    inalteradas: number;
+    documentos: number;
+    /** Itens com alerta de orçamento (warning ou critical) */
+    alertasOrcamento: number;
+    /** Dos alertas, os que estouraram o limite */
+    alertasCriticos?: number;
+    /** Erro fatal quando status = 'falhou' */
+    erro?: string;
+    /** Stored as JSON string in Table Storage, parsed back on read */
+    fontesJson: string;
+    /** Transient — populated after parsing fontesJson */
+    fontes?: Partial<Record<SyncSourceName, SyncSourceStats>>;
+    /** Stored as JSON string: classificações por camada (learned/rules/kimi) */
+    classificacoesJson: string;
+    /** Transient — populated after parsing classificacoesJson */
+    classificacoes?: Record<ClassifierLayer, number>;
+}
+
+export function hydrateSyncRun(run: SyncRun): SyncRun {
+    try {
+        if (run.fontesJson && !run.fontes) run.fontes = JSON.parse(run.fontesJson);
+        if (run.classificacoesJson && !run.classificacoes) run.classificacoes = JSON.parse(run.classificacoesJson);
+    } catch { /* ignore parse errors */ }
+    return run;
+}
+
+/** ============ CSV STATEMENT IMPORT ============ */
+
+/** Perfil de mapeamento de colunas para extratos CSV (Itaú, Bradesco, Nubank...).
+ *  Persistido como JSON no GuardianConfig sob a chave CSV_PROFILE_<id>. */
+export interface CsvMappingProfile {
+    id: string;
+    nome: string;
+    banco?: string;
+    /** ';' ',' ou '\t' */
+    delimitador: string;
+    separadorDecimal: ',' | '.';
+    /** Codificação do arquivo — bancos costumam exportar em latin1 (default: utf8) */
+    encoding?: 'utf8' | 'latin1';
+    /** Ex: DD/MM/YYYY, YYYY-MM-DD */
+    formatoData: string;
+    /** Linhas descartadas no topo do arquivo, antes do cabeçalho */
+    linhasIgnorar: number;
+    possuiCabecalho: boolean;
+    /** Colunas: nome do cabeçalho ou índice (0-based) */
+    colunaData: string | number;
+    colunaDescricao: string | number;
+    colunaValor: string | number;
+    /** Coluna opcional de direção (C/D). Sem ela, o sinal do valor define a direção */
+    colunaDirecao?: string | number;
+    /** Faturas de cartão costumam listar compras com valor positivo — inverte o sinal */
+    sinalInvertido?: boolean;
+    /** Valores da coluna de direção que indicam entrada (default: C, CREDITO, ENTRADA...) */
+    valoresCredito?: string[];
+    criadoEm: string;
+    atualizadoEm?: string;
+}
+
+/** Valid document types for import ('txt' = texto de fatura de cartão, copiado/exportado do PDF) */
+export const VALID_DOC_TYPES = ['pdf', 'xml', 'ofx', 'csv', 'txt'] as const;
 export type DocType = typeof VALID_DOC_TYPES[number];
+
+/** ============ CONTAS A PAGAR ============ */
+
+/** 'vencido' não é gravado: é derivado na leitura de títulos abertos/agendados com vencimento passado */
+export type ContaPagarStatus = 'aberto' | 'agendado' | 'pago' | 'vencido' | 'cancelado';
+
+export type Recorrencia = 'nenhuma' | 'mensal' | 'trimestral' | 'anual';
+
+export interface ContaPagar {
+    id: string;
+    fornecedor: string;
+    /** CNPJ/CPF do fornecedor (só dígitos) — quando presente, a baixa automática exige o mesmo documento no extrato */
+    fornecedorCnpj?: string;
+    categoria: string;
+    descricao?: string;
+    valor: number;
+    dataCompetencia: string;
+    dataVencimento: string;
+    status: ContaPagarStatus;
+    /** Boleto/NF no document store */
+    documentoId?: string;
+    recorrencia: Recorrencia;
+    /** Título anterior da série recorrente */
+    recorrenteDe?: string;
+    /** Data programada para o pagamento (status agendado) */
+    agendadoPara?: string;
+    /** Conta de onde sai (ou saiu) o pagamento */
+    contaId?: string;
+    // Baixa
+    dataPagamento?: string;
+    valorPago?: number;
+    /** Autorização (CLASS_TX_...) do débito que quitou o título */
+    transacaoId?: string;
+    /** Obrigação do calendário fiscal que gerou o título */
+    obrigacaoId?: string;
+    /** Valor previsto (imposto estimado): a baixa aceita o débito real com diferença dentro da tolerância */
+    estimado?: boolean;
+    /** Texto que identifica o pagamento no extrato (ex.: DARF, GPS, FGTS) */
+    palavraChave?: string;
+    criadoEm: string;
+    atualizadoEm?: string;
+}
+
+/** ============ CALENDÁRIO FISCAL ============ */
+
+/**
+ * Base de cálculo de uma obrigação:
+ *   receita_bruta — alíquota sobre a receita bruta (RECEITA_DIRETA) da competência (ex.: ISS)
+ *   categorias    — alíquota sobre o realizado de categorias escolhidas (ex.: INSS/FGTS sobre a folha, IRRF sobre serviços tomados)
+ *   valor_fixo    — mesmo valor todo mês
+ *   simples_das   — DAS pelo RBT12 e anexo configurados (só no Simples Nacional)
+ */
+export type ObrigacaoBase = 'receita_bruta' | 'categorias' | 'valor_fixo' | 'simples_das';
+/** Vencimento em fim de semana: antecipa para sexta, posterga para segunda ou mantém */
+export type AjusteDiaUtil = 'antecipar' | 'postergar' | 'nenhum';
+
+export interface ObrigacaoFiscal {
+    /** Curto e estável (ex.: ISS, INSS, FGTS) — compõe o id dos títulos gerados */
+    id: string;
+    nome: string;
+    base: ObrigacaoBase;
+    /** receita_bruta/categorias: alíquota em % */
+    aliquota?: number;
+    categoriasBase?: string[];
+    valorFixo?: number;
+    /** Dia do vencimento (1-31; meses mais curtos usam o último dia) */
+    diaVencimento: number;
+    /** Meses entre a competência e o vencimento (padrão 1: mês seguinte) */
+    mesesApos?: number;
+    ajusteDiaUtil: AjusteDiaUtil;
+    /** Categoria e fornecedor do título a pagar */
+    categoria: string;
+    fornecedor: string;
+    fornecedorCnpj?: string;
+    palavraChave?: string;
+    ativa: boolean;
+    criadoEm: string;
+    atualizadoEm?: string;
+}
+
+/** ============ CONTAS A RECEBER ============ */
+
+/** 'vencido' também é derivado na leitura (título aberto com vencimento passado) */
+export type ContaReceberStatus = 'aberto' | 'recebido' | 'vencido' | 'cancelado';
+
+export interface ContaReceber {
+    id: string;
+    cliente: string;
+    /** CNPJ/CPF do cliente (só dígitos) — quando presente, a baixa exige o mesmo pagador no extrato */
+    clienteCnpj?: string;
+    categoria: string;
+    descricao?: string;
+    valor: number;
+    dataCompetencia: string;
+    dataVencimento: string;
+    status: ContaReceberStatus;
+    /** Parcela n de totalParcelas no cronograma do deal */
+    parcela: number;
+    totalParcelas: number;
+    /** ComercialDeal que gerou o cronograma (ausente em títulos lançados manualmente) */
+    dealId?: string;
+    // Baixa
+    dataRecebimento?: string;
+    valorRecebido?: number;
+    /** Autorização (CLASS_TX_...) do crédito que quitou o título */
+    transacaoId?: string;
+    contaId?: string;
+    criadoEm: string;
+    atualizadoEm?: string;
+}
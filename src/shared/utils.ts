@@ -1,4 +1,6 @@
 import { randomBytes } from 'crypto';
+import * as http from 'http';
+import * as https from 'https';
 
 export function createLogger(label: string) {
     return {
@@ -28,6 +30,27 @@ export function safeErrorMessage(error: unknown): string {
     return 'Erro desconhecido';
 }
 
+/**
+ * Usuário autenticado pelo Static Web Apps: o header x-ms-client-principal traz
+ * um JSON em base64 ({ userDetails, userId, userRoles }). Sem header → 'anonimo', sem papéis.
+ */
+export function clientPrincipal(header: string | null | undefined): { nome: string; roles: string[] } {
+    if (!header) return { nome: 'anonimo', roles: [] };
+    try {
+        const principal = JSON.parse(Buffer.from(header, 'base64').toString('utf8')) as { userDetails?: string; userId?: string; userRoles?: string[] };
+        return {
+            nome: principal.userDetails || principal.userId || 'anonimo',
+            roles: Array.isArray(principal.userRoles) ? principal.userRoles : [],
+        };
+    } catch {
+        return { nome: 'anonimo', roles: [] };
+    }
+}
+
+export function clientPrincipalName(header: string | null | undefined): string {
+    return clientPrincipal(header).nome;
+}
+
 /** Validates a URL string */
 export function isValidUrl(url: string): boolean {
     try {
@@ -37,3 +60,36 @@ export function isValidUrl(url: string): boolean {
         return false;
     }
 }
+
+/** Downloads the raw bytes of an http(s) URL (max 20MB, 15s timeout) */
+export async function downloadContent(url: string, maxBytes: number = 20 * 1024 * 1024): Promise<Buffer> {
+    const parsed = new URL(url);
+    const transport = parsed.protocol === 'http:' ? http : https;
+
+    return new Promise((resolve, reject) => {
+        const req = transport.get(parsed, (res) => {
+            if (!res.statusCode || res.statusCode < 200 || res.statusCode >= 300) {
+                res.resume();
+                reject(new Error(`Download falhou (${res.statusCode}): ${parsed.hostname}`));
+                return;
+            }
+            const chunks: Buffer[] = [];
+            let total = 0;
+            res.on('data', (chunk: Buffer) => {
+                total += chunk.length;
+                if (total > maxBytes) {
+                    req.destroy();
+                    reject(new Error(`Arquivo excede o limite de ${Math.round(maxBytes / 1024 / 1024)}MB`));
+                    return;
+                }
+                chunks.push(chunk);
+            });
+            res.on('end', () => resolve(Buffer.concat(chunks)));
+        });
+        req.setTimeout(15000, () => {
+            req.destroy();
+            reject(new Error('Download timeout (15s)'));
+        });
+        req.on('error', reject);
+    });
+}
@@ -9,6 +9,7 @@ import {
     Categoria,
     ContaCorrente,
 } from '../shared/areas';
+import { CsvMappingProfile, ObrigacaoFiscal } from '../shared/types';
 
 const logger = createLogger('AreaTableClient');
 
@@ -198,6 +199,55 @@ export async function getAllConfig(): Promise<Record<string, string>> {
     return result;
 }
 
+export async function deleteConfig(key: string): Promise<void> {
+    const client = await getTableClient(CONFIG_TABLE);
+
+    if (!client) {
+        configInMemory.delete(key);
+        logger.info(`[In-Memory] Config removida: ${key}`);
+        return;
+    }
+
+    await client.deleteEntity('CONFIG', key);
+    logger.info(`Config removida: ${key}`);
+}
+
+// ============ CSV MAPPING PROFILES (stored in GuardianConfig) ============
+
+const CSV_PROFILE_PREFIX = 'CSV_PROFILE_';
+
+export async function getCsvProfiles(): Promise<CsvMappingProfile[]> {
+    const config = await getAllConfig();
+    const profiles: CsvMappingProfile[] = [];
+    for (const [key, value] of Object.entries(config)) {
+        if (!key.startsWith(CSV_PROFILE_PREFIX)) continue;
+        try {
+            profiles.push(JSON.parse(value) as CsvMappingProfile);
+        } catch {
+            logger.warn(`Perfil CSV corrompido ignorado: ${key}`);
+        }
+    }
+    return profiles.sort((a, b) => a.nome.localeCompare(b.nome));
+}
+
+export async function getCsvProfile(id: string): Promise<CsvMappingProfile | null> {
+    const value = await getConfig(CSV_PROFILE_PREFIX + id);
+    if (!value) return null;
+    try {
+        return JSON.parse(value) as CsvMappingProfile;
+    } catch {
+        return null;
+    }
+}
+
+export async function saveCsvProfile(profile: CsvMappingProfile): Promise<void> {
+    await setConfig(CSV_PROFILE_PREFIX + profile.id, JSON.stringify(profile));
+}
+
+export async function deleteCsvProfile(id: string): Promise<void> {
+    await deleteConfig(CSV_PROFILE_PREFIX + id);
+}
+
 // ============ CADASTROS (Categorias, Contas, Clientes, Fornecedores) ============
 
 const CADASTRO_TABLE_NAMES: Record<CadastroType, string> = {
@@ -290,3 +340,65 @@ export async function deleteCadastroRecord(tipo: CadastroType, recordId: string)
 
     await client.deleteEntity(tipo.toUpperCase(), recordId);
 }
+
+// ============ SYNC CURSORS (stored in GuardianConfig) ============
+
+/** The mailbox, or a bound account (legacy env-configured Inter: 'ACCOUNT:INTER') */
+export type SyncSource = 'MAILBOX' | `ACCOUNT:${string}`;
+
+const SYNC_CURSOR_PREFIX = 'SYNC_CURSOR_';
+const ACCOUNT_SOURCE_PREFIX = 'ACCOUNT:';
+
+export function accountSyncSource(contaId: string): SyncSource {
+    return `${ACCOUNT_SOURCE_PREFIX}${contaId}`;
+}
+
+/**
+ * Last position synced for a source (accounts: YYYY-MM-DD, mailbox: ISO timestamp).
+ * Account cursors written before the ACCOUNT: prefix are still read until the next sync rewrites them.
+ */
+export async function getSyncCursor(source: SyncSource): Promise<string | null> {
+    const cursor = await getConfig(SYNC_CURSOR_PREFIX + source);
+    if (cursor || !source.startsWith(ACCOUNT_SOURCE_PREFIX)) return cursor;
+    return getConfig(SYNC_CURSOR_PREFIX + source.substring(ACCOUNT_SOURCE_PREFIX.length));
+}
+
+export async function setSyncCursor(source: SyncSource, value: string): Promise<void> {
+    await setConfig(SYNC_CURSOR_PREFIX + source, value);
+}
+
+// ============ OBRIGAÇÕES FISCAIS (stored in GuardianConfig) ============
+
+const OBRIGACAO_PREFIX = 'OBRIGACAO_FISCAL_';
+
+export async function getObrigacoesFiscais(): Promise<ObrigacaoFiscal[]> {
+    const config = await getAllConfig();
+    const obrigacoes: ObrigacaoFiscal[] = [];
+    for (const [key, value] of Object.entries(config)) {
+        if (!key.startsWith(OBRIGACAO_PREFIX)) continue;
+        try {
+            obrigacoes.push(JSON.parse(value) as ObrigacaoFiscal);
+        } catch {
+            logger.warn(`Obrigação fiscal corrompida ignorada: ${key}`);
+        }
+    }
+    return obrigacoes.sort((a, b) => a.diaVencimento - b.diaVencimento || a.nome.localeCompare(b.nome));
+}
+
+export async function getObrigacaoFiscal(id: string): Promise<ObrigacaoFiscal | null> {
+    const value = await getConfig(OBRIGACAO_PREFIX + id);
+    if (!value) return null;
+    try {
+        return JSON.parse(value) as ObrigacaoFiscal;
+    } catch {
+        return null;
+    }
+}
+
+export async function saveObrigacaoFiscal(obrigacao: ObrigacaoFiscal): Promise<void> {
+    await setConfig(OBRIGACAO_PREFIX + obrigacao.id, JSON.stringify(obrigacao));
+}
+
+export async function deleteObrigacaoFiscal(id: string): Promise<void> {
+    await deleteConfig(OBRIGACAO_PREFIX + id);
+}
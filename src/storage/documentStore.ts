@@ -0,0 +1,244 @@
+import { createHash } from 'crypto';
+import { promises as fs, createReadStream } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { BlobServiceClient, ContainerClient } from '@azure/storage-blob';
+import { createLogger, nowISO } from '../shared/utils';
+
+const logger = createLogger('DocumentStore');
+
+const CONTAINER = process.env.GUARDIAN_DOCS_CONTAINER || 'guardian-documents';
+
+/** Metadados de um arquivo guardado — o id é o próprio SHA-256 do conteúdo */
+export interface StoredDocument {
+    id: string;
+    sha256: string;
+    filename: string;
+    mimeType: string;
+    size: number;
+    criadoEm: string;
+}
+
+const MIME_BY_EXT: Record<string, string> = {
+    pdf: 'application/pdf',
+    xml: 'application/xml',
+    ofx: 'application/x-ofx',
+    csv: 'text/csv',
+    txt: 'text/plain',
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+};
+
+/** MIME type from the file extension (falls back to application/octet-stream) */
+export function mimeTypeFor(filename: string): string {
+    const ext = filename.split('.').pop()?.toLowerCase() || '';
+    return MIME_BY_EXT[ext] || 'application/octet-stream';
+}
+
+let containerClient: ContainerClient | null = null;
+let useLocal = false;
+
+function shouldUseLocal(): boolean {
+    if (useLocal) return true;
+    const connStr = process.env.AZURE_STORAGE_CONNECTION_STRING || '';
+    if (!connStr || connStr === 'UseDevelopmentStorage=true') {
+        useLocal = true;
+        return true;
+    }
+    return false;
+}
+
+async function getContainerClient(): Promise<ContainerClient | null> {
+    if (shouldUseLocal()) return null;
+
+    if (!containerClient) {
+        try {
+            const service = BlobServiceClient.fromConnectionString(process.env.AZURE_STORAGE_CONNECTION_STRING || '');
+            const client = service.getContainerClient(CONTAINER);
+            await client.createIfNotExists();
+            logger.info(`Container ${CONTAINER} garantido no Azure Storage`);
+            containerClient = client;
+        } catch (error) {
+            logger.warn('Falha ao conectar ao Azure Blob Storage — usando diretório local');
+            useLocal = true;
+            return null;
+        }
+    }
+    return containerClient;
+}
+
+/**
+ * Hosts the manual import may download from: the configured blob storage account plus
+ * GUARDIAN_IMPORT_ALLOWED_HOSTS (comma-separated). Any other URL could reach internal hosts.
+ */
+export function importAllowedHosts(): Set<string> {
+    const hosts = new Set((process.env.GUARDIAN_IMPORT_ALLOWED_HOSTS || '')
+        .split(',').map(h => h.trim().toLowerCase()).filter(Boolean));
+    const parts = new Map((process.env.AZURE_STORAGE_CONNECTION_STRING || '').split(';').map(p => {
+        const i = p.indexOf('=');
+        return [p.substring(0, i), p.substring(i + 1)] as [string, string];
+    }));
+    const endpoint = parts.get('BlobEndpoint');
+    const account = parts.get('AccountName');
+    if (endpoint) {
+        try {
+            hosts.add(new URL(endpoint).host.toLowerCase());
+        } catch {
+            logger.warn('BlobEndpoint inválido na connection string');
+        }
+    } else if (account) {
+        hosts.add(`${account}.blob.${parts.get('EndpointSuffix') || 'core.windows.net'}`.toLowerCase());
+    }
+    return hosts;
+}
+
+export function isAllowedImportUrl(url: string): boolean {
+    try {
+        return importAllowedHosts().has(new URL(url).host.toLowerCase());
+    } catch {
+        return false;
+    }
+}
+
+function localDir(): string {
+    return process.env.GUARDIAN_DOCS_DIR || path.join(os.tmpdir(), 'guardian-documents');
+}
+
+function isValidId(id: string): boolean {
+    return /^[a-f0-9]{64}$/.test(id);
+}
+
+/**
+ * Stores the full file bytes, content-addressed by SHA-256.
+ * Re-uploading the same file returns the existing record (first filename wins).
+ */
+export async function saveDocument(content: Buffer, filename: string, mimeType?: string): Promise<StoredDocument> {
+    const sha256 = createHash('sha256').update(content).digest('hex');
+    const existing = await getDocumentMeta(sha256);
+    if (existing) return existing;
+
+    const meta: StoredDocument = {
+        id: sha256,
+        sha256,
+        filename,
+        mimeType: mimeType || mimeTypeFor(filename),
+        size: content.length,
+        criadoEm: nowISO(),
+    };
+
+    const client = await getContainerClient();
+    if (!client) {
+        const dir = localDir();
+        await fs.mkdir(dir, { recursive: true });
+        await fs.writeFile(path.join(dir, sha256), content);
+        await fs.writeFile(path.join(dir, `${sha256}.json`), JSON.stringify(meta));
+        logger.info(`[Local] Documento salvo: ${filename} (${sha256.substring(0, 12)})`);
+        return meta;
+    }
+
+    await client.getBlockBlobClient(sha256).uploadData(content, {
+        blobHTTPHeaders: { blobContentType: meta.mimeType },
+        // Blob metadata só aceita ASCII
+        metadata: { filename: encodeURIComponent(filename), criadoem: meta.criadoEm },
+    });
+    logger.info(`Documento salvo: ${filename} (${sha256.substring(0, 12)})`);
+    return meta;
+}
+
+export async function getDocumentMeta(id: string): Promise<StoredDocument | null> {
+    if (!isValidId(id)) return null;
+
+    const client = await getContainerClient();
+    if (!client) {
+        try {
+            return JSON.parse(await fs.readFile(path.join(localDir(), `${id}.json`), 'utf8')) as StoredDocument;
+        } catch {
+            return null;
+        }
+    }
+
+    try {
+        const props = await client.getBlockBlobClient(id).getProperties();
+        return {
+            id,
+            sha256: id,
+            filename: decodeURIComponent(props.metadata?.filename || id),
+            mimeType: props.contentType || 'application/octet-stream',
+            size: props.contentLength || 0,
+            criadoEm: props.metadata?.criadoem || props.createdOn?.toISOString() || '',
+        };
+    } catch (error: unknown) {
+        if ((error as { statusCode?: number }).statusCode === 404) return null;
+        throw error;
+    }
+}
+
+/** Opens a stored document for streaming, or null when it does not exist */
+export async function openDocumentStream(id: string): Promise<{ meta: StoredDocument; stream: Readable } | null> {
+    const meta = await getDocumentMeta(id);
+    if (!meta) return null;
+
+    const client = await getContainerClient();
+    if (!client) {
+        return { meta, stream: createReadStream(path.join(localDir(), id)) };
+    }
+
+    const download = await client.getBlockBlobClient(id).download();
+    return { meta, stream: download.readableStreamBody as Readable };
+}
+
+/** Reads the full bytes of a stored document */
+export async function readDocument(id: string): Promise<Buffer | null> {
+    const opened = await openDocumentStream(id);
+    if (!opened) return null;
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of opened.stream) {
+        chunks.push(Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks);
+}
+
+// ============ DROP AREA (extratos depositados por conta) ============
+
+const DROP_CONTAINER = process.env.GUARDIAN_DROP_CONTAINER || 'guardian-drop';
+
+function localDropDir(folder: string): string {
+    return path.join(process.env.GUARDIAN_DROP_DIR || path.join(os.tmpdir(), 'guardian-drop'), folder);
+}
+
+/** Files dropped under `<folder>/` (one folder per ContaCorrente id) */
+export async function listDroppedFiles(folder: string): Promise<string[]> {
+    const safeFolder = folder.replace(/[^\w-]/g, '');
+
+    if (shouldUseLocal()) {
+        try {
+            return (await fs.readdir(localDropDir(safeFolder))).sort();
+        } catch {
+            return [];
+        }
+    }
+
+    const service = BlobServiceClient.fromConnectionString(process.env.AZURE_STORAGE_CONNECTION_STRING || '');
+    const container = service.getContainerClient(DROP_CONTAINER);
+    const names: string[] = [];
+    if (!(await container.exists())) return names;
+    for await (const blob of container.listBlobsFlat({ prefix: `${safeFolder}/` })) {
+        names.push(blob.name.substring(safeFolder.length + 1));
+    }
+    return names.sort();
+}
+
+export async function readDroppedFile(folder: string, name: string): Promise<Buffer> {
+    const safeFolder = folder.replace(/[^\w-]/g, '');
+    const safeName = path.basename(name);
+
+    if (shouldUseLocal()) {
+        return fs.readFile(path.join(localDropDir(safeFolder), safeName));
+    }
+
+    const service = BlobServiceClient.fromConnectionString(process.env.AZURE_STORAGE_CONNECTION_STRING || '');
+    return service.getContainerClient(DROP_CONTAINER).getBlockBlobClient(`${safeFolder}/${safeName}`).downloadToBuffer();
+}
@@ -0,0 +1,117 @@
+import { TableClient } from '@azure/data-tables';
+import { createLogger } from '../shared/utils';
+import { ContaPagar, ContaReceber } from '../shared/types';
+
+const logger = createLogger('FinanceTableClient');
+
+/** Títulos financeiros: compromissos futuros, independentes dos lançamentos do extrato */
+export type TituloType = 'pagar' | 'receber';
+
+type TituloRecord = ContaPagar | ContaReceber;
+
+const TITULO_TABLE_NAMES: Record<TituloType, string> = {
+    pagar: 'GuardianContasPagar',
+    receber: 'GuardianContasReceber',
+};
+
+// In-memory fallback
+const inMemoryStore: Map<string, TituloRecord[]> = new Map();
+let useInMemory = false;
+
+const tableClients: Map<string, TableClient> = new Map();
+
+function shouldUseInMemory(): boolean {
+    if (useInMemory) return true;
+    const connStr = process.env.AZURE_STORAGE_CONNECTION_STRING || '';
+    if (!connStr || connStr === 'UseDevelopmentStorage=true') {
+        useInMemory = true;
+        return true;
+    }
+    return false;
+}
+
+async function getTableClient(tableName: string): Promise<TableClient | null> {
+    if (shouldUseInMemory()) return null;
+
+    if (!tableClients.has(tableName)) {
+        try {
+            const connStr = process.env.AZURE_STORAGE_CONNECTION_STRING || '';
+            const client = TableClient.fromConnectionString(connStr, tableName);
+            await client.createTable();
+            logger.info(`Tabela ${tableName} garantida no Azure Storage`);
+            tableClients.set(tableName, client);
+        } catch {
+            logger.warn(`Falha ao conectar tabela ${tableName} — usando in-memory`);
+            useInMemory = true;
+            return null;
+        }
+    }
+    return tableClients.get(tableName)!;
+}
+
+function getInMemoryTable(tableName: string): TituloRecord[] {
+    if (!inMemoryStore.has(tableName)) {
+        inMemoryStore.set(tableName, []);
+    }
+    return inMemoryStore.get(tableName)!;
+}
+
+export async function getTitulos<T extends TituloRecord>(tipo: TituloType): Promise<T[]> {
+    const tableName = TITULO_TABLE_NAMES[tipo];
+    const client = await getTableClient(tableName);
+
+    if (!client) {
+        return getInMemoryTable(tableName) as T[];
+    }
+
+    const items: T[] = [];
+    try {
+        const entities = client.listEntities();
+        for await (const entity of entities) {
+            items.push(entity as unknown as T);
+        }
+    } catch (error) {
+        logger.error(`Erro ao listar títulos ${tipo}`, error);
+    }
+    return items;
+}
+
+export async function getTitulo<T extends TituloRecord>(tipo: TituloType, id: string): Promise<T | null> {
+    const titulos = await getTitulos<T>(tipo);
+    return titulos.find(t => t.id === id) || null;
+}
+
+export async function upsertTitulo(tipo: TituloType, record: TituloRecord): Promise<void> {
+    const tableName = TITULO_TABLE_NAMES[tipo];
+    const client = await getTableClient(tableName);
+
+    if (!client) {
+        const table = getInMemoryTable(tableName);
+        const idx = table.findIndex(r => r.id === record.id);
+        if (idx >= 0) table[idx] = record;
+        else table.push(record);
+        logger.info(`[In-Memory] Título ${tipo} salvo: ${record.id}`);
+        return;
+    }
+
+    await client.upsertEntity({
+        partitionKey: tipo.toUpperCase(),
+        rowKey: record.id,
+        ...record,
+    }, 'Replace');
+}
+
+export async function deleteTitulo(tipo: TituloType, id: string): Promise<void> {
+    const tableName = TITULO_TABLE_NAMES[tipo];
+    const client = await getTableClient(tableName);
+
+    if (!client) {
+        const table = getInMemoryTable(tableName);
+        const idx = table.findIndex(r => r.id === id);
+        if (idx >= 0) table.splice(idx, 1);
+        logger.info(`[In-Memory] Título ${tipo} removido: ${id}`);
+        return;
+    }
+
+    await client.deleteEntity(tipo.toUpperCase(), id);
+}
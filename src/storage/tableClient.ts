@@ -1,6 +1,6 @@
 import { TableClient } from '@azure/data-tables';
 import { createLogger } from '../shared/utils';
-import { GuardianAuthorization, hydrateAuth, LearningRule, hydrateLearningRule } from '../shared/types';
+import { GuardianAuthorization, hydrateAuth, LearningRule, hydrateLearningRule, SyncRun, hydrateSyncRun, ReconciliationDecision, Fechamento, FechamentoEvento, hydrateFechamento, OrcamentoVersao, hydrateOrcamentoVersao, LedgerEntry } from '../shared/types';
 
 const logger = createLogger('TableClient');
 
@@ -8,6 +8,11 @@ const TABLES = {
     GUARDIAN_AUTH: 'GuardianAuthorizations',
     GUARDIAN_LEDGER: 'GuardianLedger',
     GUARDIAN_LEARNING: 'GuardianLearning',
+    GUARDIAN_SYNC_RUNS: 'GuardianSyncRuns',
+    GUARDIAN_RECONCILIATION_LOG: 'GuardianConciliacaoLog',
+    GUARDIAN_FECHAMENTOS: 'GuardianFechamentos',
+    GUARDIAN_FECHAMENTOS_LOG: 'GuardianFechamentosLog',
+    GUARDIAN_ORCAMENTOS: 'GuardianOrcamentos',
 } as const;
 
 // In-memory fallback for local development
@@ -123,7 +128,7 @@ export async function updateGuardianAuth(id: string, updates: Partial<GuardianAu
         return;
     }
 
-    const { audit, ...storableUpdates } = updates;
+    const { audit, fiscal, conciliacao, ...storableUpdates } = updates;
     await client.updateEntity(
         { partitionKey: 'GUARDIAN', rowKey: id, ...storableUpdates },
         'Merge'
@@ -140,8 +145,8 @@ export async function createGuardianAuth(auth: GuardianAuthorization): Promise<v
         return;
     }
 
-    // Strip transient `audit` object — Table Storage only accepts primitives
-    const { audit, ...storableAuth } = auth;
+    // Strip transient `audit`/`fiscal`/`conciliacao` objects — Table Storage only accepts primitives
+    const { audit, fiscal, conciliacao, ...storableAuth } = auth;
     await client.createEntity({
         partitionKey: 'GUARDIAN',
         rowKey: auth.id,
@@ -224,3 +229,282 @@ export async function upsertLearningRule(rule: LearningRule): Promise<void> {
     });
     logger.info(`Learning rule persisted: ${rule.id} → ${rule.classificacao} (${rule.hits} hits)`);
 }
+
+// ============ SYNC RUNS ============
+
+const syncRunsInMemory: SyncRun[] = [];
+
+export async function createSyncRun(run: SyncRun): Promise<void> {
+    const client = await getTableClient(TABLES.GUARDIAN_SYNC_RUNS);
+
+    if (!client) {
+        syncRunsInMemory.push(run);
+        logger.info(`[In-Memory] Sync run registrado: ${run.id} (${run.status})`);
+        return;
+    }
+
+    const { fontes, classificacoes, ...storableRun } = run;
+    await client.createEntity({
+        partitionKey: 'SYNC',
+        rowKey: run.id,
+        ...storableRun,
+    });
+}
+
+/** Most recent sync runs first */
+export async function getSyncRuns(limit: number = 20): Promise<SyncRun[]> {
+    const client = await getTableClient(TABLES.GUARDIAN_SYNC_RUNS);
+
+    let items: SyncRun[] = [];
+    if (!client) {
+        items = syncRunsInMemory.map(r => hydrateSyncRun({ ...r }));
+    } else {
+        try {
+            const entities = client.listEntities();
+            for await (const entity of entities) {
+                items.push(hydrateSyncRun(entity as unknown as SyncRun));
+            }
+        } catch (error) {
+            logger.error('Erro ao listar sync runs', error);
+        }
+    }
+    return items.sort((a, b) => b.iniciadoEm.localeCompare(a.iniciadoEm)).slice(0, limit);
+}
+
+// ============ RECONCILIATION DECISIONS ============
+
+const reconciliationLogInMemory: ReconciliationDecision[] = [];
+
+export async function createReconciliationDecision(decision: ReconciliationDecision): Promise<void> {
+    const client = await getTableClient(TABLES.GUARDIAN_RECONCILIATION_LOG);
+
+    if (!client) {
+        reconciliationLogInMemory.push(decision);
+        logger.info(`[In-Memory] Decisão de conciliação registrada: ${decision.acao} ${decision.transacaoId}`);
+        return;
+    }
+
+    await client.createEntity({
+        partitionKey: 'CONCILIACAO',
+        rowKey: decision.id,
+        ...decision,
+    });
+}
+
+/** Most recent decisions first, optionally for a single transaction */
+export async function getReconciliationDecisions(limit: number = 50, transacaoId?: string): Promise<ReconciliationDecision[]> {
+    const client = await getTableClient(TABLES.GUARDIAN_RECONCILIATION_LOG);
+
+    let items: ReconciliationDecision[] = [];
+    if (!client) {
+        items = reconciliationLogInMemory.map(d => ({ ...d }));
+    } else {
+        try {
+            const entities = client.listEntities();
+            for await (const entity of entities) {
+                items.push(entity as unknown as ReconciliationDecision);
+            }
+        } catch (error) {
+            logger.error('Erro ao listar decisões de conciliação', error);
+        }
+    }
+    return items
+        .filter(d => !transacaoId || d.transacaoId === transacaoId)
+        .sort((a, b) => b.registradoEm.localeCompare(a.registradoEm))
+        .slice(0, limit);
+}
+
+// ============ FECHAMENTO MENSAL ============
+
+const fechamentosInMemory: Map<string, Fechamento> = new Map();
+const fechamentosLogInMemory: FechamentoEvento[] = [];
+
+export async function getFechamentos(): Promise<Fechamento[]> {
+    const client = await getTableClient(TABLES.GUARDIAN_FECHAMENTOS);
+
+    let items: Fechamento[] = [];
+    if (!client) {
+        items = Array.from(fechamentosInMemory.values()).map(f => hydrateFechamento({ ...f }));
+    } else {
+        try {
+            const entities = client.listEntities();
+            for await (const entity of entities) {
+                items.push(hydrateFechamento(entity as unknown as Fechamento));
+            }
+        } catch (error) {
+            logger.error('Erro ao listar fechamentos', error);
+        }
+    }
+    return items.sort((a, b) => b.id.localeCompare(a.id));
+}
+
+export async function upsertFechamento(fechamento: Fechamento): Promise<void> {
+    const client = await getTableClient(TABLES.GUARDIAN_FECHAMENTOS);
+    const { snapshot, checks, ...storable } = fechamento;
+
+    if (!client) {
+        fechamentosInMemory.set(fechamento.id, storable);
+        logger.info(`[In-Memory] Fechamento ${fechamento.id}: ${fechamento.status}`);
+        return;
+    }
+
+    await client.upsertEntity({
+        partitionKey: 'FECHAMENTO',
+        rowKey: fechamento.id,
+        ...storable,
+    }, 'Replace');
+}
+
+export async function createFechamentoEvento(evento: FechamentoEvento): Promise<void> {
+    const client = await getTableClient(TABLES.GUARDIAN_FECHAMENTOS_LOG);
+
+    if (!client) {
+        fechamentosLogInMemory.push(evento);
+        logger.info(`[In-Memory] Fechamento ${evento.periodo}: ${evento.acao} por ${evento.usuario}`);
+        return;
+    }
+
+    await client.createEntity({
+        partitionKey: 'FECHAMENTO',
+        rowKey: evento.id,
+        ...evento,
+    });
+}
+
+/** Most recent events first, optionally for a single period */
+export async function getFechamentoEventos(periodo?: string): Promise<FechamentoEvento[]> {
+    const client = await getTableClient(TABLES.GUARDIAN_FECHAMENTOS_LOG);
+
+    let items: FechamentoEvento[] = [];
+    if (!client) {
+        items = fechamentosLogInMemory.map(e => ({ ...e }));
+    } else {
+        try {
+            const entities = client.listEntities();
+            for await (const entity of entities) {
+                items.push(entity as unknown as FechamentoEvento);
+            }
+        } catch (error) {
+            logger.error('Erro ao listar eventos de fechamento', error);
+        }
+    }
+    return items
+        .filter(e => !periodo || e.periodo === periodo)
+        .sort((a, b) => b.registradoEm.localeCompare(a.registradoEm));
+}
+
+// ============ ORÇAMENTO (VERSÕES) ============
+
+const orcamentosInMemory: Map<string, OrcamentoVersao> = new Map();
+
+/** Budget versions, optionally for one fiscal year (newest first) */
+export async function getOrcamentoVersoes(ano?: number): Promise<OrcamentoVersao[]> {
+    const client = await getTableClient(TABLES.GUARDIAN_ORCAMENTOS);
+
+    let items: OrcamentoVersao[] = [];
+    if (!client) {
+        items = Array.from(orcamentosInMemory.values()).map(v => hydrateOrcamentoVersao({ ...v }));
+    } else {
+        try {
+            const entities = client.listEntities();
+            for await (const entity of entities) {
+                items.push(hydrateOrcamentoVersao(entity as unknown as OrcamentoVersao));
+            }
+        } catch (error) {
+            logger.error('Erro ao listar versões de orçamento', error);
+        }
+    }
+    return items
+        .filter(v => !ano || Number(v.ano) === ano)
+        .sort((a, b) => b.criadoEm.localeCompare(a.criadoEm));
+}
+
+export async function upsertOrcamentoVersao(versao: OrcamentoVersao): Promise<void> {
+    const client = await getTableClient(TABLES.GUARDIAN_ORCAMENTOS);
+    const { valores, ...storable } = versao;
+
+    if (!client) {
+        orcamentosInMemory.set(versao.id, storable);
+        logger.info(`[In-Memory] Orçamento ${versao.ano} "${versao.nome}" salvo`);
+        return;
+    }
+
+    await client.upsertEntity({
+        partitionKey: String(versao.ano),
+        rowKey: versao.id,
+        ...storable,
+    }, 'Replace');
+}
+
+// ============ RAZÃO (PARTIDAS DOBRADAS) ============
+
+const ledgerInMemory: LedgerEntry[] = [];
+
+/**
+ * Ledger entries in posting order, optionally for a single source authorization.
+ * Listing errors propagate: an empty answer would make every origin look unposted and double-book it.
+ */
+export async function getLedgerEntries(origemId?: string): Promise<LedgerEntry[]> {
+    const client = await getTableClient(TABLES.GUARDIAN_LEDGER);
+
+    let items: LedgerEntry[] = [];
+    if (!client) {
+        items = ledgerInMemory.map(e => ({ ...e }));
+    } else {
+        const entities = client.listEntities(origemId
+            ? { queryOptions: { filter: `origemId eq '${origemId.replace(/'/g, "''")}'` } }
+            : undefined);
+        for await (const entity of entities) {
+            items.push(entity as unknown as LedgerEntry);
+        }
+    }
+    return items
+        .filter(e => !origemId || e.origemId === origemId)
+        .sort((a, b) => a.registradoEm.localeCompare(b.registradoEm) || a.id.localeCompare(b.id));
+}
+
+/** Append-only: entries are never updated, corrections are posted as reversals */
+export async function createLedgerEntries(entries: LedgerEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+    const client = await getTableClient(TABLES.GUARDIAN_LEDGER);
+
+    if (!client) {
+        ledgerInMemory.push(...entries);
+        logger.info(`[In-Memory] Razão: ${entries.length} lançamento(s) de ${entries[0].origemId}`);
+        return;
+    }
+
+    for (const entry of entries) {
+        await client.createEntity({
+            partitionKey: entry.dataCompetencia.substring(0, 7),
+            rowKey: entry.id,
+            ...entry,
+        });
+    }
+}
+
+export async function clearLedger(): Promise<number> {
+    const client = await getTableClient(TABLES.GUARDIAN_LEDGER);
+
+    if (!client) {
+        const count = ledgerInMemory.length;
+        ledgerInMemory.length = 0;
+        logger.info(`[In-Memory] ${count} lançamentos do razão removidos`);
+        return count;
+    }
+
+    let count = 0;
+    try {
+        const entities = client.listEntities({
+            queryOptions: { select: ['partitionKey', 'rowKey'] },
+        });
+        for await (const entity of entities) {
+            await client.deleteEntity(entity.partitionKey as string, entity.rowKey as string);
+            count++;
+        }
+        logger.info(`${count} lançamentos do razão removidos da tabela Azure`);
+    } catch (error) {
+        logger.error('Erro ao limpar razão', error);
+    }
+    return count;
+}
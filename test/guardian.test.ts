@@ -1,11 +1,67 @@
-import { describe, it, expect } from 'vitest';
-import { generateId, safeErrorMessage, isValidUrl, nowISO } from '../src/shared/utils';
-import { toGuardianAuth, hydrateAuth, VALID_DOC_TYPES } from '../src/shared/types';
+import { describe, it, expect, beforeAll, beforeEach } from 'vitest';
+import { generateId, safeErrorMessage, isValidUrl, nowISO, clientPrincipalName, clientPrincipal } from '../src/shared/utils';
+import { toGuardianAuth, hydrateAuth, VALID_DOC_TYPES, GuardianAuthorization } from '../src/shared/types';
 import { GuardianAgents, AnalysisResult } from '../src/guardian/guardianAgents';
 import { InterConnector } from '../src/guardian/interConnector';
 import { EmailListener } from '../src/guardian/emailListener';
+import { parseOFX, decodeOFX, isOFX } from '../src/guardian/ofxParser';
+import { CsvParseResult, parseCsvStatement, validateCsvProfile } from '../src/guardian/csvStatementParser';
+import { CsvMappingProfile } from '../src/shared/types';
+import { saveCsvProfile, getCsvProfile, getCsvProfiles } from '../src/storage/areaTableClient';
+import { parseFiscalXml, detectFiscalLayout } from '../src/guardian/fiscalXmlParser';
+import { saveDocument, getDocumentMeta, readDocument, isAllowedImportUrl } from '../src/storage/documentStore';
+import { processTransactions } from '../src/guardian/transactionPipeline';
+import { assignFingerprints } from '../src/guardian/transactionFingerprint';
+import { getAllAuthorizations, updateGuardianAuth, getSyncRuns, createGuardianAuth, getReconciliationDecisions } from '../src/storage/tableClient';
+import { runSync } from '../src/guardian/syncRunner';
+import { setConfig, getSyncCursor, accountSyncSource } from '../src/storage/areaTableClient';
+import { validateConector } from '../src/guardian/bankConnector';
 import { OperacoesProject, MarketingCampaign, ComercialDeal } from '../src/shared/areas';
 import { getAreaRecords, createAreaRecord, updateAreaRecord, deleteAreaRecord } from '../src/storage/areaTableClient';
+import { createCadastroRecord, deleteCadastroRecord, updateCadastroRecord } from '../src/storage/areaTableClient';
+import { FileDropConnector } from '../src/guardian/fileDropConnector';
+import { importStatement, isImportError, StatementImportResult } from '../src/guardian/statementImport';
+import { computeAccountBalances } from '../src/guardian/accountBalances';
+import { parseCardInvoiceText, cardPurchases } from '../src/guardian/cardInvoice';
+import { createTransferLeg, CARD_PAYMENT_CATEGORY } from '../src/guardian/internalTransfers';
+import { buildAging, effectiveStatus, matchPayables, reopenPayablesSettledBy } from '../src/guardian/payables';
+import { validateSplit, applySplit, cancelSplit, reportingItems } from '../src/guardian/splitTransactions';
+import { parseReportPeriod, statementItems, paidAfter, balanceMovements, ReportPeriod, monthRange, previousPeriodo } from '../src/guardian/reportPeriod';
+import { runPreCloseChecks, blockingChecks, lockedPeriodError, closePeriod, reopenPeriod, getClosedPeriods } from '../src/guardian/monthlyClose';
+import { getFechamentos, getFechamentoEventos, getOrcamentoVersoes, getLedgerEntries } from '../src/storage/tableClient';
+import { journalFor, diffPostings, liveEntries, trialBalance, accountStatement, chartOfAccounts, postAuthorizationLedger, LedgerContext } from '../src/guardian/ledger';
+import { reconcileTransactions } from '../src/guardian/reconciliationEngine';
+import { buildWorkbench, confirmMatch, undoMatch, openDocuments } from '../src/guardian/reconciliationWorkbench';
+import { FiscalDocumentInfo } from '../src/guardian/fiscalXmlParser';
+import { getTitulos, upsertTitulo } from '../src/storage/financeTableClient';
+import { scheduleFromDeal, syncDealReceivables, matchReceivables, reopenReceivablesSettledBy } from '../src/guardian/receivables';
+import { ContaPagar, ContaReceber } from '../src/shared/types';
+import { ContaCorrente, Categoria } from '../src/shared/areas';
+import { mkdtempSync, mkdirSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { buildBudgetMonth, monthsBetween } from '../src/guardian/budgetReport';
+import { parseTaxConfig, simplesRate, rbt12, revenueDeductions, incomeTaxes, periodMonths, validateTaxConfigEntry } from '../src/guardian/taxRegime';
+import { estimateDAS, dasDueDate, syncDASPayables, DAS_CATEGORIA } from '../src/guardian/dasEstimator';
+import { buildCatLookup, buildDRE } from '../src/functions/guardianReports';
+import { taxDueByMonth, obligationDueDate, calculateObligation, validateObrigacao, generateObligationPayables, TaxCalendarContext } from '../src/guardian/taxCalendar';
+import { saveObrigacaoFiscal } from '../src/storage/areaTableClient';
+import { ObrigacaoFiscal } from '../src/shared/types';
+import { monthlyBudgets, createVersion, copyFromPriorYear, activateVersion, activeVersionsByYear, mergeValores, validateValores } from '../src/guardian/budgetPlanning';
+
+/** Active category with a monthly budget (stable id, so saving it twice overwrites) */
+function budgetCategory(nome: string, tipo: Categoria['tipo'], grupo: Categoria['grupo'], orcamentoMensal: number): Categoria {
+    return { id: `CAT_TEST_${nome.replace(/\W/g, '_')}`, nome, tipo, grupo, orcamentoMensal, ativa: true, criadoEm: nowISO() };
+}
+
+/** Approved October transaction; each test overrides only the fields it exercises */
+function authorization(over: Partial<GuardianAuthorization> = {}): GuardianAuthorization {
+    return {
+        id: generateId('TEST_TX'), tipo: 'transaction', classificacao: 'Aluguel', valor: 100, confianca: 1, match: '',
+        status: 'aprovado', criadoEm: nowISO(), sugestao: 'approve', data: '2026-10-05', dataCompetencia: '2026-10-01',
+        ...over,
+    };
+}
 
 describe('Utils', () => {
     it('generateId produces unique, non-empty IDs with correct prefix', () => {
@@ -32,6 +88,14 @@ describe('Utils', () => {
         expect(safeErrorMessage(null)).toBe('Erro desconhecido');
     });
 
+    it('clientPrincipalName reads the Static Web Apps principal header', () => {
+        const header = Buffer.from(JSON.stringify({ userDetails: 'ana@wfinance.com.br', userRoles: ['authenticated'] })).toString('base64');
+        expect(clientPrincipalName(header)).toBe('ana@wfinance.com.br');
+        expect(clientPrincipalName(null)).toBe('anonimo');
+        expect(clientPrincipalName('%%%')).toBe('anonimo');
+        expect(clientPrincipal(header).roles).toEqual(['authenticated']);
+    });
+
     it('isValidUrl validates URLs correctly', () => {
         expect(isValidUrl('https://example.com/file.pdf')).toBe(true);
         expect(isValidUrl('http://example.com')).toBe(true);
@@ -93,16 +157,412 @@ describe('InterConnector', () => {
     });
 });
 
+describe('OFX Parser', () => {
+    const sgml = [
+        'OFXHEADER:100',
+        'DATA:OFXSGML',
+        'VERSION:102',
+        'ENCODING:USASCII',
+        'CHARSET:1252',
+        '',
+        '<OFX>',
+        '<BANKMSGSRSV1><STMTTRNRS><STMTRS>',
+        '<CURDEF>BRL',
+        '<BANKACCTFROM><BANKID>0341<ACCTID>12345-6</BANKACCTFROM>',
+        '<BANKTRANLIST>',
+        '<DTSTART>20260101000000[-3:BRT]',
+        '<DTEND>20260131000000[-3:BRT]',
+        '<STMTTRN>',
+        '<TRNTYPE>DEBIT',
+        '<DTPOSTED>20260105120000[-3:BRT]',
+        '<TRNAMT>-150,75',
+        '<FITID>20260105001',
+        '<MEMO>PAGTO BOLETO ENERGIA',
+        '</STMTTRN>',
+        '<STMTTRN>',
+        '<TRNTYPE>CREDIT',
+        '<DTPOSTED>20260110',
+        '<TRNAMT>5000.00',
+        '<FITID>20260110002',
+        '<NAME>CLIENTE XPTO',
+        '<MEMO>TED RECEBIDA',
+        '</STMTTRN>',
+        '</BANKTRANLIST>',
+        '<LEDGERBAL><BALAMT>10234.50<DTASOF>20260131</LEDGERBAL>',
+        '</STMTRS></STMTTRNRS></BANKMSGSRSV1>',
+        '</OFX>',
+    ].join('\r\n');
+
+    it('parses OFX 1.x SGML with unclosed elements', () => {
+        const st = parseOFX(sgml);
+        expect(st.bankId).toBe('0341');
+        expect(st.accountId).toBe('12345-6');
+        expect(st.startDate).toBe('2026-01-01');
+        expect(st.balance).toEqual({ valor: 10234.5, data: '2026-01-31' });
+        expect(st.transactions).toHaveLength(2);
+
+        const [debit, credit] = st.transactions;
+        expect(debit.tipo).toBe('DEBITO');
+        expect(debit.valor).toBe(150.75);
+        expect(debit.data).toBe('2026-01-05');
+        expect(debit.descricao).toBe('PAGTO BOLETO ENERGIA');
+        expect(debit.idExterno).toBe('20260105001');
+        expect(credit.tipo).toBe('CREDITO');
+        expect(credit.descricao).toBe('CLIENTE XPTO - TED RECEBIDA');
+    });
+
+    it('parses OFX 2.x XML with entities', () => {
+        const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<?OFX OFXHEADER="200" VERSION="220"?>
+<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><BANKTRANLIST>
+<STMTTRN><TRNTYPE>DEBIT</TRNTYPE><DTPOSTED>20260203</DTPOSTED><TRNAMT>-89.90</TRNAMT><FITID>A1</FITID><NAME>AWS &amp; CO</NAME></STMTTRN>
+</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>`;
+        expect(isOFX(xml)).toBe(true);
+        const st = parseOFX(xml);
+        expect(st.transactions).toHaveLength(1);
+        expect(st.transactions[0].descricao).toBe('AWS & CO');
+        expect(st.transactions[0].valor).toBe(89.9);
+        expect(st.transactions[0].tipo).toBe('DEBITO');
+    });
+
+    it('decodes CHARSET:1252 files as latin1', () => {
+        const raw = Buffer.from('OFXHEADER:100\r\nCHARSET:1252\r\n<OFX><STMTTRN><DTPOSTED>20260101<TRNAMT>-1<MEMO>TARIFA MANUTENÇÃO</STMTTRN></OFX>', 'latin1');
+        const st = parseOFX(decodeOFX(raw));
+        expect(st.transactions[0].descricao).toBe('TARIFA MANUTENÇÃO');
+    });
+
+    it('OFX transactions flow through classification', async () => {
+        const agents = new GuardianAgents();
+        const [debit] = parseOFX(sgml).transactions;
+        const result = await agents.classifyTransaction(debit);
+        expect(result.classification).toBe('Utilidades');
+        expect(result.value).toBe(150.75);
+    });
+
+    it('FileDropConnector reads OFX files dropped in the account folder', async () => {
+        process.env.GUARDIAN_DROP_DIR = mkdtempSync(join(tmpdir(), 'guardian-drop-'));
+        mkdirSync(join(process.env.GUARDIAN_DROP_DIR, 'CC_POUP'));
+        writeFileSync(join(process.env.GUARDIAN_DROP_DIR, 'CC_POUP', 'jan.ofx'), sgml, 'latin1');
+
+        const connector = new FileDropConnector('CC_POUP');
+        expect((await connector.getBalance()).total).toBe(10234.5);
+        expect(await connector.syncStatement('2026-01-06', '2026-01-31')).toHaveLength(1);
+        expect(await new FileDropConnector('CC_VAZIA').syncStatement('2026-01-01', '2026-12-31')).toEqual([]);
+    });
+
+    it('upload and import share one statement import path', async () => {
+        const base = { bytes: Buffer.from(sgml, 'latin1'), nome: 'jan.ofx', origem: 'upload', documentId: 'DOC_STMT', isCard: false };
+        const ofx = await importStatement(new GuardianAgents(), { ...base, docType: 'ofx', contaId: 'CC_STMT_IMPORT' });
+        expect(isImportError(ofx)).toBe(false);
+        expect((ofx as StatementImportResult).results).toHaveLength(2);
+
+        expect(await importStatement(new GuardianAgents(), { ...base, docType: 'ofx', bytes: Buffer.from('nada') })).toEqual({ status: 400, error: 'Arquivo OFX inválido.' });
+        expect(await importStatement(new GuardianAgents(), { ...base, docType: 'csv' })).toMatchObject({ status: 400 });
+        expect(await importStatement(new GuardianAgents(), { ...base, docType: 'csv', profileId: 'NAO_EXISTE' })).toMatchObject({ status: 404 });
+    });
+
+    it('overlapping OFX files store each FITID once', async () => {
+        process.env.GUARDIAN_DROP_DIR = mkdtempSync(join(tmpdir(), 'guardian-drop-'));
+        mkdirSync(join(process.env.GUARDIAN_DROP_DIR, 'CC_OVERLAP'));
+        writeFileSync(join(process.env.GUARDIAN_DROP_DIR, 'CC_OVERLAP', 'jan.ofx'), sgml, 'latin1');
+        writeFileSync(join(process.env.GUARDIAN_DROP_DIR, 'CC_OVERLAP', 'jan-revisado.ofx'), sgml, 'latin1');
+
+        const txs = await new FileDropConnector('CC_OVERLAP').syncStatement('2026-01-01', '2026-01-31');
+        expect(txs.map(t => t.idExterno)).toEqual(['20260105001', '20260110002']);
+
+        // Mesmo que a fonte repita o FITID, o fingerprint não ganha sufixo e a linha é gravada uma vez
+        const scoped = [...txs, ...txs].map(t => ({ ...t, contaId: 'CC_OVERLAP' }));
+        expect(new Set(assignFingerprints(scoped).map(t => t.id)).size).toBe(2);
+        const result = await processTransactions(new GuardianAgents(), scoped);
+        expect(result.summary.new).toBe(2);
+        const ids = (await getAllAuthorizations()).filter(a => a.contaId === 'CC_OVERLAP').map(a => a.id);
+        expect(ids).toHaveLength(2);
+    });
+});
+
+describe('CSV Statement Import', () => {
+    const itau: CsvMappingProfile = {
+        id: 'itau',
+        nome: 'Itau PJ',
+        delimitador: ';',
+        separadorDecimal: ',',
+        formatoData: 'DD/MM/YYYY',
+        linhasIgnorar: 2,
+        possuiCabecalho: true,
+        colunaData: 'Data',
+        colunaDescricao: 'Lançamento',
+        colunaValor: 'Valor (R$)',
+        criadoEm: '2026-01-01T00:00:00Z',
+    };
+
+    it('parses rows with header mapping, skipping preamble and footer lines', () => {
+        const csv = [
+            'Extrato Conta Corrente',
+            'Agencia 0001 Conta 12345-6',
+            'Data;Lançamento;Valor (R$)',
+            '05/01/2026;PIX ENVIADO FORNECEDOR;-1.234,56',
+            '06/01/2026;"TED RECEBIDA; CLIENTE A";10.000,00',
+            ';SALDO DO DIA;8.765,44',
+        ].join('\n');
+
+        const { transactions, skipped } = parseCsvStatement(csv, itau) as CsvParseResult;
+        expect(transactions).toHaveLength(2);
+        expect(skipped).toBe(1);
+        expect(transactions[0]).toMatchObject({ data: '2026-01-05', tipo: 'DEBITO', valor: 1234.56, descricao: 'PIX ENVIADO FORNECEDOR' });
+        expect(transactions[1]).toMatchObject({ data: '2026-01-06', tipo: 'CREDITO', valor: 10000, descricao: 'TED RECEBIDA; CLIENTE A' });
+    });
+
+    it('uses the direction column and index-based columns when configured', () => {
+        const profile: CsvMappingProfile = {
+            ...itau,
+            id: 'bradesco',
+            delimitador: ',',
+            separadorDecimal: '.',
+            formatoData: 'YYYY-MM-DD',
+            linhasIgnorar: 0,
+            possuiCabecalho: false,
+            colunaData: 0,
+            colunaDescricao: 1,
+            colunaValor: 2,
+            colunaDirecao: 3,
+        };
+        const { transactions } = parseCsvStatement('2026-02-01,TARIFA,12.90,D\n2026-02-02,DEPOSITO,500.00,C', profile) as CsvParseResult;
+        expect(transactions.map(t => t.tipo)).toEqual(['DEBITO', 'CREDITO']);
+        expect(transactions[0].valor).toBe(12.9);
+        // Coluna mapeada ausente no arquivo: mensagem de erro em vez de exceção
+        expect(parseCsvStatement('Extrato\nAgencia 0001\nData;Historico;Total\n05/01/2026;TARIFA;-12,90', itau)).toMatch(/coluna de data, descrição ou valor/);
+    });
+
+    it('validates profiles and persists them in config', async () => {
+        expect(validateCsvProfile({ ...itau, formatoData: 'DD/YYYY' })).toMatch(/formatoData/);
+        expect(validateCsvProfile(itau)).toBeNull();
+
+        await saveCsvProfile(itau);
+        expect((await getCsvProfile('itau'))?.colunaValor).toBe('Valor (R$)');
+        expect((await getCsvProfiles()).map(p => p.id)).toContain('itau');
+    });
+});
+
+describe('Card Invoice', () => {
+    const invoice = [
+        'FATURA CARTAO EMPRESARIAL',
+        'Vencimento: 10/01/2027',
+        'Total da fatura: R$ 1.553,10',
+        '05/12 PAGAMENTO EFETUADO -980,00',
+        '18/12 NOTION LABS 96,00',
+        '20/12 LATAM AIR 03/10 412,30',
+        '02/01 GOOGLE ADS 1.100,00',
+        '03/01 ESTORNO GOOGLE ADS 55,20-',
+    ].join('\n');
+
+    it('itemizes purchases and drops the payment line', () => {
+        const fatura = parseCardInvoiceText(invoice);
+        expect(fatura.vencimento).toBe('2027-01-10');
+        expect(fatura.total).toBe(1553.10);
+        expect(fatura.transactions.map(t => t.descricao)).toEqual(['NOTION LABS', 'LATAM AIR 03/10', 'GOOGLE ADS', 'ESTORNO GOOGLE ADS']);
+        // December purchases belong to the year before the January due date
+        expect(fatura.transactions[0]).toMatchObject({ data: '2026-12-18', tipo: 'DEBITO', valor: 96 });
+        // Installment 3/10 is charged two months after the purchase
+        expect(fatura.transactions[1].data).toBe('2027-02-20');
+        expect(fatura.transactions[3]).toMatchObject({ tipo: 'CREDITO', valor: 55.2 });
+    });
+
+    it('cardPurchases keeps estornos but not invoice payments', () => {
+        const txs = cardPurchases([
+            { id: '1', data: '2026-12-05', tipo: 'CREDITO', valor: 980, descricao: 'Pagamento recebido' },
+            { id: '2', data: '2026-12-06', tipo: 'CREDITO', valor: 10, descricao: 'Estorno loja' },
+        ]);
+        expect(txs.map(t => t.id)).toEqual(['2']);
+    });
+
+    it('purchases are booked on the card by competencia and the payment settles it', async () => {
+        const agents = new GuardianAgents();
+        const fatura = parseCardInvoiceText(invoice);
+        await processTransactions(agents, fatura.transactions, { contaId: 'CC_CARTAO', vencimento: fatura.vencimento });
+
+        const compras = (await getAllAuthorizations()).filter(a => a.contaId === 'CC_CARTAO');
+        const notion = compras.find(a => a.descricao === 'NOTION LABS');
+        expect(notion).toMatchObject({ classificacao: 'Licencas e Ferramentas', dataCompetencia: '2026-12-01', dataPagamento: '2027-01-10' });
+
+        const cartao: ContaCorrente = {
+            id: 'CC_CARTAO', nome: 'Cartao PJ', banco: 'Inter', tipo: 'cartao', saldoInicial: 0, ativa: true, criadoEm: nowISO(),
+        };
+        expect(computeAccountBalances([cartao], compras)[0].saldoAtual).toBe(-1553.1);
+
+        const pagamento = {
+            ...compras[0], id: 'CLASS_TX_PAGTO_FATURA', contaId: 'CC_BANCO', direcao: 'DEBITO' as const,
+            classificacao: CARD_PAYMENT_CATEGORY, valor: 1553.1, descricao: 'PAGAMENTO FATURA CARTAO',
+        };
+        const leg = await createTransferLeg(pagamento, cartao, CARD_PAYMENT_CATEGORY);
+        expect(leg).toMatchObject({ contaId: 'CC_CARTAO', direcao: 'CREDITO', status: 'aprovado', transferenciaOrigem: pagamento.id });
+        expect(computeAccountBalances([cartao], [...compras, leg])[0].saldoAtual).toBe(0);
+    });
+});
+
+describe('Fiscal XML Parser', () => {
+    it('parses NF-e 4.00 with federal withholdings', () => {
+        const xml = `<?xml version="1.0"?><nfeProc xmlns="http://www.portalfiscal.inf.br/nfe"><NFe><infNFe Id="NFe123" versao="4.00">
+            <ide><nNF>4521</nNF><dhEmi>2026-03-10T09:00:00-03:00</dhEmi></ide>
+            <emit><CNPJ>11222333000181</CNPJ><xNome>TECH SUPRIMENTOS LTDA</xNome></emit>
+            <dest><CNPJ>44555666000199</CNPJ><xNome>WFINANCE</xNome></dest>
+            <total><ICMSTot><vProd>1000.00</vProd><vNF>1000.00</vNF></ICMSTot>
+            <retTrib><vRetPIS>6.50</vRetPIS><vRetCOFINS>30.00</vRetCOFINS><vRetCSLL>10.00</vRetCSLL><vIRRF>15.00</vIRRF></retTrib></total>
+        </infNFe></NFe></nfeProc>`;
+
+        const info = parseFiscalXml(xml)!;
+        expect(info).toMatchObject({ layout: 'nfe', numero: '4521', dataEmissao: '2026-03-10', emitenteCnpj: '11222333000181', valorBruto: 1000 });
+        expect(info.totalRetido).toBe(61.5);
+        expect(info.valorLiquido).toBe(938.5);
+    });
+
+    it('parses NFS-e ABRASF with retained ISS and declared net value', () => {
+        const xml = `<CompNfse><Nfse><InfNfse><Numero>88</Numero><DataEmissao>2026-04-02T10:00:00</DataEmissao>
+            <Servico><Valores><ValorServicos>5000.00</ValorServicos><ValorIr>75.00</ValorIr><ValorPis>32.50</ValorPis>
+            <ValorCofins>150.00</ValorCofins><ValorCsll>50.00</ValorCsll><IssRetido>1</IssRetido><ValorIss>100.00</ValorIss>
+            <ValorLiquidoNfse>4592.50</ValorLiquidoNfse></Valores></Servico>
+            <PrestadorServico><IdentificacaoPrestador><Cnpj>12.345.678/0001-90</Cnpj></IdentificacaoPrestador><RazaoSocial>CONSULTORIA ABC</RazaoSocial></PrestadorServico>
+            <TomadorServico><IdentificacaoTomador><CpfCnpj><Cnpj>44555666000199</Cnpj></CpfCnpj></IdentificacaoTomador><RazaoSocial>WFINANCE</RazaoSocial></TomadorServico>
+        </InfNfse></Nfse></CompNfse>`;
+
+        const info = parseFiscalXml(xml)!;
+        expect(info.layout).toBe('nfse_abrasf');
+        expect(info.emitenteCnpj).toBe('12345678000190');
+        expect(info.retencoes).toEqual({ iss: 100, irrf: 75, pis: 32.5, cofins: 150, csll: 50, inss: 0 });
+        expect(info.valorLiquido).toBe(4592.5);
+    });
+
+    it('parses NFS-e Padrão Nacional and ignores non-retained ISS', () => {
+        const xml = `<NFSe xmlns="http://www.sped.fazenda.gov.br/nfse"><infNFSe Id="NFS1"><nNFSe>17</nNFSe><dhProc>2026-05-05T12:00:00-03:00</dhProc>
+            <emit><CNPJ>12345678000190</CNPJ><xNome>DEV SERVICOS</xNome></emit>
+            <valores><vISSQN>40.00</vISSQN><vLiq>1885.00</vLiq></valores>
+            <DPS><infDPS Id="DPS1"><dhEmi>2026-05-04T08:00:00-03:00</dhEmi><toma><CNPJ>44555666000199</CNPJ><xNome>WFINANCE</xNome></toma>
+            <valores><vServPrest><vServ>2000.00</vServ></vServPrest><trib><tribMun><tpRetISSQN>1</tpRetISSQN></tribMun>
+            <tribFed><vRetIRRF>30.00</vRetIRRF><vRetCSLL>20.00</vRetCSLL><piscofins><vPis>13.00</vPis><vCofins>52.00</vCofins><tpRetPisCofins>1</tpRetPisCofins></piscofins></tribFed></trib></valores>
+            </infDPS></DPS></infNFSe></NFSe>`;
+
+        const info = parseFiscalXml(xml)!;
+        expect(info).toMatchObject({ layout: 'nfse_nacional', numero: '17', dataEmissao: '2026-05-04', tomadorCnpj: '44555666000199' });
+        expect(info.retencoes.iss).toBe(0);
+        expect(info.totalRetido).toBe(115);
+        expect(info.valorLiquido).toBe(1885);
+    });
+
+    it('extractData reads XML content natively and keeps net value and withholdings', async () => {
+        const xml = `<CompNfse><Nfse><InfNfse><Numero>9</Numero><DataEmissao>2026-06-01</DataEmissao>
+            <Servico><Valores><ValorServicos>1000.00</ValorServicos><ValorIr>15.00</ValorIr><IssRetido>2</IssRetido></Valores></Servico>
+            <PrestadorServico><IdentificacaoPrestador><Cnpj>12345678000190</Cnpj></IdentificacaoPrestador><RazaoSocial>CONSULTORIA ABC</RazaoSocial></PrestadorServico>
+        </InfNfse></Nfse></CompNfse>`;
+        expect(detectFiscalLayout('<html></html>')).toBeNull();
+
+        const results = await new GuardianAgents().extractData({
+            id: 'UPL_nfse',
+            name: 'nfse.xml',
+            type: 'xml',
+            source: 'manual_import',
+            contentUrl: 'data:application/xml;base64,...',
+            size: xml.length,
+            uploadedAt: nowISO(),
+            content: Buffer.from(xml),
+        });
+        expect(results).toHaveLength(1);
+        expect(results[0]).toMatchObject({ type: 'document', classification: 'Nota Fiscal Servico', value: 985, date: '2026-06-01' });
+        expect(results[0].fiscal?.retencoes.irrf).toBe(15);
+
+        const auth = hydrateAuth(toGuardianAuth(results[0], nowISO(), 'upload'));
+        expect(auth.descricao).toContain('NFS-e 9');
+        expect(auth.fiscal?.valorBruto).toBe(1000);
+    });
+});
+
+describe('Document Store', () => {
+    it('stores full bytes content-addressed by SHA-256 and reads them back', async () => {
+        const bytes = Buffer.from('%PDF-1.4 fatura completa');
+        const first = await saveDocument(bytes, 'fatura março.pdf');
+        const again = await saveDocument(bytes, 'copia.pdf');
+
+        expect(first.id).toMatch(/^[a-f0-9]{64}$/);
+        expect(again).toEqual(first);
+        expect(first).toMatchObject({ filename: 'fatura março.pdf', mimeType: 'application/pdf', size: bytes.length });
+        expect((await readDocument(first.id))?.equals(bytes)).toBe(true);
+        expect(await getDocumentMeta('../../etc/passwd')).toBeNull();
+    });
+
+    it('imports only download from the storage account or the configured hosts', () => {
+        const { AZURE_STORAGE_CONNECTION_STRING: connStr, GUARDIAN_IMPORT_ALLOWED_HOSTS: extra } = process.env;
+        try {
+            process.env.AZURE_STORAGE_CONNECTION_STRING = 'DefaultEndpointsProtocol=https;AccountName=wfdocs;AccountKey=abc==;EndpointSuffix=core.windows.net';
+            process.env.GUARDIAN_IMPORT_ALLOWED_HOSTS = 'files.example.com';
+            expect(isAllowedImportUrl('https://wfdocs.blob.core.windows.net/in/extrato.ofx?sv=1')).toBe(true);
+            expect(isAllowedImportUrl('https://files.example.com/nf.xml')).toBe(true);
+            expect(isAllowedImportUrl('http://169.254.169.254/metadata')).toBe(false);
+            expect(isAllowedImportUrl('http://localhost:7071/api/guardianConfig')).toBe(false);
+        } finally {
+            if (connStr === undefined) delete process.env.AZURE_STORAGE_CONNECTION_STRING;
+            else process.env.AZURE_STORAGE_CONNECTION_STRING = connStr;
+            if (extra === undefined) delete process.env.GUARDIAN_IMPORT_ALLOWED_HOSTS;
+            else process.env.GUARDIAN_IMPORT_ALLOWED_HOSTS = extra;
+        }
+    });
+
+    it('extracted results keep a reference to their stored document', async () => {
+        const stored = await saveDocument(Buffer.from('<xml/>'), 'sem_layout.xml');
+        const results = await new GuardianAgents().extractData({
+            id: 'UPL_ref',
+            name: 'sem_layout.xml',
+            type: 'xml',
+            source: 'manual_import',
+            contentUrl: `/api/guardianDocuments/${stored.id}`,
+            size: 6,
+            uploadedAt: nowISO(),
+            content: Buffer.from('<xml/>'),
+            documentId: stored.id,
+        });
+        expect(toGuardianAuth(results[0], nowISO(), 'upload').documentoId).toBe(stored.id);
+    });
+});
+
 describe('EmailListener', () => {
     it('processIncomingEmails returns empty when not configured', async () => {
         const listener = new EmailListener();
         const docs = await listener.processIncomingEmails();
         expect(docs).toEqual([]);
     });
+
+    it('email attachments are read from the document store and keep email metadata', async () => {
+        const xml = `<CompNfse><Nfse><InfNfse><Numero>31</Numero><DataEmissao>2026-07-01</DataEmissao>
+            <Servico><Valores><ValorServicos>300.00</ValorServicos></Valores></Servico>
+            <PrestadorServico><IdentificacaoPrestador><Cnpj>12345678000190</Cnpj></IdentificacaoPrestador></PrestadorServico>
+        </InfNfse></Nfse></CompNfse>`;
+        const stored = await saveDocument(Buffer.from(xml), 'nfse_31.xml', 'application/xml');
+
+        const results = await new GuardianAgents().extractData({
+            id: 'MSG_test',
+            source: 'financeiro@wfinancegestao.com.br',
+            sender: 'faturamento@fornecedor.com.br',
+            receivedAt: '2026-07-02T13:00:00Z',
+            subject: 'NFS-e 31 - julho',
+            attachments: [{ name: 'nfse_31.xml', type: 'application/xml', blobUrl: `/api/guardianDocuments/${stored.id}`, size: stored.size, documentId: stored.id }],
+        });
+
+        expect(results[0].value).toBe(300);
+        const auth = toGuardianAuth(results[0], nowISO(), 'email');
+        expect(auth).toMatchObject({
+            documentoId: stored.id,
+            emailRemetente: 'faturamento@fornecedor.com.br',
+            emailAssunto: 'NFS-e 31 - julho',
+            emailRecebidoEm: '2026-07-02T13:00:00Z',
+        });
+    });
 });
 
 describe('GuardianAgents', () => {
-    const agents = new GuardianAgents();
+    // Auditor keeps the month-to-date spend in memory: each test starts from a fresh one
+    let agents: GuardianAgents;
+    beforeEach(() => { agents = new GuardianAgents(); });
+
+    beforeAll(async () => {
+        await updateCadastroRecord('categorias', budgetCategory('Infraestrutura Cloud', 'CUSTO_VARIAVEL', 'Infraestrutura Variavel', 500));
+    });
 
     it('extractData from imported doc returns pending OCR when AI not configured', async () => {
         const imported = {
@@ -191,6 +651,36 @@ describe('GuardianAgents', () => {
         expect(result.audit!.withinBudget).toBe(true);
     });
 
+    it('audit accumulates the month-to-date spend of the category', async () => {
+        await updateCadastroRecord('categorias', budgetCategory('Marketing Digital', 'CUSTO_VARIAVEL', 'Marketing Performance', 2000));
+        await createGuardianAuth({
+            id: 'AUD_MKT_STORED', tipo: 'transaction', classificacao: 'Marketing Digital', valor: 1000, confianca: 1, match: '',
+            status: 'pendente', criadoEm: nowISO(), sugestao: 'approve', data: '2026-05-03', dataCompetencia: '2026-05-01',
+        });
+        const auditor = new GuardianAgents();
+        const charge = (i: number, date: string): AnalysisResult => ({
+            id: `AUD_MKT_${i}`, type: 'transaction', classification: 'Marketing Digital', confidence: 0.95, value: 400,
+            needsReview: false, suggestedAction: 'approve', date,
+        });
+
+        const alerts: string[] = [];
+        for (let i = 0; i < 4; i++) {
+            const res = charge(i, '2026-05-10');
+            await auditor.audit(res);
+            alerts.push(res.audit!.alert);
+        }
+        // 1000 já lançados + 400 a cada cobrança: 70%, 90%, 110%, 130% — alerta em 80%, crítico acima de 100%
+        expect(alerts).toEqual(['none', 'warning', 'critical', 'critical']);
+
+        const last = charge(3, '2026-05-10');
+        await auditor.audit(last); // re-auditar o mesmo item não soma de novo
+        expect(last.audit).toMatchObject({ period: '2026-05', accumulated: 2600, usagePct: 130, variation: 600, warningPct: 80 });
+
+        const otherMonth = charge(9, '2026-06-02');
+        await auditor.audit(otherMonth);
+        expect(otherMonth.audit).toMatchObject({ alert: 'none', accumulated: 400 });
+    });
+
     it('reconcile matches transactions to documents by value', async () => {
         const txs: AnalysisResult[] = [{
             id: 'TX_R1', type: 'transaction', classification: 'Despesas',
@@ -203,7 +693,9 @@ describe('GuardianAgents', () => {
 
         await agents.reconcile(txs, docs);
         expect(txs[0].matchedId).toBe('DOC_R1');
-        expect(txs[0].confidence).toBe(1.0);
+        // Só o valor confere: conciliado, mas sem score máximo e sem mexer na confiança da classificação
+        expect(txs[0].confidence).toBe(0.9);
+        expect(txs[0].reconciliation).toMatchObject({ tipo: 'total', score: 0.75, motivos: ['valor exato'] });
     });
 
     it('reconcile does not double-match same document', async () => {
@@ -405,8 +897,725 @@ describe('Area Storage - Comercial', () => {
     });
 });
 
+describe('Reconciliation Engine', () => {
+    const tx = (id: string, value: number, over: Partial<AnalysisResult> = {}): AnalysisResult => ({
+        id, type: 'transaction', classification: 'Fornecedores', confidence: 0.9, value, needsReview: true, suggestedAction: 'investigate',
+        direction: 'DEBITO', date: '2026-10-10', ...over,
+    });
+    const doc = (id: string, value: number, over: Partial<AnalysisResult> = {}): AnalysisResult => ({
+        id, type: 'document', classification: 'Fornecedores', confidence: 0.98, value, needsReview: true, suggestedAction: 'approve',
+        date: '2026-10-08', ...over,
+    });
+    const fiscal = (emitenteCnpj: string, emitenteNome: string, valorLiquido: number) =>
+        ({ emitenteCnpj, emitenteNome, valorLiquido, valorBruto: valorLiquido } as FiscalDocumentInfo);
+
+    it('prefers the document whose CNPJ, date and name corroborate the amount', () => {
+        const matches = reconcileTransactions(
+            [tx('TX1', 1500, { cpfCnpj: '11.222.333/0001-81', description: 'PIX ENVIADO ACME SISTEMAS' })],
+            [doc('D_OUTRO', 1500, { date: '2026-08-20' }), doc('D_ACME', 1500, { fiscal: fiscal('11222333000181', 'ACME SISTEMAS LTDA', 1500) })],
+        );
+        expect(matches).toHaveLength(1);
+        expect(matches[0]).toMatchObject({ tipo: 'total', documentIds: ['D_ACME'] });
+        expect(matches[0].score).toBeGreaterThan(0.9);
+        expect(matches[0].motivos).toEqual(expect.arrayContaining(['valor exato', 'CNPJ confere']));
+    });
+
+    it('rejects a document from another CNPJ even with the same amount', () => {
+        const matches = reconcileTransactions(
+            [tx('TX1', 800, { cpfCnpj: '99888777000166' })],
+            [doc('D1', 800, { fiscal: fiscal('11222333000181', 'ACME', 800) })],
+        );
+        expect(matches).toHaveLength(0);
+    });
+
+    it('one payment settles several documents from the same supplier', () => {
+        const f = fiscal('11222333000181', 'GRAFICA CENTRAL', 0);
+        const matches = reconcileTransactions(
+            [tx('TX1', 1000, { cpfCnpj: '11222333000181' })],
+            [doc('D1', 400, { fiscal: { ...f, valorLiquido: 400 } }), doc('D2', 600, { fiscal: { ...f, valorLiquido: 600 } }), doc('D3', 350)],
+        );
+        expect(matches[0]).toMatchObject({ tipo: 'multiplo', documentIds: ['D1', 'D2'], saldoRestante: 0 });
+    });
+
+    it('a partial payment leaves the balance open for the next one', () => {
+        const d = doc('D1', 3000, { fiscal: fiscal('11222333000181', 'ACME', 3000) });
+        const first = reconcileTransactions([tx('TX1', 1000, { cpfCnpj: '11222333000181' })], [d]);
+        expect(first[0]).toMatchObject({ tipo: 'parcial', saldoRestante: 2000, alocacoes: [{ documentId: 'D1', valor: 1000 }] });
+
+        const second = reconcileTransactions([tx('TX2', 2000, { cpfCnpj: '11222333000181', date: '2026-11-10' })], [d], new Map([['D1', 1000]]));
+        expect(second[0]).toMatchObject({ tipo: 'total', documentIds: ['D1'] });
+        // Valor parcial sem contraparte identificada não concilia
+        expect(reconcileTransactions([tx('TX3', 1000)], [d])).toHaveLength(0);
+    });
+});
+
+describe('Reconciliation Workbench', () => {
+    it('suggests, confirms and undoes a match, logging each decision', async () => {
+        const base = { confianca: 0.9, match: '', status: 'pendente' as const, criadoEm: nowISO(), sugestao: 'investigate' as const, needsReview: true };
+        await createGuardianAuth({ ...base, id: 'WB_DOC', tipo: 'document', classificacao: 'Servicos Contabeis', valor: 2750.4, descricao: 'NFS-e Contabilidade Horizonte', data: '2026-09-28' });
+        await createGuardianAuth({ ...base, id: 'WB_TX', tipo: 'transaction', classificacao: 'Servicos Contabeis', valor: 2750.4, descricao: 'PIX ENVIADO CONTABILIDADE HORIZONTE', data: '2026-09-30', direcao: 'DEBITO' });
+
+        const view = await buildWorkbench({ de: '2026-09-01', ate: '2026-09-30' });
+        const row = view.transacoes.find(t => t.id === 'WB_TX')!;
+        expect(row.candidatos[0]).toMatchObject({ documentId: 'WB_DOC', tipo: 'total' });
+        expect(view.documentos.some(d => d.id === 'WB_DOC')).toBe(true);
+
+        let all = await getAllAuthorizations();
+        const match = await confirmMatch(all.find(a => a.id === 'WB_TX')!, ['WB_DOC'], openDocuments(all), 'ana@wfinance.com.br');
+        expect(match).toMatchObject({ tipo: 'total', score: 1, alocacoes: [{ documentId: 'WB_DOC', valor: 2750.4 }] });
+        all = await getAllAuthorizations();
+        expect(all.find(a => a.id === 'WB_TX')).toMatchObject({ match: 'WB_DOC', sugestao: 'archive' });
+        expect(openDocuments(all).docs.some(d => d.id === 'WB_DOC')).toBe(false);
+
+        await updateGuardianAuth('WB_DOC', { status: 'aprovado', needsReview: false });
+        await undoMatch(all.find(a => a.id === 'WB_TX')!, all, 'ana@wfinance.com.br', 'NF errada');
+        all = await getAllAuthorizations();
+        expect(all.find(a => a.id === 'WB_TX')).toMatchObject({ match: '', status: 'pendente', needsReview: true });
+        expect(all.find(a => a.id === 'WB_DOC')).toMatchObject({ status: 'pendente', needsReview: true });
+        expect(openDocuments(all).docs.some(d => d.id === 'WB_DOC')).toBe(true);
+
+        const log = await getReconciliationDecisions(10, 'WB_TX');
+        expect(log.map(d => d.acao).sort()).toEqual(['confirmar', 'desfazer']);
+        expect(log.every(d => d.usuario === 'ana@wfinance.com.br' && d.documentos === 'WB_DOC')).toBe(true);
+        // O log guarda o score do par escolhido, não da melhor sugestão
+        expect(log.find(d => d.acao === 'confirmar')?.score).toBe(row.candidatos[0].score);
+    });
+
+    it('repeated document ids allocate once and an unscored choice logs no score', async () => {
+        const base = { confianca: 0.9, match: '', status: 'pendente' as const, criadoEm: nowISO(), sugestao: 'investigate' as const, needsReview: true };
+        await createGuardianAuth({ ...base, id: 'WB_DUP_A', tipo: 'document', classificacao: 'Hospedagem', valor: 500, descricao: 'Fatura A', data: '2026-09-10' });
+        await createGuardianAuth({ ...base, id: 'WB_DUP_B', tipo: 'document', classificacao: 'Hospedagem', valor: 700, descricao: 'Fatura B', data: '2026-09-10' });
+        await createGuardianAuth({ ...base, id: 'WB_DUP_TX', tipo: 'transaction', classificacao: 'Hospedagem', valor: 1000, descricao: 'PIX ENVIADO', data: '2026-09-12', direcao: 'DEBITO' });
+
+        const all = await getAllAuthorizations();
+        const match = await confirmMatch(all.find(a => a.id === 'WB_DUP_TX')!, ['WB_DUP_A', 'WB_DUP_A', 'WB_DUP_B'], openDocuments(all), 'ana@wfinance.com.br');
+        expect(match).toMatchObject({ tipo: 'multiplo', documentIds: ['WB_DUP_A', 'WB_DUP_B'] });
+        expect(match.alocacoes).toEqual([{ documentId: 'WB_DUP_A', valor: 500 }, { documentId: 'WB_DUP_B', valor: 500 }]);
+
+        const [decision] = await getReconciliationDecisions(1, 'WB_DUP_TX');
+        expect(decision.score).toBeUndefined();
+    });
+});
+
+describe('Split Transactions', () => {
+    const parent = authorization({
+        id: 'SPLIT_TX', classificacao: 'Licencas e Ferramentas', valor: 1000, confianca: 0.9, status: 'pendente', sugestao: 'investigate',
+        descricao: 'BOLETO OMIE', dataPagamento: '2026-10-05', contaId: 'CC_SPLIT', direcao: 'DEBITO', needsReview: true,
+    });
+
+    it('requires the parts to add up to the transaction', () => {
+        expect(validateSplit(parent, [{ classificacao: 'A', valor: 600 }, { classificacao: 'B', valor: 300 }])).toMatch(/soma das partes/);
+        expect(validateSplit(parent, [{ classificacao: 'A', valor: 1000 }])).toMatch(/ao menos 2/);
+        expect(validateSplit(parent, [{ classificacao: 'A', valor: 600 }, { classificacao: 'B', valor: 400, dataCompetencia: '2026-11-01' }])).toBeNull();
+    });
+
+    it('reports consume the child lines while the balance keeps the bank movement', async () => {
+        await createGuardianAuth(parent);
+        const lines = await applySplit(parent, [
+            { classificacao: 'Licencas e Ferramentas', valor: 600 },
+            { classificacao: 'Servicos Contabeis', valor: 400, dataCompetencia: '2026-09-01' },
+        ]);
+        expect(lines.map(l => l.id)).toEqual(['SPLIT_TX_S1', 'SPLIT_TX_S2']);
+
+        let all = await getAllAuthorizations();
+        const family = all.filter(a => a.id === 'SPLIT_TX' || a.parentId === 'SPLIT_TX');
+        expect(family.every(a => a.status === 'aprovado')).toBe(true);
+        const reported = reportingItems(family);
+        expect(reported.map(a => `${a.classificacao}:${a.valor}:${a.dataCompetencia}`)).toEqual([
+            'Licencas e Ferramentas:600:2026-10-01', 'Servicos Contabeis:400:2026-09-01',
+        ]);
+        const conta = { id: 'CC_SPLIT', nome: 'Split', banco: 'Inter', tipo: 'corrente', saldoInicial: 0 } as ContaCorrente;
+        expect(computeAccountBalances([conta], all)[0]).toMatchObject({ debitos: 1000, lancamentos: 1 });
+
+        await cancelSplit(all.find(a => a.id === 'SPLIT_TX')!);
+        all = await getAllAuthorizations();
+        expect(all.filter(a => a.parentId === 'SPLIT_TX').every(a => a.status === 'rejeitado')).toBe(true);
+        expect(reportingItems(all.filter(a => a.id === 'SPLIT_TX')).length).toBe(1);
+    });
+});
+
+describe('Report Period', () => {
+    const q = (params: Record<string, string>) => new URLSearchParams(params);
+    const item = (id: string, dataCompetencia: string, dataPagamento: string) =>
+        authorization({ id, data: dataPagamento, dataCompetencia, dataPagamento });
+
+    it('validates de/ate/regime', () => {
+        expect(parseReportPeriod(q({}))).toEqual({ de: null, ate: null, regime: null });
+        expect(parseReportPeriod(q({ de: '2026-10-01', ate: '2026-10-31', regime: 'caixa' }))).toEqual({ de: '2026-10-01', ate: '2026-10-31', regime: 'caixa' });
+        expect(parseReportPeriod(q({ de: '01/10/2026' }))).toMatch(/"de"/);
+        expect(parseReportPeriod(q({ de: '2026-11-01', ate: '2026-10-01' }))).toMatch(/anterior/);
+        expect(parseReportPeriod(q({ regime: 'misto' }))).toMatch(/Regime inválido/);
+    });
+
+    it('the default competência is the month before today', () => {
+        expect(previousPeriodo('2026-10-19T12:00:00.000Z')).toBe('2026-09');
+        expect(previousPeriodo('2027-01-05')).toBe('2026-12');
+    });
+
+    it('DRE follows competência and DFC follows payment unless a regime is chosen', () => {
+        // Aluguel de setembro pago em outubro; aluguel de outubro pago em outubro; compra de outubro paga em novembro
+        const items = [item('SET', '2026-09-01', '2026-10-05'), item('OUT', '2026-10-01', '2026-10-30'), item('OUT_NOV', '2026-10-01', '2026-11-03')];
+        const outubro = { de: '2026-10-01', ate: '2026-10-31', regime: null } as ReportPeriod;
+
+        const padrao = statementItems(items, outubro);
+        expect(padrao.dre.map(i => i.id)).toEqual(['OUT', 'OUT_NOV']);
+        expect(padrao.dfc.map(i => i.id)).toEqual(['SET', 'OUT']);
+        expect(statementItems(items, { ...outubro, regime: 'caixa' }).dre.map(i => i.id)).toEqual(['SET', 'OUT']);
+        expect(statementItems(items, { ...outubro, regime: 'competencia' }).dfc.map(i => i.id)).toEqual(['OUT', 'OUT_NOV']);
+        expect(statementItems(items, { de: null, ate: null, regime: null }).dre).toHaveLength(3);
+        expect(paidAfter(items, '2026-10-31').map(i => i.id)).toEqual(['OUT_NOV']);
+    });
+
+    it('rolls the bank balance back with pending transactions too', () => {
+        // O saldo do banco já inclui o débito pendente de aprovação; a nota pendente não move caixa
+        const pendentes = [
+            authorization({ id: 'PEND_TX', status: 'pendente', data: '2026-11-02', dataPagamento: '2026-11-02' }),
+            authorization({ id: 'PEND_DOC', tipo: 'document', status: 'pendente', data: '2026-11-02', dataPagamento: '2026-11-02' }),
+        ];
+        const aprovados = [item('OUT_NOV', '2026-10-01', '2026-11-03')];
+        expect(paidAfter(balanceMovements(aprovados, pendentes), '2026-10-31').map(i => i.id)).toEqual(['OUT_NOV', 'PEND_TX']);
+    });
+});
+
+describe('Monthly Close', () => {
+    const item = (id: string, status: 'pendente' | 'aprovado', classificacao: string, dataCompetencia: string, dataPagamento: string) =>
+        authorization({ id, status, classificacao, data: dataPagamento, dataCompetencia, dataPagamento });
+    const categorias = new Set(['Aluguel']);
+
+    it('blocks the close on pending or unclassified items of the month', () => {
+        expect(monthRange('2024-02')).toEqual({ inicio: '2024-02-01', fim: '2024-02-29' });
+        const items = [
+            item('OK', 'aprovado', 'Aluguel', '2026-08-01', '2026-08-05'),
+            item('PEND_PAGO_AGO', 'pendente', 'Aluguel', '2026-07-01', '2026-08-02'),
+            item('SEM_CAT', 'aprovado', 'Despesas Nao Classificadas', '2026-08-01', '2026-08-10'),
+            item('PEND_SET', 'pendente', 'Aluguel', '2026-09-01', '2026-09-05'),
+        ];
+        const checks = runPreCloseChecks('2026-08', items, categorias);
+        expect(blockingChecks(checks).map(c => `${c.codigo}:${c.itens.join(',')}`)).toEqual(['pendentes:PEND_PAGO_AGO', 'nao_classificados:SEM_CAT']);
+        expect(blockingChecks(runPreCloseChecks('2026-08', items.slice(0, 1), categorias))).toHaveLength(0);
+    });
+
+    it('locks the month once closed and logs the reopening', async () => {
+        const periodo = '2019-03';
+        await closePeriod(periodo, { dre: { receitaBruta: 0 } }, [], 'contador@wf');
+        const closed = await getClosedPeriods();
+        expect(closed.has(periodo)).toBe(true);
+        expect((await getFechamentos()).find(f => f.id === periodo)?.snapshot).toEqual({ dre: { receitaBruta: 0 } });
+
+        const noMes = item('LOCK', 'aprovado', 'Aluguel', '2019-03-01', '2019-04-02');
+        expect(lockedPeriodError(closed, noMes)).toMatch(/2019-03 fechado/);
+        // Mover a competência para fora do mês também altera o mês fechado
+        expect(lockedPeriodError(closed, noMes, { ...noMes, dataCompetencia: '2019-04-01' })).toMatch(/2019-03/);
+        expect(lockedPeriodError(closed, item('ABR', 'aprovado', 'Aluguel', '2019-04-01', '2019-04-02'))).toBeNull();
+
+        const fechamento = (await getFechamentos()).find(f => f.id === periodo)!;
+        await reopenPeriod(fechamento, 'socio@wf', 'NF de março lançada em atraso');
+        expect((await getClosedPeriods()).has(periodo)).toBe(false);
+        const eventos = await getFechamentoEventos(periodo);
+        expect(eventos.map(e => e.acao).sort()).toEqual(['fechar', 'reabrir']);
+        expect(eventos.find(e => e.acao === 'reabrir')).toMatchObject({ usuario: 'socio@wf', motivo: 'NF de março lançada em atraso' });
+    });
+});
+
+describe('Budget vs Actual', () => {
+    const item = (id: string, classificacao: string, valor: number, dataCompetencia: string) =>
+        authorization({ id, classificacao, valor, data: dataCompetencia, dataCompetencia });
+    const categorias = [
+        budgetCategory('Aluguel', 'CUSTO_FIXO', 'Ocupacao', 3000),
+        budgetCategory('Condominio', 'CUSTO_FIXO', 'Ocupacao', 800),
+        budgetCategory('Receita de Servicos', 'RECEITA_DIRETA', 'Receita de Servicos', 20000),
+    ];
+
+    it('compares budget and actual by categoria, grupo and tipo with a month-end projection', () => {
+        const items = [
+            item('A', 'Aluguel', 3000, '2026-06-01'),
+            item('C', 'Condominio', 600, '2026-06-05'),
+            item('R', 'Receita de Servicos', 12000, '2026-06-10'),
+            item('R_JUL', 'Receita de Servicos', 5000, '2026-07-01'),
+        ];
+        const junho = buildBudgetMonth(items, categorias, monthlyBudgets(categorias, null, '2026-06'), '2026-06', '2026-06-15');
+        expect(junho).toMatchObject({ diasNoMes: 30, diasDecorridos: 15, mesDecorridoPct: 50 });
+
+        const ocupacao = junho.porGrupo.find(g => g.chave === 'Ocupacao')!;
+        expect(ocupacao).toMatchObject({ orcado: 3800, realizado: 3600, variacao: -200, consumoPct: 94.74, projecao: 7200, favoravel: true });
+        const receita = junho.porTipo.find(t => t.chave === 'RECEITA_DIRETA')!;
+        expect(receita).toMatchObject({ orcado: 20000, realizado: 12000, variacaoPct: -40, projecao: 24000, favoravel: false });
+
+        // Mês encerrado projeta o próprio realizado
+        expect(buildBudgetMonth(items, categorias, monthlyBudgets(categorias, null, '2026-06'), '2026-06', '2026-08-01').porTipo.find(t => t.chave === 'CUSTO_FIXO')!.projecao).toBe(3600);
+        expect(monthsBetween('2026-11', '2027-02')).toEqual(['2026-11', '2026-12', '2027-01', '2027-02']);
+    });
+
+    it('versions hold seasonal monthly values, copy from the prior year and switch the active one', async () => {
+        const nomes = new Set(categorias.map(c => c.nome));
+        const meses = (v: number) => Array(12).fill(v);
+        expect(validateValores({ Aluguel: [1, 2] }, nomes)).toMatch(/12 valores/);
+        expect(validateValores({ Inexistente: meses(1) }, nomes)).toMatch(/não cadastrada/);
+
+        // Sem versão, o ano anterior parte do orcamentoMensal plano
+        const original = await copyFromPriorYear(2031, 'Original', 10, categorias);
+        expect(original.ativa).toBe(true);
+        expect(original.valores!['Aluguel']).toEqual(meses(3300));
+
+        const dezembro = mergeValores(original.valores!, {}, [{ categoria: 'Receita de Servicos', mes: 12, valor: 35000 }]);
+        const revisado = await createVersion(2031, 'Revisado Q2', dezembro);
+        expect(revisado.ativa).toBe(false);
+        await activateVersion(revisado);
+
+        const ativas = activeVersionsByYear(await getOrcamentoVersoes(2031));
+        expect(ativas.get(2031)!.id).toBe(revisado.id);
+        expect(monthlyBudgets(categorias, ativas.get(2031)!, '2031-12').get('Receita de Servicos')).toBe(35000);
+        expect(monthlyBudgets(categorias, ativas.get(2031)!, '2031-11').get('Receita de Servicos')).toBe(22000);
+
+        // 2032 copia a versão ativa de 2031
+        const proximo = await copyFromPriorYear(2032, 'Original', -50, categorias);
+        expect(proximo).toMatchObject({ origemVersaoId: revisado.id, ajustePct: -50 });
+        expect(proximo.valores!['Receita de Servicos'][11]).toBe(17500);
+    });
+
+    it('audit reads the limits from the categories table', async () => {
+        await updateCadastroRecord('categorias', budgetCategory('Condominio', 'CUSTO_FIXO', 'Ocupacao', 800));
+        const result: AnalysisResult = {
+            id: 'AUD_CAT', type: 'transaction', classification: 'Condominio', confidence: 0.95, value: 950,
+            needsReview: false, suggestedAction: 'approve',
+        };
+        await new GuardianAgents().audit(result);
+        expect(result.audit).toMatchObject({ withinBudget: false, budgetLimit: 800, variation: 150, alert: 'critical' });
+    });
+});
+
+describe('Tax Regime', () => {
+    it('defaults to Lucro Real and ignores invalid settings', () => {
+        expect(parseTaxConfig({})).toEqual({ regime: 'real', anexo: 'III', atividade: 'servicos' });
+        expect(parseTaxConfig({ regime: 'SIMPLES', anexo: 'v' })).toMatchObject({ regime: 'simples', anexo: 'V' });
+        expect(parseTaxConfig({ regime: 'mei', anexo: 'VI' })).toMatchObject({ regime: 'real', anexo: 'III' });
+        // O fallback aparece na DRE; a gravação recusa o valor
+        expect(parseTaxConfig({ regime: 'simpels' }).aviso).toContain('REGIME_TRIBUTARIO inválido ("simpels")');
+        expect(validateTaxConfigEntry('REGIME_TRIBUTARIO', 'simpels')).toMatch(/simples, presumido, real/);
+        expect(validateTaxConfigEntry('REGIME_TRIBUTARIO', 'Simples')).toBeNull();
+        expect(validateTaxConfigEntry('SIMPLES_ANEXO', 'VI')).toMatch(/SIMPLES_ANEXO/);
+        expect(validateTaxConfigEntry('CC_SALDO_INICIAL', 'qualquer')).toBeNull();
+    });
+
+    it('the IRPJ adicional allowance counts every month of the requested period', () => {
+        const item = { dataCompetencia: '2026-01-10' } as GuardianAuthorization;
+        expect(periodMonths([item, { ...item, dataCompetencia: '2026-03-05' }])).toBe(3);
+        expect(periodMonths([item], { de: '2026-01-01', ate: '2026-06-30' })).toBe(6);
+        expect(periodMonths([], { de: null, ate: null })).toBe(1);
+    });
+
+    it('Simples applies the effective rate of each month\'s RBT12 bracket', () => {
+        // Anexo III, RBT12 R$ 500 mil: (500.000 × 13,5% − 17.640) / 500.000 = 9,972%
+        expect(simplesRate('III', 500000).aliquotaEfetiva).toBeCloseTo(0.09972, 5);
+        expect(simplesRate('III', 0)).toMatchObject({ faixa: 1, aliquotaEfetiva: 0.06 });
+
+        const historico = new Map<string, number>();
+        for (let m = 1; m <= 12; m++) historico.set(`2025-${String(m).padStart(2, '0')}`, 41666.67);
+        expect(rbt12(historico, '2026-01')).toBeCloseTo(500000, 0);
+        // Início de atividade: 3 meses de histórico anualizados
+        expect(rbt12(new Map([['2026-01', 10000], ['2026-02', 20000], ['2026-03', 30000]]), '2026-04')).toBe(240000);
+
+        const simples = parseTaxConfig({ regime: 'simples', anexo: 'III' });
+        const ded = revenueDeductions(simples, new Map([['2026-01', 50000]]), historico);
+        expect(ded.total).toBeCloseTo(50000 * 0.09972, 0);
+        expect(ded.meses![0]).toMatchObject({ periodo: '2026-01', faixa: 3 });
+        expect(incomeTaxes(simples, { receitaBruta: 50000, receitasFinanceiras: 0, resultadoAntesIR: 20000, meses: 1 }).total).toBe(0);
+    });
+
+    it('Presumido taxes the presumed base and Real the profit, both with the IRPJ adicional', () => {
+        const presumido = parseTaxConfig({ regime: 'presumido' });
+        expect(revenueDeductions(presumido, new Map([['2026-01', 100000]]), new Map()).aliquotaEfetiva).toBeCloseTo(0.0365, 6);
+        // Base 32% de 100 mil + 1 mil financeiras = 33 mil → IRPJ 4.950 + adicional 1.300; CSLL 2.970
+        const ir = incomeTaxes(presumido, { receitaBruta: 100000, receitasFinanceiras: 1000, resultadoAntesIR: -5000, meses: 1 });
+        expect(ir).toMatchObject({ baseIRPJ: 33000, irpj: 4950, adicionalIRPJ: 1300, csll: 2970 });
+
+        const real = parseTaxConfig({ regime: 'real' });
+        expect(incomeTaxes(real, { receitaBruta: 100000, receitasFinanceiras: 0, resultadoAntesIR: 50000, meses: 2 }))
+            .toMatchObject({ irpj: 7500, adicionalIRPJ: 1000, csll: 4500, total: 13000 });
+        expect(incomeTaxes(real, { receitaBruta: 100000, receitasFinanceiras: 0, resultadoAntesIR: -1000, meses: 1 }).total).toBe(0);
+    });
+});
+
+describe('DAS Estimator', () => {
+    const historico = new Map<string, number>();
+    for (let m = 1; m <= 12; m++) historico.set(`2025-${String(m).padStart(2, '0')}`, 41666.67);
+    historico.set('2026-01', 50000);
+
+    it('estimates the month\'s DAS from the prior twelve months and moves weekend due dates back', () => {
+        const das = estimateDAS(historico, '2026-01', 'III');
+        expect(das).toMatchObject({ receitaBruta: 50000, faixa: 3, vencimento: '2026-02-20' });
+        expect(das.rbt12).toBeCloseTo(500000, 0);
+        expect(das.valorDAS).toBeCloseTo(50000 * 0.09972, 0);
+        // 20/06/2026 é sábado e 20/09/2026 domingo: posterga para segunda
+        expect(dasDueDate('2026-05')).toBe('2026-06-22');
+        expect(dasDueDate('2026-08')).toBe('2026-09-21');
+        expect(dasDueDate('2026-12')).toBe('2027-01-20');
+    });
+
+    it('creates expected payables, refreshes open ones and never touches paid ones', async () => {
+        const receita = new Map([['2031-01', 10000], ['2031-02', 20000], ['2031-03', 0]]);
+        const estimativas = ['2031-01', '2031-02', '2031-03'].map(p => estimateDAS(receita, p, 'III'));
+        expect(await syncDASPayables(estimativas)).toEqual({ criados: 2, atualizados: 0, ignorados: 1 });
+        expect(await syncDASPayables(estimativas)).toEqual({ criados: 0, atualizados: 0, ignorados: 3 });
+
+        const titulos = (await getTitulos<ContaPagar>('pagar')).filter(p => p.id.startsWith('DAS_2031'));
+        const jan = titulos.find(p => p.id === 'DAS_2031-01')!;
+        expect(jan).toMatchObject({ status: 'aberto', valor: 600, dataVencimento: '2031-02-20' });
+        await upsertTitulo('pagar', { ...jan, status: 'pago', dataPagamento: '2031-02-20', valorPago: 600 });
+
+        receita.set('2031-01', 12000);
+        receita.set('2031-02', 25000);
+        const revistas = ['2031-01', '2031-02'].map(p => estimateDAS(receita, p, 'III'));
+        expect(await syncDASPayables(revistas)).toMatchObject({ criados: 0, atualizados: 1 });
+        const depois = await getTitulos<ContaPagar>('pagar');
+        expect(depois.find(p => p.id === 'DAS_2031-01')).toMatchObject({ status: 'pago', valor: 600 });
+        expect(depois.find(p => p.id === 'DAS_2031-02')?.valor).toBe(revistas[1].valorDAS);
+
+        // Forecast: só títulos em aberto, no mês do vencimento
+        const porMes = taxDueByMonth(depois, '2031-02-01');
+        expect(porMes.get('2031-03')).toBe(revistas[1].valorDAS);
+        expect(porMes.has('2031-02')).toBe(false);
+    });
+
+    it('the DRE counts the DAS once under Simples', () => {
+        const catMap = buildCatLookup([
+            budgetCategory('Receita DRE DAS', 'RECEITA_DIRETA', 'Receita de Servicos', 0),
+            budgetCategory(DAS_CATEGORIA, 'CUSTO_VARIAVEL', 'Impostos Variaveis', 0),
+        ]);
+        const items = [
+            authorization({ classificacao: 'Receita DRE DAS', valor: 50000, direcao: 'CREDITO', dataCompetencia: '2026-01-01' }),
+            // Débito que quitou o título do DAS (categoria do título aplicada pelo pipeline)
+            authorization({ classificacao: DAS_CATEGORIA, valor: 4986, dataCompetencia: '2026-01-01' }),
+        ];
+        const simples = { config: parseTaxConfig({ regime: 'simples', anexo: 'III' }), receitaMensal: historico };
+        const dre = buildDRE(items, catMap, simples);
+        expect(dre.deducoes).toBeCloseTo(50000 * 0.09972, 0);
+        expect(dre.variaveis.total).toBe(0);
+        // Fora do Simples o regime não deduz DAS: o pagamento continua sendo custo
+        expect(buildDRE(items, catMap, { ...simples, config: parseTaxConfig({ regime: 'real' }) }).variaveis.total).toBe(4986);
+    });
+});
+
+describe('Tax Calendar', () => {
+    const obrigacao = (over: Partial<ObrigacaoFiscal>): ObrigacaoFiscal => ({
+        id: 'ISS', nome: 'ISS', base: 'receita_bruta', aliquota: 5, diaVencimento: 10, ajusteDiaUtil: 'postergar',
+        categoria: 'Impostos Sobre Servicos', fornecedor: 'Prefeitura', palavraChave: 'ISS', ativa: true, criadoEm: nowISO(),
+        ...over,
+    });
+    const ctx: TaxCalendarContext = {
+        config: parseTaxConfig({ regime: 'presumido' }),
+        receitaMensal: new Map([['2026-09', 40000]]),
+        realizadoPorCategoria: new Map([['Salarios', 20000], ['Pro-labore', 5000]]),
+    };
+
+    it('due dates follow the day rule, clamp to short months and shift off weekends', () => {
+        // 10/10/2026 é sábado: posterga para segunda ou antecipa para sexta
+        expect(obligationDueDate({ diaVencimento: 10, ajusteDiaUtil: 'postergar' }, '2026-09')).toBe('2026-10-12');
+        expect(obligationDueDate({ diaVencimento: 10, ajusteDiaUtil: 'antecipar' }, '2026-09')).toBe('2026-10-09');
+        expect(obligationDueDate({ diaVencimento: 10, ajusteDiaUtil: 'nenhum' }, '2026-09')).toBe('2026-10-10');
+        // Dia 31 em fevereiro vira o último dia; mesesApos 0 vence na própria competência
+        expect(obligationDueDate({ diaVencimento: 31, ajusteDiaUtil: 'nenhum' }, '2027-01')).toBe('2027-02-28');
+        expect(obligationDueDate({ diaVencimento: 30, mesesApos: 0, ajusteDiaUtil: 'nenhum' }, '2026-09')).toBe('2026-09-30');
+    });
+
+    it('calculates each base and flags DAS outside the Simples', () => {
+        expect(calculateObligation(obrigacao({}), '2026-09', ctx)).toMatchObject({ baseCalculo: 40000, valor: 2000, vencimento: '2026-10-12' });
+        const fgts = obrigacao({ id: 'FGTS', base: 'categorias', aliquota: 8, categoriasBase: ['Salarios'], diaVencimento: 20, ajusteDiaUtil: 'antecipar' });
+        expect(calculateObligation(fgts, '2026-09', ctx)).toMatchObject({ baseCalculo: 20000, valor: 1600, vencimento: '2026-10-20' });
+        expect(calculateObligation(obrigacao({ base: 'valor_fixo', valorFixo: 350 }), '2026-09', ctx).valor).toBe(350);
+        expect(calculateObligation(obrigacao({ base: 'simples_das' }), '2026-09', ctx).aviso).toContain('Simples');
+        // No Simples o DAS vence no dia legal, não no dia cadastrado (20/06/2026 é sábado)
+        const simples = { ...ctx, config: parseTaxConfig({ regime: 'simples' }), receitaMensal: new Map([['2026-05', 40000]]) };
+        expect(calculateObligation(obrigacao({ base: 'simples_das', diaVencimento: 10 }), '2026-05', simples).vencimento).toBe(dasDueDate('2026-05'));
+
+        expect(validateObrigacao(obrigacao({ aliquota: undefined }))).toContain('aliquota');
+        expect(validateObrigacao(obrigacao({ base: 'categorias', categoriasBase: [] }))).toContain('categoriasBase');
+        expect(validateObrigacao(obrigacao({ diaVencimento: 0 }))).toContain('diaVencimento');
+        expect(validateObrigacao(obrigacao({}))).toBeNull();
+    });
+
+    it('estimated titles settle against the real debit within tolerance when the keyword matches', () => {
+        const iss: ContaPagar = {
+            id: 'OBR_ISS_2026-09', fornecedor: 'Prefeitura', categoria: 'Impostos Sobre Servicos', valor: 2000,
+            dataCompetencia: '2026-09-01', dataVencimento: '2026-10-12', status: 'aberto', recorrencia: 'nenhuma',
+            obrigacaoId: 'ISS', estimado: true, palavraChave: 'ISS', criadoEm: nowISO(),
+        };
+        const debit = { authId: 'CLASS_ISS', data: '2026-10-12', valor: 2140.55, descricao: 'PAGAMENTO GUIA ISS PREFEITURA' };
+        expect(matchPayables([iss], [debit])).toHaveLength(1);
+        // Sem a palavra-chave, ou fora da tolerância, não baixa
+        expect(matchPayables([iss], [{ ...debit, descricao: 'BOLETO DIVERSOS' }])).toHaveLength(0);
+        expect(matchPayables([iss], [{ ...debit, valor: 2600 }])).toHaveLength(0);
+        // Título de valor exato tem prioridade sobre o estimado
+        const exato: ContaPagar = { ...iss, id: 'CP_EXATO', estimado: false, obrigacaoId: undefined, valor: 2140.55, dataVencimento: '2026-10-15' };
+        expect(matchPayables([iss, exato], [debit])[0].payable.id).toBe('CP_EXATO');
+    });
+
+    it('generates the month\'s expected payables once and feeds the forecast', async () => {
+        await saveObrigacaoFiscal(obrigacao({ id: 'TAXA_FIXA', nome: 'Taxa Fixa', base: 'valor_fixo', valorFixo: 120, diaVencimento: 15 }));
+        await saveObrigacaoFiscal(obrigacao({ id: 'INSS_TESTE', nome: 'INSS', base: 'categorias', aliquota: 20, categoriasBase: ['Inexistente'], diaVencimento: 20 }));
+
+        const first = await generateObligationPayables('2032-03');
+        expect(first.calendario.find(c => c.obrigacaoId === 'TAXA_FIXA')).toMatchObject({ valor: 120, vencimento: '2032-04-15' });
+        expect(first.criados).toBeGreaterThanOrEqual(1);
+        expect((await generateObligationPayables('2032-03')).criados).toBe(0);
+
+        const titulos = await getTitulos<ContaPagar>('pagar');
+        expect(titulos.find(p => p.id === 'OBR_TAXA_FIXA_2032-03')).toMatchObject({ valor: 120, obrigacaoId: 'TAXA_FIXA', estimado: false });
+        expect(titulos.some(p => p.id === 'OBR_INSS_TESTE_2032-03')).toBe(false);
+        expect(taxDueByMonth(titulos, '2032-04-01').get('2032-04')).toBeGreaterThanOrEqual(120);
+    });
+});
+
+describe('Ledger', () => {
+    const receita = budgetCategory('Receita Ledger', 'RECEITA_DIRETA', 'Receita de Servicos', 0);
+    const aluguel = budgetCategory('Aluguel Ledger', 'CUSTO_FIXO', 'Ocupacao', 0);
+    const software = budgetCategory('Software Ledger', 'CUSTO_FIXO', 'Assinaturas e Licencas', 0);
+    const banco = { id: 'CC_LEDGER', nome: 'Inter', banco: 'Inter', tipo: 'corrente', saldoInicial: 0, ativa: true, criadoEm: nowISO() } as ContaCorrente;
+    const cartao = { ...banco, id: 'CARD_LEDGER', nome: 'Visa', tipo: 'cartao' } as ContaCorrente;
+    const ctx: LedgerContext = {
+        categorias: new Map([receita, aluguel, software].map(c => [c.nome, c])),
+        contas: new Map([banco, cartao].map(c => [c.id, c])),
+        documentos: new Map(),
+    };
+    const tx = (over: Partial<GuardianAuthorization>) =>
+        authorization({ id: generateId('LEDGER_TX'), classificacao: 'Aluguel Ledger', contaId: 'CC_LEDGER', direcao: 'DEBITO', ...over });
+    ctx.documentos.set('NF', tx({ id: 'NF', tipo: 'document', direcao: undefined }));
+
+    it('maps each approved item to one balanced debit/credit pair', () => {
+        expect(journalFor(tx({ valor: 3000 }), ctx)).toEqual([
+            { contaDebito: '4.2.Aluguel Ledger', contaCredito: '1.1.1.CC_LEDGER', valor: 3000, dataCompetencia: '2026-10-01', historico: 'Aluguel Ledger' },
+        ]);
+        expect(journalFor(tx({ classificacao: 'Receita Ledger', direcao: 'CREDITO' }), ctx)[0])
+            .toMatchObject({ contaDebito: '1.1.1.CC_LEDGER', contaCredito: '3.1.Receita Ledger' });
+        // Compra no cartão vira passivo; documento (sem dinheiro movido) vai para fornecedores
+        expect(journalFor(tx({ contaId: 'CARD_LEDGER' }), ctx)[0].contaCredito).toBe('2.1.2.CARD_LEDGER');
+        expect(journalFor(tx({ tipo: 'document', direcao: undefined }), ctx)[0].contaCredito).toBe('2.1.1');
+        expect(journalFor(tx({ classificacao: 'Sem Cadastro' }), ctx)[0].contaDebito).toBe('9.9');
+        // Pagamento conciliado baixa fornecedores (só o que foi alocado); recebimento baixa clientes
+        const conciliacao = { transactionId: 'x', tipo: 'total' as const, score: 1, documentIds: ['NF'], alocacoes: [{ documentId: 'NF', valor: 80 }], saldoRestante: 0, motivos: [] };
+        expect(journalFor(tx({ match: 'NF', conciliacao }), ctx).map(p => [p.contaDebito, p.contaCredito, p.valor])).toEqual([
+            ['2.1.1', '1.1.1.CC_LEDGER', 80],
+            ['4.2.Aluguel Ledger', '1.1.1.CC_LEDGER', 20],
+        ]);
+        expect(journalFor(tx({ match: 'NF', direcao: 'CREDITO' }), ctx)[0]).toMatchObject({ contaDebito: '1.1.1.CC_LEDGER', contaCredito: '1.1.2', valor: 100 });
+        // Pendente, rejeitado ou rateado (entram as partes) não lançam
+        expect(journalFor(tx({ status: 'pendente' }), ctx)).toEqual([]);
+        expect(journalFor(tx({ dividida: true }), ctx)).toEqual([]);
+    });
+
+    it('a match to a document that is not approved settles nothing', () => {
+        const docs = new Map([
+            ['NF_PEND', tx({ id: 'NF_PEND', tipo: 'document', direcao: undefined, status: 'pendente' })],
+            ['NF_REJ', tx({ id: 'NF_REJ', tipo: 'document', direcao: undefined, status: 'rejeitado' })],
+        ]);
+        const semProvisao = { ...ctx, documentos: docs };
+        for (const match of ['NF_PEND', 'NF_REJ', 'NF_INEXISTENTE']) {
+            expect(journalFor(tx({ match }), semProvisao)).toEqual([
+                expect.objectContaining({ contaDebito: '4.2.Aluguel Ledger', contaCredito: '1.1.1.CC_LEDGER', valor: 100 }),
+            ]);
+        }
+        // Fornecedores nunca fica devedor: baixa-se no máximo o valor do documento aprovado
+        const pequeno = { ...ctx, documentos: new Map([['NF_60', tx({ id: 'NF_60', tipo: 'document', direcao: undefined, valor: 60 })]]) };
+        expect(journalFor(tx({ match: 'NF_60' }), pequeno).map(p => [p.contaDebito, p.valor])).toEqual([['2.1.1', 60], ['4.2.Aluguel Ledger', 40]]);
+    });
+
+    it('corrections reverse the live entries and post again; the trial balance stays balanced', () => {
+        const original = tx({ id: 'LEDGER_FIX', valor: 500 });
+        const first = diffPostings(original.id, [], journalFor(original, ctx), 'aprovacao');
+        expect(first).toHaveLength(1);
+        expect(diffPostings(original.id, first, journalFor(original, ctx), 'aprovacao')).toEqual([]);
+
+        const second = diffPostings(original.id, first, journalFor({ ...original, classificacao: 'Software Ledger' }, ctx), 'reclassificacao');
+        expect(second.map(e => [e.contaDebito, e.contaCredito, e.estornoDe ?? null])).toEqual([
+            ['1.1.1.CC_LEDGER', '4.2.Aluguel Ledger', first[0].id],
+            ['4.2.Software Ledger', '1.1.1.CC_LEDGER', null],
+        ]);
+        const entries = [...first, ...second];
+        expect(liveEntries(entries).map(e => e.contaDebito)).toEqual(['4.2.Software Ledger']);
+
+        const plano = chartOfAccounts(ctx);
+        const balancete = trialBalance(entries, plano, '2026-10-01', '2026-10-31');
+        expect(balancete).toMatchObject({ totalDebitos: 1500, totalCreditos: 1500, equilibrado: true });
+        expect(balancete.contas.find(c => c.codigo === '4.2.Aluguel Ledger')?.saldoFinal).toBe(0);
+        expect(balancete.contas.find(c => c.codigo === '1.1.1.CC_LEDGER')?.saldoFinal).toBe(-500);
+
+        const razao = accountStatement(entries, plano.get('4.2.Software Ledger')!, '2026-11-01', '2026-11-30');
+        expect(razao).toMatchObject({ saldoInicial: 500, movimentos: [], saldoFinal: 500 });
+    });
+
+    it('approval, split and rejection post through the stored authorizations', async () => {
+        for (const c of [receita, aluguel, software]) await updateCadastroRecord('categorias', c);
+        const parent = tx({ id: 'LEDGER_SPLIT', valor: 1000, contaId: undefined });
+        await createGuardianAuth(parent);
+        expect(await postAuthorizationLedger(parent.id, 'aprovacao')).toHaveLength(1);
+
+        await applySplit(parent, [
+            { classificacao: 'Aluguel Ledger', valor: 700 },
+            { classificacao: 'Software Ledger', valor: 300, dataCompetencia: '2026-09-01' },
+        ]);
+        const rateio = await postAuthorizationLedger(parent.id, 'rateio');
+        expect(rateio.map(e => `${e.origemId}:${e.estornoDe ? 'estorno' : e.contaDebito}`).sort()).toEqual([
+            'LEDGER_SPLIT:estorno', 'LEDGER_SPLIT_S1:4.2.Aluguel Ledger', 'LEDGER_SPLIT_S2:4.2.Software Ledger',
+        ]);
+        expect(await postAuthorizationLedger(parent.id, 'rateio')).toEqual([]);
+
+        await cancelSplit((await getAllAuthorizations()).find(a => a.id === parent.id)!);
+        await updateGuardianAuth(parent.id, { status: 'rejeitado' });
+        expect((await postAuthorizationLedger(parent.id, 'rejeicao')).every(e => e.estornoDe)).toBe(true);
+
+        const familia = (await getLedgerEntries()).filter(e => e.origemId.startsWith('LEDGER_SPLIT'));
+        expect(liveEntries(familia)).toEqual([]);
+        expect(trialBalance(familia, new Map(), '2026-01-01', '2026-12-31').contas.every(c => c.saldoFinal === 0)).toBe(true);
+    });
+
+    it('undoing a match reverses what the transaction and its documents had posted', async () => {
+        const doc = tx({ id: 'LEDGER_UNDO_DOC', tipo: 'document', direcao: undefined, valor: 250 });
+        const pagamento = tx({ id: 'LEDGER_UNDO_TX', valor: 250, match: doc.id });
+        await createGuardianAuth(doc);
+        await createGuardianAuth(pagamento);
+        for (const a of [pagamento, doc]) await postAuthorizationLedger(a.id, 'aprovacao');
+        // A despesa entra uma vez (pelo documento); o pagamento só baixa fornecedores
+        const antes = trialBalance((await getLedgerEntries()).filter(e => e.origemId.startsWith('LEDGER_UNDO')), chartOfAccounts(ctx), '2026-10-01', '2026-10-31');
+        expect(antes.contas.find(c => c.codigo === '4.2.Aluguel Ledger')?.saldoFinal).toBe(250);
+        expect(antes.contas.find(c => c.codigo === '2.1.1')?.saldoFinal).toBe(0);
+
+        const documentIds = await undoMatch(pagamento, await getAllAuthorizations(), 'tester');
+        for (const id of [pagamento.id, ...documentIds]) await postAuthorizationLedger(id, 'conciliacao');
+
+        const entries = (await getLedgerEntries()).filter(e => e.origemId.startsWith('LEDGER_UNDO'));
+        expect(entries.filter(e => e.estornoDe)).toHaveLength(2);
+        expect(liveEntries(entries)).toEqual([]);
+    });
+});
+
+describe('Contas a Pagar', () => {
+    const payable = (over: Partial<ContaPagar>): ContaPagar => ({
+        id: generateId('CP'), fornecedor: 'Fornecedor', categoria: 'Aluguel', valor: 100,
+        dataCompetencia: '2026-10-01', dataVencimento: '2026-10-10', status: 'aberto', recorrencia: 'nenhuma', criadoEm: nowISO(),
+        ...over,
+    });
+
+    it('open payables past due read as vencido and fall into aging buckets', () => {
+        const items = [
+            payable({ valor: 100, dataVencimento: '2026-09-25' }),
+            payable({ valor: 50, dataVencimento: '2026-07-01' }),
+            payable({ valor: 30, dataVencimento: '2026-10-12' }),
+            payable({ valor: 999, dataVencimento: '2026-09-01', status: 'pago' }),
+        ];
+        expect(effectiveStatus(items[0], '2026-10-05')).toBe('vencido');
+        expect(effectiveStatus(items[3], '2026-10-05')).toBe('pago');
+
+        const aging = buildAging(items, '2026-10-05');
+        expect(aging.vencido.find(b => b.faixa === '1-30')).toMatchObject({ quantidade: 1, total: 100 });
+        expect(aging.vencido.find(b => b.faixa === '90+')?.total).toBe(50);
+        expect(aging.aVencer.find(b => b.faixa === '0-7')?.total).toBe(30);
+        expect(aging.totalVencido).toBe(150);
+    });
+
+    it('matches a debit by amount, due-date window and supplier document', () => {
+        const a = payable({ valor: 250, dataVencimento: '2026-10-10', fornecedorCnpj: '11222333000181' });
+        const b = payable({ valor: 250, dataVencimento: '2026-10-14', fornecedor: 'Grafica Central Ltda' });
+        const debit = { authId: 'CLASS_X', data: '2026-10-11', valor: 250, descricao: 'BOLETO GRAFICA CENTRAL', cpfCnpj: '99888777000166' };
+        // CNPJ diferente descarta "a"; "b" foi pago 3 dias antes do vencimento
+        expect(matchPayables([a, b], [debit]).map(m => m.payable.id)).toEqual([b.id]);
+        expect(matchPayables([a], [{ ...debit, data: '2026-11-30', cpfCnpj: undefined }])).toHaveLength(0);
+    });
+
+    it('the amount alone never settles a payable', () => {
+        const semCnpj = payable({ valor: 480, fornecedor: 'Grafica Central Ltda' });
+        const debit = { authId: 'CLASS_Z', data: '2026-10-10', valor: 480, descricao: 'PIX ENVIADO LTDA' };
+        expect(matchPayables([semCnpj], [debit])).toHaveLength(0);
+        expect(matchPayables([semCnpj], [{ ...debit, descricao: 'PIX ENVIADO GRÁFICA' }])).toHaveLength(1);
+        expect(matchPayables([payable({ valor: 480, palavraChave: 'NF 123' })], [{ ...debit, descricao: 'BOLETO NF 123' }])).toHaveLength(1);
+
+        const comCnpj = payable({ valor: 480, fornecedorCnpj: '11.222.333/0001-81' });
+        expect(matchPayables([comCnpj], [{ ...debit, cpfCnpj: '11222333000181' }])).toHaveLength(1);
+    });
+
+    it('a synced bank debit settles the payable and opens the next recurrence', async () => {
+        const rent = payable({ id: 'CP_ALUGUEL_TEST', fornecedor: 'Imobiliaria', valor: 3200, dataVencimento: '2026-10-05', recorrencia: 'mensal' });
+        await upsertTitulo('pagar', rent);
+
+        const result = await processTransactions(new GuardianAgents(), [
+            { id: 'x', data: '2026-10-06', tipo: 'DEBITO', valor: 3200, descricao: 'PIX ENVIADO IMOBILIARIA PAYABLE' },
+        ]);
+        expect(result.payablesSettled).toBe(1);
+        expect(result.txResults[0]).toMatchObject({ contaPagarId: rent.id, classification: 'Aluguel' });
+
+        const titulos = await getTitulos<ContaPagar>('pagar');
+        expect(titulos.find(t => t.id === rent.id)).toMatchObject({ status: 'pago', dataPagamento: '2026-10-06', transacaoId: result.txResults[0].id });
+        const next = titulos.find(t => t.recorrenteDe === rent.id);
+        expect(next).toMatchObject({ status: 'aberto', dataVencimento: '2026-11-05', valor: 3200 });
+
+        // Débito rejeitado: título volta a aberto e a recorrência que ele gerou some
+        expect(await reopenPayablesSettledBy([result.txResults[0].id])).toHaveLength(1);
+        const depois = await getTitulos<ContaPagar>('pagar');
+        const reaberto = depois.find(t => t.id === rent.id);
+        expect(reaberto?.status).toBe('aberto');
+        expect(reaberto?.transacaoId).toBeUndefined();
+        expect(depois.some(t => t.recorrenteDe === rent.id)).toBe(false);
+    });
+});
+
+describe('Contas a Receber', () => {
+    const deal = (over: Partial<ComercialDeal>): ComercialDeal => ({
+        id: generateId('DEAL'), empresa: 'Cliente SA', contato: 'Ana', servico: 'BPO Financeiro',
+        estagio: 'fechado_ganho', valor: 4500, recorrencia: 'mensal', probabilidade: 100, responsavel: 'Andre',
+        dataCriacao: '2026-09-01', dataPrevisaoFechamento: '2026-10-01', dataFechamento: '2026-10-01', origem: 'indicacao',
+        ...over,
+    });
+
+    it('a won monthly deal is scheduled as twelve monthly installments', () => {
+        const schedule = scheduleFromDeal(deal({ id: 'DEAL_SCHED' }));
+        expect(schedule).toHaveLength(12);
+        expect(schedule[0]).toMatchObject({ id: 'CR_DEAL_SCHED_1', dataVencimento: '2026-10-31', categoria: 'Receita Recorrente', parcela: 1, totalParcelas: 12 });
+        expect(schedule[1].dataVencimento).toBe('2026-11-30');
+        expect(scheduleFromDeal(deal({ recorrencia: 'unico' }))).toHaveLength(1);
+        expect(scheduleFromDeal(deal({ recorrencia: 'trimestral' }))).toHaveLength(4);
+    });
+
+    it('creates the schedule once and cancels open titles when the deal is reopened', async () => {
+        const won = deal({ recorrencia: 'trimestral' });
+        expect(await syncDealReceivables(won, null)).toEqual({ criados: 4, cancelados: 0 });
+        expect(await syncDealReceivables(won, won)).toEqual({ criados: 0, cancelados: 0 });
+
+        const reopened = { ...won, estagio: 'negociacao' as const };
+        expect(await syncDealReceivables(reopened, won)).toEqual({ criados: 0, cancelados: 4 });
+        const titulos = (await getTitulos<ContaReceber>('receber')).filter(r => r.dealId === won.id);
+        expect(titulos.every(r => r.status === 'cancelado')).toBe(true);
+    });
+
+    it('only transfer credits inside the window settle a receivable', () => {
+        const [r] = scheduleFromDeal(deal({ recorrencia: 'unico', valor: 780 }));
+        const credit = { authId: 'CLASS_Y', data: '2026-11-10', valor: 780, descricao: 'PIX RECEBIDO CLIENTE SA' };
+        expect(matchReceivables([r], [credit])).toHaveLength(1);
+        expect(matchReceivables([r], [{ ...credit, descricao: 'LIQUIDACAO BOLETO' }])).toHaveLength(0);
+        expect(matchReceivables([r], [{ ...credit, data: '2027-01-30' }])).toHaveLength(0);
+    });
+
+    it('a synced PIX credit settles the receivable', async () => {
+        await syncDealReceivables(deal({ id: 'DEAL_PIX', recorrencia: 'unico', valor: 6150 }), null);
+
+        const result = await processTransactions(new GuardianAgents(), [
+            { id: 'x', data: '2026-11-03', tipo: 'CREDITO', valor: 6150, descricao: 'PIX RECEBIDO CLIENTE SA RECEIVABLE' },
+        ]);
+        expect(result.receivablesSettled).toBe(1);
+        expect(result.txResults[0]).toMatchObject({ contaReceberId: 'CR_DEAL_PIX_1', classification: 'Receita de Servicos' });
+
+        const titulo = (await getTitulos<ContaReceber>('receber')).find(r => r.id === 'CR_DEAL_PIX_1');
+        expect(titulo).toMatchObject({ status: 'recebido', dataRecebimento: '2026-11-03', transacaoId: result.txResults[0].id });
+
+        // Crédito rejeitado: o título volta a aberto
+        expect(await reopenReceivablesSettledBy([result.txResults[0].id])).toHaveLength(1);
+        const reaberto = (await getTitulos<ContaReceber>('receber')).find(r => r.id === 'CR_DEAL_PIX_1');
+        expect(reaberto?.status).toBe('aberto');
+        expect(reaberto?.transacaoId).toBeUndefined();
+    });
+});
+
 describe('End-to-End Pipeline', () => {
     it('full sync pipeline produces audited and reconciled results', async () => {
+        await updateCadastroRecord('categorias', budgetCategory('Servicos Financeiros', 'DESPESA_FINANCEIRA', 'Tarifas Bancarias', 1000));
         const agents = new GuardianAgents();
 
         // Simulate real transactions (connectors return empty when not configured)
@@ -435,4 +1644,133 @@ describe('End-to-End Pipeline', () => {
         expect(txResults[0].classification).toBe('Receita Operacional');
         expect(txResults[1].classification).toBe('Servicos Financeiros');
     });
+
+    it('sync is idempotent: re-running the same window creates no duplicates', async () => {
+        const agents = new GuardianAgents();
+        const batch = () => [
+            { id: 'a', data: '2026-08-03', tipo: 'DEBITO' as const, valor: 9.9, descricao: 'TARIFA PACOTE IDEMP' },
+            { id: 'b', data: '2026-08-03', tipo: 'DEBITO' as const, valor: 9.9, descricao: 'TARIFA PACOTE IDEMP' },
+            { id: 'c', data: '2026-08-04', tipo: 'CREDITO' as const, valor: 700, descricao: 'PIX RECEBIDO IDEMP', idExterno: 'INTER-777' },
+        ];
+
+        const first = await processTransactions(agents, batch());
+        expect(first.summary).toEqual({ new: 3, updated: 0, unchanged: 0 });
+
+        // Approved items are never touched again
+        await updateGuardianAuth(first.txResults[2].id, { status: 'aprovado' });
+        const second = await processTransactions(agents, batch());
+        expect(second.summary).toEqual({ new: 0, updated: 0, unchanged: 3 });
+
+        // Same bank id with a corrected description updates the pending item in place
+        const changed = batch();
+        changed[2].descricao = 'PIX RECEBIDO IDEMP CORRIGIDO';
+        await updateGuardianAuth(first.txResults[2].id, { status: 'pendente' });
+        const third = await processTransactions(agents, changed);
+        expect(third.summary).toEqual({ new: 0, updated: 1, unchanged: 2 });
+
+        const stored = (await getAllAuthorizations()).filter(a => (a.descricao || '').includes('IDEMP'));
+        expect(stored).toHaveLength(3);
+        expect(stored.find(a => a.id === first.txResults[2].id)?.descricao).toBe('PIX RECEBIDO IDEMP CORRIGIDO');
+    });
+
+    it('fingerprints are deterministic and keep identical rows distinct', () => {
+        const tx = { id: 'x', data: '2026-08-01', tipo: 'DEBITO' as const, valor: 10, descricao: 'Tarifa  pacote' };
+        const [a, b] = assignFingerprints([tx, { ...tx, id: 'y' }]);
+        const [again] = assignFingerprints([{ ...tx, id: 'z', descricao: 'TARIFA PACOTE' }]);
+        expect(a.id).toMatch(/^TX_[a-f0-9]{32}$/);
+        expect(b.id).toBe(`${a.id}_1`);
+        expect(again.id).toBe(a.id);
+    });
+
+    it('rows synced before their account existed keep their id once the account is bound', async () => {
+        const agents = new GuardianAgents();
+        const tx = { id: 'legacy', data: '2026-08-03', tipo: 'DEBITO' as const, valor: 77.7, descricao: 'TARIFA LEGADO INTER' };
+        const first = await processTransactions(agents, [tx]);
+        const again = await processTransactions(agents, [{ ...tx, contaId: 'CC_INTER_NOVA' }]);
+        expect(first.summary.new).toBe(1);
+        expect(again.summary).toEqual({ new: 0, updated: 0, unchanged: 1 });
+        // Uma linha igual em outra conta já vinculada continua sendo nova
+        expect((await getAllAuthorizations()).find(a => a.id === 'CLASS_' + assignFingerprints([tx])[0].id)?.contaId).toBe('CC_INTER_NOVA');
+        const outraConta = await processTransactions(agents, [{ ...tx, contaId: 'CC_OUTRA' }]);
+        expect(outraConta.summary.new).toBe(1);
+    });
+
+    it('only one account may bind the env-configured Inter connector', () => {
+        const conta = (id: string, over: Partial<ContaCorrente> = {}) =>
+            ({ id, nome: id, banco: 'Inter', tipo: 'corrente', saldoInicial: 0, ativa: true, criadoEm: nowISO(), conector: 'inter', ...over }) as ContaCorrente;
+        expect(validateConector(conta('CC_B'), [conta('CC_A')])).toMatch(/CC_A/);
+        expect(validateConector(conta('CC_A'), [conta('CC_A')])).toBeNull();
+        expect(validateConector(conta('CC_B'), [conta('CC_A', { ativa: false })])).toBeNull();
+        expect(validateConector(conta('CC_B', { conector: 'ofx_drop' }), [conta('CC_A')])).toBeNull();
+    });
+
+    it('incremental sync starts from the stored cursor minus the overlap window', async () => {
+        await createCadastroRecord('contas', {
+            id: 'CC_SYNC_CURSOR', nome: 'Poupanca Cursor', banco: 'Itau', tipo: 'poupanca',
+            saldoInicial: 0, ativa: true, criadoEm: nowISO(), conector: 'ofx_drop',
+        });
+        // Cursor gravado antes do prefixo ACCOUNT: ainda é lido
+        await setConfig('SYNC_CURSOR_CC_SYNC_CURSOR', '2026-09-10');
+        const summary = await runSync({ trigger: 'timer', incremental: true, endDate: '2026-09-12' });
+        expect(summary.contas.find(c => c.contaId === 'CC_SYNC_CURSOR')?.de).toBe('2026-09-07');
+        expect(await getSyncCursor(accountSyncSource('CC_SYNC_CURSOR'))).toBe('2026-09-12');
+
+        const manual = await runSync({ trigger: 'manual', startDate: '2026-09-01', endDate: '2026-09-02' });
+        expect(manual.periodo.de).toBe('2026-09-01');
+        await deleteCadastroRecord('contas', 'CC_SYNC_CURSOR');
+    });
+
+    it('documents already queued (same stored file) are not duplicated', async () => {
+        const agents = new GuardianAgents();
+        const doc = (): AnalysisResult => ({
+            id: generateId('EXT'), type: 'document', classification: 'Documento Pendente OCR',
+            confidence: 0, value: 0, needsReview: true, suggestedAction: 'investigate', documentId: 'f'.repeat(64),
+        });
+        const first = await processTransactions(agents, [], { documents: [doc()] });
+        const second = await processTransactions(agents, [], { documents: [doc()] });
+        expect(first.docResults).toHaveLength(1);
+        expect(second.docResults).toHaveLength(0);
+    });
+
+    it('every sync run is recorded in the journal with per-source status', async () => {
+        const summary = await runSync({ trigger: 'manual', startDate: '2026-09-01', endDate: '2026-09-30' });
+        const [latest] = await getSyncRuns(1);
+
+        expect(latest.id).toBe(summary.runId);
+        expect(latest).toMatchObject({ trigger: 'manual', status: 'sucesso', periodoDe: '2026-09-01', periodoAte: '2026-09-30' });
+        expect(latest.fontes?.email?.status).toBe('nao_configurado');
+        expect(latest.classificacoes).toEqual({ learned: 0, rules: 0, kimi: 0 });
+        expect(latest.finalizadoEm >= latest.iniciadoEm).toBe(true);
+    });
+
+    it('imported transactions carry their account and roll its balance forward', async () => {
+        const agents = new GuardianAgents();
+        await processTransactions(agents, [
+            { id: 'a', data: '2026-09-01', tipo: 'CREDITO', valor: 1000, descricao: 'PIX RECEBIDO SALDO' },
+            { id: 'b', data: '2026-09-02', tipo: 'DEBITO', valor: 250.5, descricao: 'BOLETO SALDO' },
+            { id: 'c', data: '2026-08-20', tipo: 'DEBITO', valor: 99, descricao: 'ANTES DA REFERENCIA SALDO' },
+        ], { contaId: 'CC_SALDO', origem: 'upload' });
+
+        const auths = (await getAllAuthorizations()).filter(a => a.contaId === 'CC_SALDO');
+        expect(auths).toHaveLength(3);
+        expect(auths.find(a => a.descricao === 'BOLETO SALDO')?.direcao).toBe('DEBITO');
+
+        const conta: ContaCorrente = {
+            id: 'CC_SALDO', nome: 'Conta Saldo', banco: 'Inter', tipo: 'corrente',
+            saldoInicial: 500, dataSaldoInicial: '2026-09-01', ativa: true, criadoEm: nowISO(),
+        };
+        const [saldo] = computeAccountBalances([conta], auths);
+        expect(saldo).toMatchObject({ creditos: 1000, debitos: 250.5, saldoAtual: 1249.5, lancamentos: 2 });
+
+        // Rejeitados não movimentam a conta
+        const rejected = auths.map(a => a.descricao === 'BOLETO SALDO' ? { ...a, status: 'rejeitado' as const } : a);
+        expect(computeAccountBalances([conta], rejected)[0].saldoAtual).toBe(1500);
+    });
+
+    it('classifyTransaction records which layer decided', async () => {
+        const result = await new GuardianAgents().classifyTransaction(
+            { id: 'TX_LAYER', data: '2026-01-10', tipo: 'DEBITO', valor: 80, descricao: 'CONTA ENERGIA CEMIG' }
+        );
+        expect(result.classifier).toBe('rules');
+    });
 });